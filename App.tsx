@@ -3,27 +3,93 @@ import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { LiveSession } from '@google/genai';
 import {
   connectLiveSession,
-  generateTextToSpeech,
   checkAndSelectApiKey,
   sendTextInput
 } from './services/geminiService';
-import { createPcmBlob } from './utils/audioUtils';
+import {
+  getTextPreparationSettings,
+  prepareTextForSpeech,
+  synthesizeSegment,
+  synthesizeText,
+  SynthesisProgress,
+} from './services/synthesisPipeline';
+import {
+  createGenerationJob,
+  deleteGenerationJob,
+  listUnfinishedGenerationJobs,
+  loadPersistedSegmentAudio,
+  loadSynthesisSettings,
+  MAX_SYNTHESIS_CONCURRENCY,
+  prunePersistedGenerationData,
+  runGenerationJob,
+  saveSegmentAudio,
+  saveSynthesisSettings,
+  SynthesisSettings,
+} from './services/generationQueue';
+import { splitTextIntoSegments } from './utils/textSegmenter';
+import {
+  createBook,
+  createChapter,
+  createId,
+  findSegmentAtOffset,
+  getExportFileName,
+  loadBookFromStorage,
+  moveChapter,
+  prepareChapterSegments,
+  resetSegmentAudio,
+  saveBookToStorage,
+  splitManuscriptIntoChapters,
+  updateChapter,
+  updateChapterText,
+  updateSegment,
+} from './utils/projectModel';
+import { applyVoicesToSegments, detectSpeakers, findCastMember, stripSpeakerMarkup, suggestCastForSpeakers } from './utils/casting';
+import { applyAttributionToText, listAttributedCharacters } from './utils/dialogueAttribution';
+import { applyLexiconToBook } from './utils/pronunciationLexicon';
+import { applyNormalizationToBook } from './utils/textNormalizer';
+import { importManuscriptFile } from './utils/manuscriptImport';
+import { loadMarkupImportSettings, MarkupImportSettings, saveMarkupImportSettings } from './utils/markupImport';
+import { stripNarrationMarkup } from './utils/narrationMarkup';
+import { loadFavoriteVoices, saveFavoriteVoices } from './utils/voiceCatalog';
+import { analyzeDialogue, DialogueAnalysisResult } from './services/dialogueAnalysis';
+import {
+  getTtsProvider,
+  loadSelectedTtsProviderId,
+  saveSelectedTtsProviderId,
+  TTS_PROVIDERS,
+  TtsProviderId,
+} from './services/ttsProvider';
+import { API_ERROR_GUIDANCE, ApiErrorKind, toApiError } from './services/apiErrors';
+import { applyGain, computeLevelMatchGains, createPcmBlob, createSilence } from './utils/audioUtils';
 import {
   INPUT_AUDIO_SAMPLE_RATE,
   OUTPUT_AUDIO_SAMPLE_RATE,
   NUM_AUDIO_CHANNELS,
   AUDIO_CHUNK_SIZE,
-  TTS_VOICES,
   VIDEO_RESOLUTIONS,
   VIDEO_CODECS,
   VIDEO_BITRATES,
-  MAX_TTS_TEXT_LENGTH_CHARS,
+  TTS_SEGMENT_MAX_CHARS,
   FREEMIUM_IMAGE_GENERATOR_CONFIG,
 } from './constants';
-import { encodePCMToMP3 } from './utils/audioUtils';
+import { createDefaultExportMetadata } from './utils/audiobookMetadata';
+import { isAbortError } from './utils/abort';
+import { createFileSink, createMemorySink, exportAudiobook } from './utils/audioExport';
+import { EXPORT_FORMATS, getExportFormat, loadExportFormatId, saveExportFormatId } from './utils/exportFormats';
 import Button from './components/Button';
-import { ChatMessage } from './types';
-import type { LameConstructor } from './utils/audioUtils';
+import ChapterPanel from './components/ChapterPanel';
+import CastingPanel from './components/CastingPanel';
+import DialogueReviewPanel from './components/DialogueReviewPanel';
+import GenerationQueuePanel from './components/GenerationQueuePanel';
+import AudioCachePanel from './components/AudioCachePanel';
+import LexiconPanel from './components/LexiconPanel';
+import NormalizationPanel from './components/NormalizationPanel';
+import SkippedPassagesPanel, { PendingSkippedPassage } from './components/SkippedPassagesPanel';
+import SegmentRetakePanel, { SegmentTake } from './components/SegmentRetakePanel';
+import VoiceAuditionPanel, { AuditionTake } from './components/VoiceAuditionPanel';
+import VoiceSelector from './components/VoiceSelector';
+import ExportMetadataDialog from './components/ExportMetadataDialog';
+import { AudiobookExportChapter, AudiobookExportMetadata, AudiobookScope, ExportFormat, Book, CastMember, Chapter, ChatMessage, GenerationJob, PronunciationEntry, Segment, TextNormalizationSettings } from './types';
 
 // Declare YT namespace for YouTube Iframe API
 declare global {
@@ -78,7 +144,9 @@ interface LineSegment {
   relativeEndTime: number; // end time relative to audiobook beginning
 }
 
-const segmentTextForKaraoke = (text: string, totalAudiobookDuration: number): LineSegment[] => {
+const segmentTextForKaraoke = (markedUpText: string, totalAudiobookDuration: number): LineSegment[] => {
+  // Narration markup (<pause/>, <style>…) is never shown on screen
+  const text = stripNarrationMarkup(markedUpText);
   const lines = text.split('\n').filter(line => line.trim().length > 0);
   if (lines.length === 0) return [];
 
@@ -128,11 +196,52 @@ const segmentTextForKaraoke = (text: string, totalAudiobookDuration: number): Li
   });
 };
 
+// Karaoke lines of one segment, stretched to cover exactly its audio, which starts `startTime`
+// seconds into the playback. Used while the audiobook is still being generated.
+const segmentKaraokeLines = (text: string, startTime: number, duration: number): LineSegment[] => {
+  const lines = segmentTextForKaraoke(text, duration);
+  const estimatedDuration = lines.reduce((acc, line) => acc + line.duration, 0);
+  if (estimatedDuration <= 0) return [];
+  const scale = duration / estimatedDuration;
+  return lines.map(line => ({
+    ...line,
+    words: line.words.map(word => ({ ...word, startTime: word.startTime * scale, endTime: word.endTime * scale })),
+    duration: line.duration * scale,
+    relativeStartTime: startTime + line.relativeStartTime * scale,
+    relativeEndTime: startTime + line.relativeEndTime * scale,
+  }));
+};
+
 
 const App: React.FC = () => {
-  const [textInput, setTextInput] = useState<string>('');
+  // Audiobook project: the textarea edits the text of the active chapter
+  const [book, setBook] = useState<Book>(() => loadBookFromStorage() ?? createBook());
+  const [activeChapterId, setActiveChapterId] = useState<string>('');
+  const [audiobookScope, setAudiobookScope] = useState<AudiobookScope>('chapter');
+  const [dialogueAnalysis, setDialogueAnalysis] = useState<(DialogueAnalysisResult & { chapterId: string }) | null>(null);
+  const [isAnalyzingDialogue, setIsAnalyzingDialogue] = useState<boolean>(false);
+  const [skippedPassages, setSkippedPassages] = useState<PendingSkippedPassage[]>([]);
+  const [markupImportSettings, setMarkupImportSettings] = useState<MarkupImportSettings>(() => loadMarkupImportSettings());
+  const [favoriteVoices, setFavoriteVoices] = useState<string[]>(() => loadFavoriteVoices());
+  const activeChapter = book.chapters.find(chapter => chapter.id === activeChapterId) ?? book.chapters[0];
+  const scopeChapters = audiobookScope === 'book' ? book.chapters : [activeChapter];
+  const textInput = activeChapter.text;
+  // Segments edited since their audio was generated
+  const staleSegmentCount = activeChapter.segments.some(segment => segment.audioRef)
+    ? activeChapter.segments.filter(segment => !segment.audioRef).length
+    : 0;
   const [liveTextInput, setLiveTextInput] = useState<string>('');
   const [isAudiobookGenerating, setIsAudiobookGenerating] = useState<boolean>(false);
+  const [synthesisProgress, setSynthesisProgress] = useState<SynthesisProgress | null>(null);
+  const [unfinishedJob, setUnfinishedJob] = useState<GenerationJob | null>(null); // Resumable job from IndexedDB
+  const [retakeSegmentId, setRetakeSegmentId] = useState<string | null>(null); // Segment open for regeneration
+  const [segmentTake, setSegmentTake] = useState<SegmentTake | null>(null);
+  const [auditionTakes, setAuditionTakes] = useState<AuditionTake[]>([]);
+  const [exportDialog, setExportDialog] = useState<{ format: ExportFormat; metadata: AudiobookExportMetadata; notice: string | null } | null>(null);
+  const [exportFormatId, setExportFormatId] = useState<ExportFormat>(() => loadExportFormatId());
+  const [availableExportFormats, setAvailableExportFormats] = useState<ExportFormat[]>([]);
+  const [exportProgress, setExportProgress] = useState<{ label: string; fraction: number } | null>(null);
+  const editorCursorRef = useRef<number>(0); // Last cursor position in the chapter textarea
   const [isAudiobookPlaying, setIsAudiobookPlaying] = useState<boolean>(false);
   const [isAudiobookPlaybackPaused, setIsAudiobookPlaybackPaused] = useState<boolean>(false);
   const [isRecordingMicrophone, setIsRecordingMicrophone] = useState<boolean>(false);
@@ -154,8 +263,10 @@ const App: React.FC = () => {
   });
   const [currentTranscription, setCurrentTranscription] = useState<{ user: string; model: string }>({ user: '', model: '' });
   const [selectedVoice, setSelectedVoice] = useState<string>('Kore');
+  const [ttsProviderId, setTtsProviderId] = useState<TtsProviderId>(() => loadSelectedTtsProviderId());
+  const ttsProvider = getTtsProvider(ttsProviderId);
+  const [synthesisSettings, setSynthesisSettings] = useState<SynthesisSettings>(() => loadSynthesisSettings());
   const [isTranscriptionEnabled, setIsTranscriptionEnabled] = useState<boolean>(true);
-  const [isLamejsLoaded, setIsLamejsLoaded] = useState<boolean>(false); // State to track lamejs loading
 
   // Video Visualizer States
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
@@ -204,14 +315,26 @@ const App: React.FC = () => {
   const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
   const liveSessionRef = useRef<LiveSession | null>(null);
   const liveSessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
+  const liveAbortControllerRef = useRef<AbortController | null>(null);
+  // Cancels the running synthesis job (Mégse button)
+  const generationAbortControllerRef = useRef<AbortController | null>(null);
+  const exportAbortControllerRef = useRef<AbortController | null>(null);
+  // Set when an accepted retake has to be spliced into the loaded audiobook timeline
+  const timelineRefreshPendingRef = useRef<boolean>(false);
+  // Chapter whose text was edited but whose segments are not reconciled with it yet
+  const unreconciledChapterIdRef = useRef<string | null>(null);
 
   // Ref for main audio visualizer canvas (ALL VISUALIZATION: Live, Video, Audiobook)
   const mainVisualizerCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const animationFrameIdRef = useRef<number | null>(null);
   const mainCanvasContainerRef = useRef<HTMLDivElement | null>(null);
 
-  // Buffer for accumulating audio for MP3 download
+  // Buffers queued for the current audiobook playback (resume after pause)
   const audiobookPcmBuffersRef = useRef<AudioBuffer[]>([]);
+  // True while segments are still being generated and appended to the running playback
+  const audiobookStreamingRef = useRef<boolean>(false);
+  // Generated audio of every segment, keyed by Segment.audioRef
+  const segmentAudioRef = useRef<Map<string, AudioBuffer>>(new Map());
 
   // Refs for Video Visualizer and Export
   const videoElementRef = useRef<HTMLVideoElement | null>(null);
@@ -370,26 +493,20 @@ const App: React.FC = () => {
   const handleApiError = useCallback((message: string, err: unknown) => {
     console.error(message, err);
     const errorObject = err instanceof Error ? err : new Error(String(err));
+    // Service failures are classified by the service layer; device and media errors are handled here
+    const apiError = toApiError(err);
     let errorMessage = `${message}: ${errorObject.message || 'Ismeretlen hiba'}`;
 
-    if (errorObject instanceof DOMException) {
-      if (errorObject.name === 'NotAllowedError') {
-        errorMessage = `${message}: Mikrofon hozzáférés megtagadva. Kérjük, engedélyezze a böngésző beállításaiban.`;
-      } else if (errorObject.name === 'NotFoundError' || errorObject.name === 'NotReadableError') {
-        errorMessage = `${message}: Nincs mikrofon található, vagy egy másik alkalmazás használja. Kérjük, ellenőrizze a mikrofon csatlakozását, a böngésző és az operációs rendszer engedélyeit.`;
-      } else if (errorObject.name === 'AbortError') {
-        errorMessage = 'Műveletet a felhasználó megszakította.';
-      } else if (errorObject.name === 'QuotaExceededError' || (errorObject.message && errorObject.message.includes('too many tokens'))) {
-        errorMessage = `${message}: A szöveg túl hosszú. Kérjük, rövidebb szöveget használjon.`;
-      }
-    } else if (errorObject instanceof TypeError && (errorObject.message.includes('Failed to fetch') || errorObject.message.includes('NetworkError'))) {
-      errorMessage = `${message}: Hálózati kapcsolat megszakadt, vagy a szerver nem elérhető. Kérjük, ellenőrizze az internetkapcsolatot.`;
-    } else if ((errorObject as any).status === 403 || (errorObject.message && (errorObject.message.includes('Billing account not enabled') || errorObject.message.includes('Quota exceeded')))) {
-      errorMessage = `${message}: API kulcs vagy számlázási probléma. Kérjük, ellenőrizze Gemini API kulcsát és számlázási beállításait, vagy frissítsen Pro verzióra.`;
-    } else if (errorObject.message && (errorObject.message.includes('safety') || errorObject.message.includes('unsupported content') || errorObject.message.includes('invalid input'))) {
-      errorMessage = `${message}: Nem értelmezhető vagy nem engedélyezett szöveg. Kérjük, próbálja meg átfogalmazni.`;
+    if (errorObject instanceof DOMException && errorObject.name === 'NotAllowedError') {
+      errorMessage = `${message}: Mikrofon hozzáférés megtagadva. Kérjük, engedélyezze a böngésző beállításaiban.`;
+    } else if (errorObject instanceof DOMException && (errorObject.name === 'NotFoundError' || errorObject.name === 'NotReadableError')) {
+      errorMessage = `${message}: Nincs mikrofon található, vagy egy másik alkalmazás használja. Kérjük, ellenőrizze a mikrofon csatlakozását, a böngésző és az operációs rendszer engedélyeit.`;
+    } else if (apiError.kind === 'cancelled') {
+      errorMessage = API_ERROR_GUIDANCE.cancelled;
     } else if (errorObject.message && errorObject.message.includes('CORS')) {
       errorMessage = `${message}: Nem sikerült betölteni a médiafájlt a megadott URL-ről a böngésző biztonsági korlátozásai miatt (CORS).`;
+    } else if (apiError.kind !== 'unknown') {
+      errorMessage = `${message}: ${API_ERROR_GUIDANCE[apiError.kind]}`;
     }
     
     setError(errorMessage);
@@ -404,7 +521,21 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const playAudioBuffer = useCallback(async (buffer: AudioBuffer, isAudiobook: boolean = false) => {
+  const resetAudiobookPlaybackState = useCallback(() => {
+    setIsAudiobookPlaying(false);
+    setCurrentHighlightedLineIndex(-1); // Reset karaoke
+    setCurrentHighlightedWordIndex(-1); // Reset karaoke
+    audiobookScrollStartTimeRef.current = 0;
+    lastSceneChangeTimestampRef.current = 0;
+  }, []);
+
+  /**
+   * Schedules a buffer right after the audio already queued.
+   * @param startsTimeline For audiobook playback: resets karaoke and scenes to this buffer's start.
+   *   Segments appended to a running playback pass false.
+   * @returns The AudioContext time the buffer starts at.
+   */
+  const playAudioBuffer = useCallback(async (buffer: AudioBuffer, isAudiobook: boolean = false, startsTimeline: boolean = true) => {
     const { audioContext, outputNode } = initializeAudioContext();
     
     console.log(`playAudioBuffer: AudioContext state: ${audioContext.state}`); // DIAGNOSTIC
@@ -426,23 +557,21 @@ const App: React.FC = () => {
     source.addEventListener('ended', () => {
       sourceNodesRef.current.delete(source);
       if (sourceNodesRef.current.size === 0) {
-        if (isAudiobook) {
-          setIsAudiobookPlaying(false);
-          setCurrentHighlightedLineIndex(-1); // Reset karaoke
-          setCurrentHighlightedWordIndex(-1); // Reset karaoke
-          audiobookScrollStartTimeRef.current = 0;
-          lastSceneChangeTimestampRef.current = 0;
+        // While generating, running out of audio only means the next segment is not ready yet
+        if (isAudiobook && !audiobookStreamingRef.current) {
+          resetAudiobookPlaybackState();
         }
         // No explicit disconnect from analyser/destination needed here, as outputNode handles it.
       }
     });
 
-    source.start(nextStartTimeRef.current);
-    console.log(`playAudioBuffer: Started audio at ${nextStartTimeRef.current}. Current AudioContext time: ${audioContext.currentTime}`); // DIAGNOSTIC
-    nextStartTimeRef.current = nextStartTimeRef.current + buffer.duration;
+    const startTime = nextStartTimeRef.current;
+    source.start(startTime);
+    console.log(`playAudioBuffer: Started audio at ${startTime}. Current AudioContext time: ${audioContext.currentTime}`); // DIAGNOSTIC
+    nextStartTimeRef.current = startTime + buffer.duration;
     sourceNodesRef.current.add(source);
 
-    if (isAudiobook) {
+    if (isAudiobook && startsTimeline) {
       setIsAudiobookPlaying(true);
       // Reset karaoke and scene state on new playback
       audiobookScrollStartTimeRef.current = audioContext.currentTime;
@@ -458,11 +587,257 @@ const App: React.FC = () => {
         currentLoadedAudiobookImageRef.current = img;
       }
     }
-  }, [initializeAudioContext, currentAudiobookSceneIndex, audiobookSceneImageUrls]);
+    return startTime;
+  }, [initializeAudioContext, currentAudiobookSceneIndex, audiobookSceneImageUrls, resetAudiobookPlaybackState]);
+
+  // Reconciles the segments of the chapter last typed into with its text; only the segments touched
+  // by the edit lose their audio
+  const reconcileEditedText = useCallback(() => {
+    const chapterId = unreconciledChapterIdRef.current;
+    if (!chapterId) return;
+    unreconciledChapterIdRef.current = null;
+    setBook(prev => {
+      const chapter = prev.chapters.find(candidate => candidate.id === chapterId);
+      return chapter ? updateChapterText(prev, chapterId, chapter.text, selectedVoice) : prev;
+    });
+  }, [selectedVoice]);
+
+  const setTextInput = useCallback((text: string) => {
+    if (unreconciledChapterIdRef.current !== activeChapter.id) reconcileEditedText();
+    setBook(prev => updateChapter(prev, activeChapter.id, { text }));
+    unreconciledChapterIdRef.current = activeChapter.id;
+    // A pending dialogue review refers to paragraphs of the old text
+    setDialogueAnalysis(prev => (prev?.chapterId === activeChapter.id ? null : prev));
+  }, [activeChapter.id, reconcileEditedText]);
+
+  // Resegmenting a long chapter is too slow for every keystroke, so it waits for a pause in typing
+  // (or for the editor to lose focus)
+  useEffect(() => {
+    if (!unreconciledChapterIdRef.current) return;
+    const timeoutId = globalThis.setTimeout(reconcileEditedText, 600);
+    return () => globalThis.clearTimeout(timeoutId);
+  }, [book, reconcileEditedText]);
+
+  // Returns the generated audio of the given chapters in order, or null if any segment is missing
+  const getChapterBuffers = useCallback((chapters: Chapter[]): AudioBuffer[] | null => {
+    const buffers: AudioBuffer[] = [];
+    for (const chapter of chapters) {
+      if (chapter.segments.length === 0 && chapter.text.trim()) return null;
+      for (const segment of chapter.segments) {
+        const buffer = segment.audioRef ? segmentAudioRef.current.get(segment.audioRef) : undefined;
+        if (!buffer) return null;
+        buffers.push(buffer);
+      }
+    }
+    return buffers.length > 0 ? buffers : null;
+  }, []);
+
+  // The generated audio of the given chapters, kept per chapter for exports with chapter markers
+  const getExportChapters = useCallback((chapters: Chapter[]): AudiobookExportChapter[] | null => {
+    if (!getChapterBuffers(chapters)) return null;
+    return chapters.map(chapter => ({
+      title: chapter.title,
+      buffers: chapter.segments.map(segment => segmentAudioRef.current.get(segment.audioRef!)!),
+    }));
+  }, [getChapterBuffers]);
+
+  // Chapter management
+  const handleBookInfoChange = useCallback((patch: { title?: string; author?: string }) => {
+    setBook(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  const handleSelectChapter = useCallback((chapterId: string) => {
+    setActiveChapterId(chapterId);
+    setError(null);
+  }, []);
+
+  const handleRenameChapter = useCallback((chapterId: string, title: string) => {
+    setBook(prev => updateChapter(prev, chapterId, { title }));
+  }, []);
+
+  const handleAddChapter = useCallback(() => {
+    const chapter = createChapter(`${book.chapters.length + 1}. fejezet`);
+    setBook(prev => ({ ...prev, chapters: [...prev.chapters, chapter] }));
+    setActiveChapterId(chapter.id);
+  }, [book.chapters.length]);
+
+  const handleDeleteChapter = useCallback((chapterId: string) => {
+    if (book.chapters.length <= 1) return;
+    setBook(prev => ({ ...prev, chapters: prev.chapters.filter(chapter => chapter.id !== chapterId) }));
+    if (chapterId === activeChapter.id) {
+      setActiveChapterId('');
+    }
+    setStatusMessage('Fejezet törölve.');
+  }, [book.chapters.length, activeChapter.id]);
+
+  const handleMoveChapter = useCallback((chapterId: string, direction: -1 | 1) => {
+    setBook(prev => moveChapter(prev, chapterId, direction));
+  }, []);
 
-  // Handle voice preview
-  const handlePreviewVoice = useCallback(async (voiceName: string) => {
-    setSelectedVoice(voiceName); // Select the voice
+  const handleSplitActiveChapter = useCallback(() => {
+    const newChapters = splitManuscriptIntoChapters(activeChapter.text, activeChapter.title);
+    if (newChapters.length <= 1) {
+      setStatusMessage('Nem található fejezetcím a szövegben (pl. "# Cím" vagy "2. fejezet").');
+      return;
+    }
+    setBook(prev => {
+      const index = prev.chapters.findIndex(chapter => chapter.id === activeChapter.id);
+      const chapters = [...prev.chapters];
+      chapters.splice(index, 1, ...newChapters);
+      return { ...prev, chapters };
+    });
+    setActiveChapterId(newChapters[0].id);
+    setStatusMessage(`${newChapters.length} fejezet létrehozva.`);
+  }, [activeChapter]);
+
+  const handleInsertSkippedPassage = useCallback((index: number) => {
+    const passage = skippedPassages[index];
+    if (!passage) return;
+    const chapter = book.chapters.find(candidate => candidate.id === passage.chapterId);
+    if (chapter) {
+      setBook(prev => {
+        const current = prev.chapters.find(candidate => candidate.id === chapter.id);
+        return current
+          ? updateChapterText(prev, current.id, `${current.text.trimEnd()}\n\n${passage.text}`, selectedVoice)
+          : prev;
+      });
+      setStatusMessage(`Beillesztve a(z) „${chapter.title}” fejezet végére.`);
+    } else {
+      setStatusMessage('A fejezet, amelyhez a jegyzet tartozott, már nem létezik.');
+    }
+    setSkippedPassages(prev => prev.filter((_passage, i) => i !== index));
+  }, [skippedPassages, book.chapters, selectedVoice]);
+
+  // Casting
+  const handleCastChange = useCallback((cast: CastMember[]) => {
+    setBook(prev => {
+      const previousNames = prev.cast.map(member => member.character).sort().join('\n');
+      const nextNames = cast.map(member => member.character).sort().join('\n');
+      if (previousNames !== nextNames) {
+        // Which lines count as dialogue depends on the cast, so segments are rebuilt;
+        // lines whose speaker did not change keep their audio
+        const withCast = { ...prev, cast };
+        const resegmented = withCast.chapters.reduce(
+          (acc, chapter) => updateChapterText(acc, chapter.id, chapter.text, selectedVoice),
+          withCast,
+        );
+        return applyVoicesToSegments(resegmented, selectedVoice);
+      }
+      // Only voices changed: keep the audio of segments whose voice is unaffected
+      return applyVoicesToSegments({ ...prev, cast }, selectedVoice);
+    });
+  }, [selectedVoice]);
+
+  const handleDetectSpeakers = useCallback(() => {
+    const manuscript = book.chapters.map(chapter => chapter.text).join('\n');
+    const additions = suggestCastForSpeakers(
+      detectSpeakers(manuscript, book.cast),
+      book.cast,
+      selectedVoice,
+      ttsProvider.listVoices().map(voice => voice.value),
+    );
+    if (additions.length === 0) {
+      setStatusMessage('Nem található új jelölt szereplő a szövegben.');
+      return;
+    }
+    handleCastChange([...book.cast, ...additions]);
+    setStatusMessage(`${additions.length} új szereplő hozzáadva: ${additions.map(member => member.character).join(', ')}.`);
+  }, [book, selectedVoice, handleCastChange, ttsProvider]);
+
+  // Automatic dialogue attribution (reviewed before it touches the manuscript)
+  const handleAnalyzeDialogue = useCallback(async () => {
+    if (!activeChapter.text.trim()) {
+      setError('Kérjük, adjon meg szöveget az elemzéshez.');
+      return;
+    }
+    setError(null);
+    setIsAnalyzingDialogue(true);
+    setStatusMessage('Párbeszédek elemzése...');
+    try {
+      const result = await analyzeDialogue(activeChapter.text, book.cast, selectedVoice, ttsProvider.listVoices().map(voice => voice.value));
+      setDialogueAnalysis({ ...result, chapterId: activeChapter.id });
+      setStatusMessage(result.lines.length > 0
+        ? `${result.lines.length} párbeszédsor található. Kérjük, ellenőrizze a hozzárendelést.`
+        : 'Nem található idézett párbeszéd a fejezetben.');
+    } catch (err) {
+      handleApiError('Nem sikerült elemezni a párbeszédeket', err);
+    } finally {
+      setIsAnalyzingDialogue(false);
+    }
+  }, [activeChapter, book.cast, selectedVoice, handleApiError, ttsProvider]);
+
+  const handleDialogueLineSpeakerChange = useCallback((lineId: number, speaker: string | null) => {
+    setDialogueAnalysis(prev => prev && {
+      ...prev,
+      lines: prev.lines.map(line => (line.id === lineId ? { ...line, speaker, confidence: 1, source: 'manual' } : line)),
+    });
+  }, []);
+
+  const handleProposedVoiceChange = useCallback((character: string, voice: string) => {
+    setDialogueAnalysis(prev => prev && {
+      ...prev,
+      proposedCast: prev.proposedCast.map(member => (member.character === character ? { ...member, voice } : member)),
+    });
+  }, []);
+
+  const handleApplyDialogueAnalysis = useCallback(() => {
+    if (!dialogueAnalysis) return;
+    const { lines, proposedCast, chapterId } = dialogueAnalysis;
+    // Characters still in use after review: keep the reviewed voice, suggest one for names typed in by hand
+    const speakers = listAttributedCharacters(lines).filter(speaker => !findCastMember(book.cast, speaker));
+    const reviewed = proposedCast.filter(member => speakers.includes(member.character));
+    const additions = [
+      ...reviewed,
+      ...suggestCastForSpeakers(speakers, [...book.cast, ...reviewed], selectedVoice, ttsProvider.listVoices().map(voice => voice.value)),
+    ];
+    setBook(prev => {
+      const withCast = { ...prev, cast: [...prev.cast, ...additions] };
+      const chapter = prev.chapters.find(candidate => candidate.id === chapterId);
+      return chapter
+        ? updateChapterText(withCast, chapterId, applyAttributionToText(chapter.text, lines), selectedVoice)
+        : withCast;
+    });
+    setDialogueAnalysis(null);
+    setStatusMessage(`Párbeszédek jelölve a szövegben${additions.length > 0 ? `, ${additions.length} új szereplő` : ''}.`);
+  }, [dialogueAnalysis, book.cast, selectedVoice, ttsProvider]);
+
+  const handleTtsProviderChange = useCallback((id: TtsProviderId) => {
+    setTtsProviderId(id);
+    saveSelectedTtsProviderId(id);
+    // Audio of the previous provider must not be mixed into the new narration
+    setBook(prev => resetSegmentAudio(prev));
+    setStatusMessage(`TTS szolgáltató: ${getTtsProvider(id).name}.`);
+  }, []);
+
+  const handleSynthesisSettingsChange = useCallback((changes: Partial<SynthesisSettings>) => {
+    setSynthesisSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveSynthesisSettings(next);
+      return next;
+    });
+  }, []);
+
+  const handleMarkupImportSettingsChange = useCallback((changes: Partial<MarkupImportSettings>) => {
+    setMarkupImportSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveMarkupImportSettings(next);
+      return next;
+    });
+  }, []);
+
+  const handleLexiconChange = useCallback((lexicon: PronunciationEntry[]) => {
+    setBook(prev => applyLexiconToBook(prev, lexicon));
+  }, []);
+
+  const handleNormalizationChange = useCallback((normalization: TextNormalizationSettings) => {
+    setBook(prev => applyNormalizationToBook(prev, normalization));
+  }, []);
+
+  // Handle voice preview. A custom text (e.g. a lexicon term) is spoken with the project's lexicon applied.
+  const handlePreviewVoice = useCallback(async (voiceName: string, selectVoice: boolean = true, previewText?: string) => {
+    if (selectVoice) {
+      setSelectedVoice(voiceName); // Select the voice
+    }
     setError(null);
     setStatusMessage(`Hangminta generálása a(z) '${voiceName}' hanggal...`);
     setIsLoading(true);
@@ -477,41 +852,300 @@ const App: React.FC = () => {
         console.log(`handlePreviewVoice: AudioContext resumed. New state: ${audioContext.state}`); // DIAGNOSTIC
       }
 
-      const sampleText = "Ez egy hangminta a kiválasztott hangon.";
-      const audioBuffers = await generateTextToSpeech(sampleText, voiceName, audioContext);
+      const sampleText = prepareTextForSpeech(previewText ?? "Ez egy hangminta a kiválasztott hangon.", getTextPreparationSettings(book));
+      // Repeated previews of the same voice are served from the audio cache
+      const sampleBuffer = await synthesizeText(ttsProvider, sampleText, voiceName, audioContext);
 
-      if (audioBuffers.length > 0) {
-        console.log(`handlePreviewVoice: Generated sample buffer details - duration: ${audioBuffers[0].duration}, sampleRate: ${audioBuffers[0].sampleRate}, channels: ${audioBuffers[0].numberOfChannels}`); // DIAGNOSTIC
-        const source = audioContext.createBufferSource();
-        source.buffer = audioBuffers[0];
-        source.connect(outputNode); // FIX: Connect to outputNode
-        source.start(0);
-        setStatusMessage(`Hangminta lejátszása a(z) '${voiceName}' hanggal.`);
-      } else {
-        setStatusMessage('Nem sikerült hangmintát generálni.');
-      }
+      console.log(`handlePreviewVoice: Generated sample buffer details - duration: ${sampleBuffer.duration}, sampleRate: ${sampleBuffer.sampleRate}, channels: ${sampleBuffer.numberOfChannels}`); // DIAGNOSTIC
+      const source = audioContext.createBufferSource();
+      source.buffer = sampleBuffer;
+      source.connect(outputNode); // FIX: Connect to outputNode
+      source.start(0);
+      setStatusMessage(`Hangminta lejátszása a(z) '${voiceName}' hanggal.`);
     } catch (err) {
       handleApiError('Nem sikerült hangmintát generálni', err);
     } finally {
       setIsLoading(false);
     }
-  }, [initializeAudioContext, handleApiError, stopAllAudio, setSelectedVoice]);
+  }, [initializeAudioContext, handleApiError, stopAllAudio, setSelectedVoice, book, ttsProvider]);
+
+  // Favorite voices, remembered across sessions
+  const handleToggleFavoriteVoice = useCallback((voice: string) => {
+    setFavoriteVoices(prev => {
+      const next = prev.includes(voice) ? prev.filter(favorite => favorite !== voice) : [...prev, voice];
+      saveFavoriteVoices(next);
+      return next;
+    });
+  }, []);
 
+  // Voice audition: renders one passage in several voices and styles for side-by-side comparison
+  const handleRenderAuditionTakes = useCallback(async (text: string, voices: string[], styles: string[]) => {
+    const requests = voices.flatMap(voice => styles.map(style => ({ voice, style })))
+      .filter(request => !auditionTakes.some(take => take.text === text && take.voice === request.voice && take.style === request.style));
+    if (requests.length === 0) {
+      setStatusMessage('Ezek a változatok már elkészültek.');
+      return;
+    }
+    setError(null);
+    setIsLoading(true);
+    stopAllAudio();
+    try {
+      const { audioContext } = initializeAudioContext();
+      const spokenText = prepareTextForSpeech(text, getTextPreparationSettings(book));
+      for (const [index, request] of requests.entries()) {
+        setStatusMessage(`Meghallgatási változatok generálása (${index + 1}/${requests.length})...`);
+        const buffer = await synthesizeText(ttsProvider, spokenText, request.voice, audioContext, request.style);
+        const take: AuditionTake = { id: createId('take'), text, ...request, buffer, rating: 0, favorite: false };
+        setAuditionTakes(prev => [...prev, take]);
+      }
+      setStatusMessage(`${requests.length} változat elkészült.`);
+    } catch (err) {
+      handleApiError('Nem sikerült legenerálni a meghallgatási változatokat', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [auditionTakes, stopAllAudio, initializeAudioContext, book, ttsProvider, handleApiError]);
 
-  const handleReadAloud = async () => {
-    if (!textInput.trim()) {
-      setError('Kérjük, adjon meg szöveget a felolvasáshoz.');
+  const handlePlayAuditionTakes = useCallback((takeIds: string[], levelMatch: boolean) => {
+    const takes = takeIds
+      .map(id => auditionTakes.find(take => take.id === id))
+      .filter((take): take is AuditionTake => !!take);
+    if (takes.length === 0) return;
+    stopAllAudio();
+    setIsAudiobookPlaying(false);
+    const { audioContext } = initializeAudioContext();
+    // Gains are matched across every take on the board, so A and B sound equally loud whenever they are played
+    const gains = levelMatch ? computeLevelMatchGains(auditionTakes.map(take => take.buffer)) : null;
+    takes.forEach((take, index) => {
+      if (index > 0) playAudioBuffer(createSilence(0.6, audioContext, take.buffer.sampleRate));
+      const gain = gains ? gains[auditionTakes.indexOf(take)] : 1;
+      playAudioBuffer(gain === 1 ? take.buffer : applyGain(take.buffer, gain, audioContext));
+    });
+    setStatusMessage(takes.length > 1 ? `${takes.length} változat lejátszása egymás után.` : 'Változat lejátszása.');
+  }, [auditionTakes, stopAllAudio, initializeAudioContext, playAudioBuffer]);
+
+  const handleUpdateAuditionTake = useCallback((id: string, changes: Partial<Pick<AuditionTake, 'rating' | 'favorite'>>) => {
+    setAuditionTakes(prev => prev.map(take => (take.id === id ? { ...take, ...changes } : take)));
+  }, []);
+
+  const handlePinAuditionTake = useCallback((id: string, character: string | null) => {
+    const take = auditionTakes.find(candidate => candidate.id === id);
+    if (!take) return;
+    if (character === null) {
+      setSelectedVoice(take.voice);
+      setStatusMessage(`A narrátor hangja mostantól: ${take.voice}.`);
+    } else {
+      handleCastChange(book.cast.map(member => (member.character === character ? { ...member, voice: take.voice } : member)));
+      setStatusMessage(`${character} hangja mostantól: ${take.voice}.`);
+    }
+  }, [auditionTakes, setSelectedVoice, handleCastChange, book.cast]);
+
+  // Runs a persisted generation job and mirrors its progress into the project.
+  // Failed segments are recorded and skipped; the job stays resumable until every segment is done.
+  const runSynthesisJob = useCallback(async (
+    job: GenerationJob,
+    segments: Segment[],
+    onlyFailed: boolean = false,
+    onSegmentReady?: (segment: Segment, buffer: AudioBuffer) => void,
+  ) => {
+    const { audioContext } = initializeAudioContext();
+    const generatedBuffers = new Map<string, AudioBuffer>();
+    const errorKinds = new Set<ApiErrorKind>();
+    const abortController = new AbortController();
+    generationAbortControllerRef.current = abortController;
+    const finishedJob = await runGenerationJob(job, new Map(segments.map(segment => [segment.id, segment])), audioContext, {
+      onSegmentStart: (segment, progress) => {
+        setSynthesisProgress(progress);
+        setStatusMessage(`Szegmens generálása: ${progress.completed + 1}/${progress.total}...`);
+        setBook(prev => updateSegment(prev, segment.id, { status: 'generating', error: undefined }));
+      },
+      onSegmentComplete: (segment, buffer, progress) => {
+        const audioRef = createId('audio');
+        segmentAudioRef.current.set(audioRef, buffer);
+        generatedBuffers.set(segment.id, buffer);
+        setSynthesisProgress(progress);
+        setBook(prev => updateSegment(prev, segment.id, { status: 'done', audioRef, duration: buffer.duration, error: undefined }));
+        onSegmentReady?.(segment, buffer);
+      },
+      onSegmentError: (segment, err, progress) => {
+        console.error(`A(z) ${segment.id} szegmens generálása nem sikerült (${err.kind})`, err);
+        errorKinds.add(err.kind);
+        setSynthesisProgress(progress);
+        setBook(prev => updateSegment(prev, segment.id, { status: 'error', error: `${API_ERROR_GUIDANCE[err.kind]} (${err.message})` }));
+      },
+      onSegmentCancelled: (segment) => {
+        setBook(prev => updateSegment(prev, segment.id, { status: 'pending' }));
+      },
+    }, {
+      onlyFailed,
+      provider: ttsProvider,
+      textPreparation: getTextPreparationSettings(book),
+      concurrency: synthesisSettings.concurrency,
+      requestsPerMinute: synthesisSettings.requestsPerMinute,
+      signal: abortController.signal,
+    }).finally(() => {
+      if (generationAbortControllerRef.current === abortController) {
+        generationAbortControllerRef.current = null;
+      }
+    });
+
+    if (finishedJob.status === 'completed') {
+      await deleteGenerationJob(finishedJob.id);
+      setUnfinishedJob(null);
+    } else if (abortController.signal.aborted) {
+      setUnfinishedJob(finishedJob);
+      const doneCount = finishedJob.segments.filter(entry => entry.status === 'done').length;
+      setStatusMessage(`Generálás megszakítva. ${doneCount}/${finishedJob.segments.length} szegmens elkészült és megmaradt; a generálás később folytatható.`);
+    } else {
+      setUnfinishedJob(finishedJob);
+      const failedCount = finishedJob.segments.filter(entry => entry.status === 'error').length;
+      setStatusMessage('');
+      const guidance = [...errorKinds].map(kind => API_ERROR_GUIDANCE[kind]).join(' ');
+      setError(`${failedCount} szegmens generálása nem sikerült. ${guidance} A kész szegmensek megmaradtak; a generálás folytatható vagy csak a hibás szegmensek próbálhatók újra.`);
+    }
+    return { job: finishedJob, generatedBuffers };
+  }, [initializeAudioContext, book, ttsProvider, synthesisSettings]);
+
+  const handleCancelGeneration = useCallback(() => {
+    generationAbortControllerRef.current?.abort();
+    setStatusMessage('Generálás megszakítása...');
+  }, []);
+
+  const handleResumeGenerationJob = useCallback(async (onlyFailed: boolean) => {
+    if (!unfinishedJob) return;
+    setError(null);
+    setIsLoading(true);
+    setIsAudiobookGenerating(true);
+    setStatusMessage(onlyFailed ? 'Hibás szegmensek újrapróbálása...' : 'Hanggenerálás folytatása...');
+    try {
+      const { job: finishedJob } = await runSynthesisJob(unfinishedJob, book.chapters.flatMap(chapter => chapter.segments), onlyFailed);
+      if (finishedJob.status === 'completed') {
+        setStatusMessage('Minden szegmens elkészült. A hangoskönyv lejátszható és letölthető.');
+      }
+    } catch (err) {
+      handleApiError('Nem sikerült folytatni a hanggenerálást', err);
+    } finally {
+      setIsLoading(false);
+      setIsAudiobookGenerating(false);
+      setSynthesisProgress(null);
+    }
+  }, [unfinishedJob, book.chapters, runSynthesisJob, handleApiError]);
+
+  const handleDiscardGenerationJob = useCallback(async () => {
+    if (!unfinishedJob) return;
+    try {
+      await deleteGenerationJob(unfinishedJob.id);
+    } catch (err) {
+      console.warn('Nem sikerült törölni a generálási feladatot', err);
+    }
+    setUnfinishedJob(null);
+    setStatusMessage('Befejezetlen generálás elvetve. A kész szegmensek megmaradtak.');
+  }, [unfinishedJob]);
+
+  // Segment retakes: one segment is regenerated and spliced back without re-rendering the rest
+  const retakeSegmentIndex = activeChapter.segments.findIndex(segment => segment.id === retakeSegmentId);
+  const retakeSegment = retakeSegmentIndex >= 0 ? activeChapter.segments[retakeSegmentIndex] : null;
+
+  const handlePickSegmentAtCursor = useCallback(() => {
+    if (activeChapter.segments.length === 0) {
+      setError('A fejezet még nincs szegmensekre bontva. Előbb indítsa el a felolvasást.');
+      return;
+    }
+    const segment = findSegmentAtOffset(activeChapter, editorCursorRef.current, book.cast);
+    if (!segment) {
+      setError('A kurzor helyén nem található felolvasható szegmens.');
       return;
     }
+    setError(null);
+    setSegmentTake(null);
+    setRetakeSegmentId(segment.id);
+  }, [activeChapter, book.cast]);
+
+  const handleStepRetakeSegment = useCallback((direction: -1 | 1) => {
+    const next = activeChapter.segments[retakeSegmentIndex + direction];
+    if (next) {
+      setSegmentTake(null);
+      setRetakeSegmentId(next.id);
+    }
+  }, [activeChapter.segments, retakeSegmentIndex]);
 
-    // FIX: Client-side check for max text length
-    if (textInput.length > MAX_TTS_TEXT_LENGTH_CHARS) {
-        setError(`A szöveg túl hosszú (${textInput.length} karakter). A maximális engedélyezett hossz ${MAX_TTS_TEXT_LENGTH_CHARS} karakter. Kérjük, rövidítse a szöveget.`);
-        setIsLoading(false); // Ensure loading is off
-        setIsAudiobookGenerating(false);
-        return;
+  const handleCloseRetake = useCallback(() => {
+    setSegmentTake(null);
+    setRetakeSegmentId(null);
+  }, []);
+
+  const handleGenerateSegmentTake = useCallback(async (voice: string, style: string) => {
+    if (!retakeSegment) return;
+    setError(null);
+    setIsLoading(true);
+    setStatusMessage('A szegmens új változatának generálása...');
+    try {
+      const { audioContext } = initializeAudioContext();
+      const buffer = await synthesizeSegment(
+        ttsProvider,
+        { ...retakeSegment, voice, style: style || undefined },
+        audioContext,
+        getTextPreparationSettings(book),
+      );
+      setSegmentTake({ segmentId: retakeSegment.id, voice, style, buffer });
+      setStatusMessage('Az új változat elkészült. Hallgassa meg, és hasonlítsa össze a jelenlegivel.');
+    } catch (err) {
+      handleApiError('Nem sikerült újragenerálni a szegmenst', err);
+    } finally {
+      setIsLoading(false);
     }
+  }, [retakeSegment, initializeAudioContext, ttsProvider, book, handleApiError]);
 
+  const handleAuditionSegment = useCallback((which: 'current' | 'take') => {
+    const buffer = which === 'take'
+      ? segmentTake?.buffer
+      : retakeSegment?.audioRef ? segmentAudioRef.current.get(retakeSegment.audioRef) : undefined;
+    if (!buffer) return;
+    stopAllAudio();
+    setIsAudiobookPlaying(false);
+    playAudioBuffer(buffer);
+  }, [segmentTake, retakeSegment, stopAllAudio, playAudioBuffer]);
+
+  const handleAcceptSegmentTake = useCallback(() => {
+    if (!segmentTake || !retakeSegment || segmentTake.segmentId !== retakeSegment.id) return;
+    const audioRef = createId('audio');
+    segmentAudioRef.current.set(audioRef, segmentTake.buffer);
+    const patch: Partial<Segment> = {
+      voice: segmentTake.voice,
+      voiceOverride: segmentTake.voice !== retakeSegment.voice ? segmentTake.voice : retakeSegment.voiceOverride,
+      style: segmentTake.style || undefined,
+      status: 'done',
+      audioRef,
+      duration: segmentTake.buffer.duration,
+      error: undefined,
+    };
+    setBook(prev => updateSegment(prev, retakeSegment.id, patch));
+    saveSegmentAudio({ ...retakeSegment, ...patch }, segmentTake.buffer)
+      .catch(err => console.warn('Nem sikerült elmenteni a szegmens új változatát:', err));
+    // The loaded audiobook timeline picks up the take once the book state holds it
+    if (audiobookPcmBuffersRef.current.length > 0) timelineRefreshPendingRef.current = true;
+    setSegmentTake(null);
+    setStatusMessage('Az új változat a hangoskönyvbe került.');
+  }, [segmentTake, retakeSegment]);
+
+  // Splice an accepted take into the loaded audiobook timeline and re-time the karaoke
+  useEffect(() => {
+    if (!timelineRefreshPendingRef.current) return;
+    timelineRefreshPendingRef.current = false;
+    const buffers = getChapterBuffers(scopeChapters);
+    if (!buffers) return;
+    audiobookPcmBuffersRef.current = buffers;
+    const totalDuration = buffers.reduce((acc, buffer) => acc + buffer.duration, 0);
+    const scopeText = scopeChapters.map(chapter => chapter.text).join('\n\n');
+    setAudiobookLinesWithTiming(segmentTextForKaraoke(stripSpeakerMarkup(scopeText, book.cast), totalDuration));
+  }, [book, scopeChapters, getChapterBuffers]);
+
+  const handleReadAloud = async () => {
+    const scopeText = scopeChapters.map(chapter => chapter.text).join('\n\n');
+    if (!scopeText.trim()) {
+      setError('Kérjük, adjon meg szöveget a felolvasáshoz.');
+      return;
+    }
 
     stopAllAudioSources();
 
@@ -527,6 +1161,9 @@ const App: React.FC = () => {
       setError(null);
       setStatusMessage('Hangoskönyv lejátszás folytatása...');
       stopAllAudio();
+      // Replayed back to back, without the waits a progressive first playback may have had
+      const totalDuration = audiobookPcmBuffersRef.current.reduce((acc, buffer) => acc + buffer.duration, 0);
+      setAudiobookLinesWithTiming(segmentTextForKaraoke(stripSpeakerMarkup(scopeText, book.cast), totalDuration));
       audiobookPcmBuffersRef.current.forEach(buffer => playAudioBuffer(buffer, true));
       setIsAudiobookPlaying(true);
       setIsAudiobookPlaybackPaused(false);
@@ -558,34 +1195,66 @@ const App: React.FC = () => {
     previousLoadedAudiobookImageRef.current = null;
 
     try {
-      const { audioContext } = initializeAudioContext();
-      setStatusMessage('Hanggenerálás API hívása...'); // FIX: Detailed status messages
-      const audioBuffers = await generateTextToSpeech(textInput, selectedVoice, audioContext);
-      
-      setStatusMessage('Audió adatok fogadása...'); // FIX: Detailed status messages
-      if (audioBuffers.length > 0) {
-        audiobookPcmBuffersRef.current = audioBuffers;
-        
-        // Calculate total duration for karaoke segmentation
-        const totalAudiobookDuration = audioBuffers.reduce((acc, buffer) => acc + buffer.duration, 0);
-        const segmentedLines = segmentTextForKaraoke(textInput, totalAudiobookDuration);
-        setAudiobookLinesWithTiming(segmentedLines);
+      const chapterIds = scopeChapters.map(chapter => chapter.id);
+      const preparedBook = prepareChapterSegments(applyVoicesToSegments(book, selectedVoice), chapterIds, selectedVoice);
+      setBook(preparedBook);
+      const scopeEntries = preparedBook.chapters
+        .filter(chapter => chapterIds.includes(chapter.id))
+        .flatMap(chapter => chapter.segments.map(segment => ({ segment, chapterId: chapter.id })));
+      const scopeSegments = scopeEntries.map(entry => entry.segment);
+      // Segments that already have audio from an earlier run are reused
+      const pendingEntries = scopeEntries.filter(({ segment }) => !segment.audioRef || !segmentAudioRef.current.has(segment.audioRef));
+
+      // Progressive playback: segments are scheduled in manuscript order as soon as their audio
+      // exists, so listening starts with the first segment instead of after the whole scope
+      const generatedBuffers = new Map<string, AudioBuffer>();
+      let nextSegmentToPlay = 0;
+      let playbackChain: Promise<void> = Promise.resolve();
+      const scheduleReadySegments = () => {
+        while (nextSegmentToPlay < scopeSegments.length) {
+          const segment = scopeSegments[nextSegmentToPlay];
+          const buffer = generatedBuffers.get(segment.id) ?? (segment.audioRef ? segmentAudioRef.current.get(segment.audioRef) : undefined);
+          if (!buffer) break;
+          const startsTimeline = nextSegmentToPlay === 0;
+          nextSegmentToPlay++;
+          playbackChain = playbackChain.then(async () => {
+            const startTime = await playAudioBuffer(buffer, true, startsTimeline);
+            audiobookPcmBuffersRef.current = [...audiobookPcmBuffersRef.current, buffer];
+            // Timed from the actual start, so a wait for a slow segment does not shift the captions
+            const lines = segmentKaraokeLines(stripNarrationMarkup(segment.text), startTime - audiobookScrollStartTimeRef.current, buffer.duration);
+            setAudiobookLinesWithTiming(prev => (startsTimeline ? lines : [...prev, ...lines]));
+            if (startsTimeline) {
+              setIsAudiobookPlaybackPaused(false);
+              setStatusMessage(pendingEntries.length > 0 ? 'Lejátszás a generálás közben...' : 'Hangoskönyv lejátszása...');
+            }
+          });
+        }
+      };
 
-        setStatusMessage('Lejátszáshoz való előkészítés...'); // FIX: Detailed status messages
-        audioBuffers.forEach(buffer => playAudioBuffer(buffer, true));
-        setStatusMessage('Hangoskönyv lejátszása...');
-        setIsAudiobookPlaying(true);
-        setIsAudiobookPlaybackPaused(false);
-        audiobookScrollStartTimeRef.current = audioContextRef.current!.currentTime;
-        lastSceneChangeTimestampRef.current = audioContextRef.current!.currentTime;
-        setCurrentAudiobookSceneIndex(0);
-        setCurrentHighlightedLineIndex(0);
-        setCurrentHighlightedWordIndex(0);
-        if (audiobookSceneImageUrls[0]) {
-          const img = new Image();
-          img.src = audiobookSceneImageUrls[0];
-          currentLoadedAudiobookImageRef.current = img;
+      audiobookStreamingRef.current = pendingEntries.length > 0;
+      scheduleReadySegments();
+      if (pendingEntries.length > 0) {
+        setStatusMessage('Hanggenerálás API hívása...'); // FIX: Detailed status messages
+        const job = await createGenerationJob(preparedBook.id, pendingEntries);
+        try {
+          const result = await runSynthesisJob(job, pendingEntries.map(entry => entry.segment), false, (segment, buffer) => {
+            generatedBuffers.set(segment.id, buffer);
+            scheduleReadySegments();
+          });
+          if (result.job.status !== 'completed') {
+            return;
+          }
+        } finally {
+          audiobookStreamingRef.current = false;
+          await playbackChain;
+          // Playback may have caught up with generation; nothing else is coming to end it
+          if (sourceNodesRef.current.size === 0) resetAudiobookPlaybackState();
         }
+      }
+      await playbackChain;
+
+      if (nextSegmentToPlay > 0) {
+        setStatusMessage('Hangoskönyv lejátszása...');
       } else {
         setStatusMessage('Nem sikerült hangot generálni. Kérjük, próbálja újra.');
         setIsAudiobookPlaying(false);
@@ -595,69 +1264,114 @@ const App: React.FC = () => {
     } finally {
       setIsLoading(false);
       setIsAudiobookGenerating(false);
+      setSynthesisProgress(null);
     }
   };
 
-  const handleDownloadMp3 = async () => {
-    if (audiobookPcmBuffersRef.current.length === 0) {
-      setError('Nincs még generált hang letöltésre.');
+  // Exports start with the metadata dialog; confirming it runs the export with the edited tags
+  const handleOpenExportDialog = async (format: ExportFormat) => {
+    const chapter = audiobookScope === 'chapter' ? activeChapter : null;
+    const narratorVoice = ttsProvider.listVoices().find(voice => voice.value === selectedVoice)?.name ?? selectedVoice;
+    const notice = (await getExportFormat(format).getNotice?.(OUTPUT_AUDIO_SAMPLE_RATE)) ?? null;
+    setExportDialog({
+      format,
+      // The first scene image is the cover when the manuscript came from an EPUB
+      metadata: createDefaultExportMetadata(book, chapter, `${narratorVoice} (${ttsProvider.name})`, audiobookSceneImages?.[0] ?? null),
+      notice,
+    });
+  };
+
+  const handleConfirmExport = (metadata: AudiobookExportMetadata) => {
+    const format = exportDialog?.format;
+    setExportDialog(null);
+    if (format) handleExport(format, metadata);
+  };
+
+  const handleExportFormatChange = (id: ExportFormat) => {
+    setExportFormatId(id);
+    saveExportFormatId(id);
+  };
+
+  // Encodes in a worker and streams into a file picked through the File System Access API where
+  // available; otherwise the file is assembled in memory and downloaded
+  const handleExport = async (formatId: ExportFormat, metadata: AudiobookExportMetadata) => {
+    const exportChapters = getExportChapters(scopeChapters);
+    if (!exportChapters) {
+      setError('Nincs még generált hang letöltésre (vagy nem készült el minden szegmens).');
       return;
     }
-    if (!isLamejsLoaded) {
-      setError('A lamejs könyvtár még nem töltődött be. Az MP3 exportálás nem elérhető.');
-      return;
+    const format = getExportFormat(formatId);
+    const fileName = getExportFileName(book, audiobookScope === 'chapter' ? activeChapter : null, format.extension);
+
+    // The picker needs the confirming click's user activation, so it opens before anything else is awaited
+    let fileHandle: FileSystemFileHandle | null = null;
+    if ('showSaveFilePicker' in globalThis) {
+      try {
+        fileHandle = await globalThis.showSaveFilePicker({
+          suggestedName: fileName,
+          types: [{ description: format.description, accept: { [format.mimeType]: [`.${format.extension}`] } }],
+        });
+      } catch (err) {
+        if (!isAbortError(err)) handleApiError(`Nem sikerült menteni a(z) ${format.label} fájlt`, err);
+        return;
+      }
     }
 
+    const abortController = new AbortController();
+    exportAbortControllerRef.current = abortController;
     setIsLoading(true);
-    setStatusMessage('MP3 kódolása...');
+    setExportProgress({ label: format.label, fraction: 0 });
+    setStatusMessage(`${format.label} kódolása...`);
+    let writable: FileSystemWritableFileStream | null = null;
     try {
       stopAllAudio();
       setIsAudiobookPlaying(false);
       setIsAudiobookPlaybackPaused(false);
 
-      const mp3Blob = await encodePCMToMP3(audiobookPcmBuffersRef.current);
-      
-      if (mp3Blob.size === 0) {
-        throw new Error('A generált MP3 fájl üres. A kódolás sikertelen lehet.');
-      }
-
-      if ('showSaveFilePicker' in globalThis) {
-        try {
-          const fileHandle = await globalThis.showSaveFilePicker({
-            suggestedName: 'audiobook.mp3',
-            types: [{
-              description: 'MP3 Audio',
-              accept: { 'audio/mpeg': ['.mp3'] },
-            }],
-          });
-
-          const writableStream = await fileHandle.createWritable();
-          // FIX: mp3Blob is already typed as Blob, no need for redundant cast.
-          await writableStream.write(mp3Blob); 
-          await writableStream.close();
-          setStatusMessage('MP3 sikeresen mentve!');
-        } catch (err) {
-          handleApiError('Nem sikerült menteni az MP3-at', err);
-        }
+      const options = {
+        onProgress: (fraction: number) => setExportProgress({ label: format.label, fraction }),
+        signal: abortController.signal,
+      };
+      if (fileHandle) {
+        writable = await fileHandle.createWritable();
+        await exportAudiobook(format, exportChapters, metadata, createFileSink(writable), options);
+        await writable.close();
+        setStatusMessage(`${format.label} sikeresen mentve!`);
       } else {
-        const url: string = globalThis.URL.createObjectURL(mp3Blob);
+        const sink = createMemorySink();
+        await exportAudiobook(format, exportChapters, metadata, sink, options);
+        const url: string = globalThis.URL.createObjectURL(sink.toBlob(format.mimeType));
         const a = document.createElement('a');
         a.href = url;
-        a.download = 'audiobook.mp3';
+        a.download = fileName;
         globalThis.document.body.appendChild(a);
         a.click();
         globalThis.document.body.removeChild(a);
         globalThis.URL.revokeObjectURL(url);
-        setStatusMessage('MP3 sikeresen letöltve az alapértelmezett letöltési mappába!');
+        setStatusMessage(`${format.label} sikeresen letöltve az alapértelmezett letöltési mappába!`);
       }
-
     } catch (err) {
-      handleApiError('Nem sikerült kódolni vagy letölteni az MP3-at', err);
+      // Aborting the stream discards the partial file instead of leaving a truncated one behind
+      await writable?.abort().catch(abortErr => console.warn('Could not discard the partial export file:', abortErr));
+      if (isAbortError(err)) {
+        setStatusMessage('Exportálás megszakítva.');
+      } else {
+        handleApiError(`Nem sikerült kódolni vagy menteni: ${format.label}`, err);
+      }
     } finally {
+      if (exportAbortControllerRef.current === abortController) {
+        exportAbortControllerRef.current = null;
+      }
       setIsLoading(false);
+      setExportProgress(null);
     }
   };
 
+  const handleCancelExport = useCallback(() => {
+    exportAbortControllerRef.current?.abort();
+    setStatusMessage('Exportálás megszakítása...');
+  }, []);
+
   const handleClearText = useCallback(() => {
     setTextInput('');
     stopAllAudio();
@@ -680,7 +1394,7 @@ const App: React.FC = () => {
     setAudiobookLinesWithTiming([]); // Clear karaoke segments
     setCurrentHighlightedLineIndex(-1);
     setCurrentHighlightedWordIndex(-1);
-  }, [stopAllAudio, audiobookSceneImageUrls]);
+  }, [stopAllAudio, audiobookSceneImageUrls, setTextInput]);
 
 
   const handleClearConversationHistory = useCallback(() => {
@@ -765,6 +1479,8 @@ const App: React.FC = () => {
     try {
       await checkAndSelectApiKey();
       const { audioContext } = initializeAudioContext();
+      const abortController = new AbortController();
+      liveAbortControllerRef.current = abortController;
 
       const sessionPromise = connectLiveSession({
         onAudioChunk: (buffer) => {
@@ -790,7 +1506,7 @@ const App: React.FC = () => {
           console.log('Live munkamenet lezárva:', e);
           stopLiveConversation();
         },
-      }, isTranscriptionEnabled, audioContext);
+      }, isTranscriptionEnabled, audioContext, abortController.signal);
 
       liveSessionPromiseRef.current = sessionPromise;
       const session = await sessionPromise;
@@ -809,6 +1525,9 @@ const App: React.FC = () => {
   }, [handleApiError, startMicrophoneStream, playAudioBuffer, initializeAudioContext, isTranscriptionEnabled, stopAllAudioSources]);
 
   const stopLiveConversation = useCallback(() => {
+    // Also cancels a connection that is still being established
+    liveAbortControllerRef.current?.abort();
+    liveAbortControllerRef.current = null;
     stopAllAudio();
     setIsAudiobookPlaying(false);
     stopMicrophoneStream();
@@ -1229,21 +1948,22 @@ const App: React.FC = () => {
 
 
   // Audiobook Scene Visualizer Functions
+  const loadAudiobookSceneImages = useCallback((files: File[]) => {
+    audiobookSceneImageUrls.filter(url => url.startsWith('blob:') || url.startsWith('https://picsum.photos')).forEach(url => globalThis.URL.revokeObjectURL(url));
+
+    setAudiobookSceneImages(files);
+    setAudiobookSceneImageUrls(files.map(file => globalThis.URL.createObjectURL(file)));
+    setCurrentAudiobookSceneIndex(0);
+    currentLoadedAudiobookImageRef.current = null;
+    previousLoadedAudiobookImageRef.current = null;
+    audiobookFadeStateRef.current = null;
+  }, [audiobookSceneImageUrls]);
+
   const handleAudiobookSceneImagesChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (files && files.length > 0) {
-      audiobookSceneImageUrls.filter(url => url.startsWith('blob:') || url.startsWith('https://picsum.photos')).forEach(url => globalThis.URL.revokeObjectURL(url));
-
       const newImageFiles = Array.from(files);
-      const newImageUrls = newImageFiles.map(file => globalThis.URL.createObjectURL(file));
-      
-      setAudiobookSceneImages(newImageFiles);
-      setAudiobookSceneImageUrls(newImageUrls);
-      setCurrentAudiobookSceneIndex(0);
-      currentLoadedAudiobookImageRef.current = null;
-      previousLoadedAudiobookImageRef.current = null;
-      audiobookFadeStateRef.current = null;
-
+      loadAudiobookSceneImages(newImageFiles);
       setStatusMessage(`${newImageFiles.length} kép(ek) betöltve.`);
       setError(null);
     } else {
@@ -1258,7 +1978,40 @@ const App: React.FC = () => {
       audiobookFadeStateRef.current = null;
       setStatusMessage('Nincs kiválasztott jelenetkép.');
     }
-  }, [audiobookSceneImageUrls]);
+  }, [audiobookSceneImageUrls, loadAudiobookSceneImages]);
+
+  // Imported chapters replace an empty project (taking over its title and author), otherwise they are appended
+  const handleImportManuscript = useCallback(async (file: File, includeImages: boolean) => {
+    setError(null);
+    setIsLoading(true);
+    setStatusMessage(`Kézirat importálása: ${file.name}...`);
+    try {
+      const manuscript = await importManuscriptFile(file, { settings: markupImportSettings, language: book.normalization.language });
+      if (manuscript.chapters.length === 0) {
+        throw new Error('A fájlban nem található felolvasható szöveg.');
+      }
+      const chapters = manuscript.chapters.map(chapter => createChapter(chapter.title, chapter.text));
+      setBook(prev => prev.chapters.every(chapter => !chapter.text.trim())
+        ? { ...prev, title: manuscript.title || prev.title, author: manuscript.author || prev.author, chapters }
+        : { ...prev, chapters: [...prev.chapters, ...chapters] });
+      setActiveChapterId(chapters[0].id);
+      setSkippedPassages(manuscript.skipped.map(({ chapterIndex, ...passage }) => ({
+        ...passage,
+        chapterId: chapters[chapterIndex].id,
+        chapterTitle: chapters[chapterIndex].title,
+      })));
+
+      const withImages = includeImages && manuscript.images.length > 0;
+      if (withImages) loadAudiobookSceneImages(manuscript.images);
+      const skippedNote = manuscript.skipped.length > 0 ? `, ${manuscript.skipped.length} jegyzet/megjegyzés kihagyva` : '';
+      setStatusMessage(`${chapters.length} fejezet importálva${withImages ? `, ${manuscript.images.length} jelenetkép betöltve` : ''}${skippedNote}.`);
+    } catch (err) {
+      setError(`Nem sikerült importálni a kéziratot: ${err instanceof Error ? err.message : String(err)}`);
+      setStatusMessage('');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [loadAudiobookSceneImages, markupImportSettings, book.normalization.language]);
 
   const handleClearAudiobookScenes = useCallback(() => {
     audiobookSceneImageUrls.filter(url => url.startsWith('blob:') || url.startsWith('https://picsum.photos')).forEach(url => globalThis.URL.revokeObjectURL(url));
@@ -1750,23 +2503,111 @@ const App: React.FC = () => {
     }
   }, [isLiveSessionActive, isPlayingVideo, isAudiobookPlaying, isPlayingBackgroundMusic, isLoading, drawMainVisualizer]);
 
-  // FIX: useEffect to handle lamejs loading detection
+  // Save the audiobook project (debounced, text edits change it on every keystroke). A save still
+  // pending when the page is closed is done right away, so job checkpoints are not lost.
+  useEffect(() => {
+    const save = () => {
+      globalThis.removeEventListener('pagehide', save);
+      saveBookToStorage(book);
+    };
+    const timeoutId = globalThis.setTimeout(save, 1000);
+    globalThis.addEventListener('pagehide', save);
+    return () => {
+      globalThis.clearTimeout(timeoutId);
+      globalThis.removeEventListener('pagehide', save);
+    };
+  }, [book]);
+
+  // Restore segment audio persisted by earlier sessions and offer to resume an unfinished job
   useEffect(() => {
-    let intervalId: number | undefined;
-    if (!isLamejsLoaded) {
-      intervalId = globalThis.setInterval(() => {
-        if (typeof globalThis.Lame !== 'undefined') {
-          console.log("lamejs successfully loaded!");
-          setIsLamejsLoaded(true);
-          if (intervalId) globalThis.clearInterval(intervalId);
+    let cancelled = false;
+    const restorePersistedGeneration = async () => {
+      try {
+        const [restoredBuffers, jobs] = await Promise.all([
+          loadPersistedSegmentAudio(book.chapters.flatMap(chapter => chapter.segments)),
+          listUnfinishedGenerationJobs(book.id),
+        ]);
+        if (cancelled) return;
+
+        // Only the newest unfinished job is offered; older ones are superseded by it
+        const [latestJob, ...staleJobs] = jobs;
+        staleJobs.forEach(job => deleteGenerationJob(job.id).catch(err => console.warn('Nem sikerült törölni a régi generálási feladatot', err)));
+        const failedSegments = new Map(
+          (latestJob?.segments ?? []).filter(entry => entry.status === 'error').map(entry => [entry.segmentId, entry.error])
+        );
+        const audioRefs = new Map<string, string>();
+        restoredBuffers.forEach((buffer, segmentId) => {
+          const audioRef = createId('audio');
+          segmentAudioRef.current.set(audioRef, buffer);
+          audioRefs.set(segmentId, audioRef);
+        });
+
+        setBook(prev => ({
+          ...prev,
+          chapters: prev.chapters.map(chapter => ({
+            ...chapter,
+            segments: chapter.segments.map(segment => {
+              const buffer = restoredBuffers.get(segment.id);
+              if (buffer) {
+                return { ...segment, status: 'done', audioRef: audioRefs.get(segment.id), duration: buffer.duration };
+              }
+              if (failedSegments.has(segment.id)) {
+                return { ...segment, status: 'error', error: failedSegments.get(segment.id) };
+              }
+              return segment;
+            }),
+          })),
+        }));
+        if (latestJob && latestJob.segments.some(entry => entry.status !== 'done' && !restoredBuffers.has(entry.segmentId))) {
+          setUnfinishedJob(latestJob);
+        } else if (latestJob) {
+          await deleteGenerationJob(latestJob.id);
         }
-      }, 500); // Check every 500ms
+      } catch (err) {
+        console.warn('Nem sikerült visszaállítani a mentett hangot az IndexedDB-ből', err);
+      }
+    };
+    restorePersistedGeneration();
+    return () => { cancelled = true; };
+    // Runs once for the project loaded from localStorage
+  }, []);
+
+  // Drop persisted audio and jobs of segments that no longer exist (debounced like the project save)
+  useEffect(() => {
+    if (isAudiobookGenerating) return;
+    const segmentIds = new Set<string>(book.chapters.flatMap(chapter => chapter.segments.map(segment => segment.id)));
+    setUnfinishedJob(prev => {
+      if (!prev) return prev;
+      const segments = prev.segments.filter(entry => segmentIds.has(entry.segmentId));
+      if (segments.length === prev.segments.length) return prev;
+      return segments.length > 0 ? { ...prev, segments } : null;
+    });
+    const timeoutId = globalThis.setTimeout(() => {
+      prunePersistedGenerationData(segmentIds).catch(err => console.warn('Nem sikerült takarítani az IndexedDB-t', err));
+    }, 1000);
+    return () => globalThis.clearTimeout(timeoutId);
+  }, [book, isAudiobookGenerating]);
+
+  // Drop generated audio that no segment references anymore (edited or deleted chapters)
+  useEffect(() => {
+    if (isAudiobookGenerating) return;
+    const referenced = new Set(book.chapters.flatMap(chapter => chapter.segments.map(segment => segment.audioRef)));
+    for (const audioRef of segmentAudioRef.current.keys()) {
+      if (!referenced.has(audioRef)) {
+        segmentAudioRef.current.delete(audioRef);
+      }
     }
+  }, [book, isAudiobookGenerating]);
 
-    return () => {
-      if (intervalId) globalThis.clearInterval(intervalId);
-    };
-  }, [isLamejsLoaded]);
+  // Formats the browser cannot encode (no WebCodecs codec) stay disabled in the picker
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(EXPORT_FORMATS.map(async format => ((await format.resolveSampleRate(OUTPUT_AUDIO_SAMPLE_RATE)) !== null ? format.id : null)))
+      .then(ids => {
+        if (!cancelled) setAvailableExportFormats(ids.filter((id): id is ExportFormat => id !== null));
+      });
+    return () => { cancelled = true; };
+  }, []);
 
 
   useEffect(() => {
@@ -1843,42 +2684,121 @@ const App: React.FC = () => {
           <h1 className="text-2xl font-extrabold text-gray-100 mb-4">Hangoskönyv Készítő</h1>
           
           <div className="mb-4">
-            <label htmlFor="tts-voice-select" className="block text-sm font-medium text-gray-300 mb-2">
-              Hang kiválasztása:
+            <label htmlFor="tts-provider-select" className="block text-sm font-medium text-gray-300 mb-2">
+              TTS szolgáltató:
             </label>
-            <div className="flex flex-wrap gap-2">
-              {TTS_VOICES.map((voice) => (
-                <div 
-                  key={voice.value} 
-                  className={`flex items-center bg-gray-700 rounded-lg pr-2 border border-gray-600 transition-all duration-200 hover:scale-[1.02] active:scale-100 cursor-pointer 
-                              ${selectedVoice === voice.value ? 'ring-2 ring-blue-500 shadow-lg scale-105' : ''}`}
-                  onClick={() => handlePreviewVoice(voice.value)}
-                >
-                  <span className="text-sm px-3 py-1 text-gray-100">{voice.name}</span>
-                  <input
-                    type="radio"
-                    id={`voice-${voice.value}`}
-                    name="ttsVoice"
-                    value={voice.value}
-                    checked={selectedVoice === voice.value}
-                    onChange={() => setSelectedVoice(voice.value)}
-                    className="hidden"
-                    disabled={isLoading || isAudiobookGenerating || isAudiobookPlaying}
-                  />
-                  <label htmlFor={`voice-${voice.value}`} className="cursor-pointer">
-                  <Button
-                    disabled={isLoading || isAudiobookGenerating || isAudiobookPlaying}
-                    variant="secondary"
-                    className="px-2 py-1 text-xs opacity-0 pointer-events-none absolute"
-                  >
-                    Minta
-                  </Button>
-                  </label>
-                </div>
+            <select
+              id="tts-provider-select"
+              value={ttsProviderId}
+              onChange={(e) => handleTtsProviderChange(e.target.value as TtsProviderId)}
+              className="w-full p-2 border border-gray-600 rounded-lg bg-gray-700 text-gray-100 text-sm"
+              disabled={isLoading || isAudiobookGenerating}
+            >
+              {TTS_PROVIDERS.map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.name}</option>
               ))}
+            </select>
+            <p className="text-xs text-gray-400 mt-1">{ttsProvider.description}</p>
+            <div className="flex gap-4 mt-2">
+              <label className="flex items-center gap-2 text-xs text-gray-300">
+                Párhuzamos kérések:
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_SYNTHESIS_CONCURRENCY}
+                  value={synthesisSettings.concurrency}
+                  onChange={(e) => handleSynthesisSettingsChange({
+                    concurrency: Math.min(MAX_SYNTHESIS_CONCURRENCY, Math.max(1, Math.round(Number(e.target.value)) || 1)),
+                  })}
+                  className="w-14 p-1 border border-gray-600 rounded bg-gray-700 text-gray-100"
+                  disabled={isLoading || isAudiobookGenerating}
+                />
+              </label>
+              <label className="flex items-center gap-2 text-xs text-gray-300">
+                Kérés/perc:
+                <input
+                  type="number"
+                  min={1}
+                  value={synthesisSettings.requestsPerMinute ?? ''}
+                  placeholder={ttsProvider.limits.requestsPerMinute ? String(ttsProvider.limits.requestsPerMinute) : 'korlátlan'}
+                  onChange={(e) => handleSynthesisSettingsChange({
+                    requestsPerMinute: Number(e.target.value) > 0 ? Number(e.target.value) : undefined,
+                  })}
+                  className="w-20 p-1 border border-gray-600 rounded bg-gray-700 text-gray-100"
+                  disabled={isLoading || isAudiobookGenerating}
+                />
+              </label>
             </div>
           </div>
 
+          <div className="mb-4">
+            <p className="block text-sm font-medium text-gray-300 mb-2">
+              Hang kiválasztása:
+            </p>
+            <VoiceSelector
+              voices={ttsProvider.listVoices()}
+              selectedVoice={selectedVoice}
+              favorites={favoriteVoices}
+              disabled={isLoading || isAudiobookGenerating || isAudiobookPlaying}
+              onSelect={(voice) => handlePreviewVoice(voice)}
+              onToggleFavorite={handleToggleFavoriteVoice}
+            />
+          </div>
+
+          <CastingPanel
+            voices={ttsProvider.listVoices()}
+            cast={book.cast}
+            narratorVoice={selectedVoice}
+            disabled={isLoading || isAudiobookGenerating}
+            onCastChange={handleCastChange}
+            onDetectSpeakers={handleDetectSpeakers}
+            onPreviewVoice={(voice) => handlePreviewVoice(voice, false)}
+          />
+
+          <VoiceAuditionPanel
+            voices={ttsProvider.listVoices()}
+            takes={auditionTakes}
+            cast={book.cast}
+            narratorVoice={selectedVoice}
+            chapterExcerpt={stripSpeakerMarkup(stripNarrationMarkup(activeChapter.text.slice(0, 2000)), book.cast)}
+            disabled={isLoading || isAudiobookGenerating}
+            onRender={handleRenderAuditionTakes}
+            onPlay={handlePlayAuditionTakes}
+            onStop={stopAllAudio}
+            onUpdateTake={handleUpdateAuditionTake}
+            onRemoveTake={(id) => setAuditionTakes(prev => prev.filter(take => take.id !== id))}
+            onClearTakes={() => setAuditionTakes([])}
+            onPin={handlePinAuditionTake}
+          />
+
+          <LexiconPanel
+            lexicon={book.lexicon}
+            disabled={isLoading || isAudiobookGenerating}
+            onLexiconChange={handleLexiconChange}
+            onTestPronunciation={(term) => handlePreviewVoice(selectedVoice, false, term)}
+            onError={setError}
+          />
+
+          <NormalizationPanel
+            normalization={book.normalization}
+            chapterExcerpt={stripSpeakerMarkup(stripNarrationMarkup(activeChapter.text.slice(0, 2000)), book.cast)}
+            disabled={isLoading || isAudiobookGenerating}
+            onNormalizationChange={handleNormalizationChange}
+          />
+
+          <DialogueReviewPanel
+            voices={ttsProvider.listVoices()}
+            analysis={dialogueAnalysis?.chapterId === activeChapter.id ? dialogueAnalysis : null}
+            cast={book.cast}
+            isAnalyzing={isAnalyzingDialogue}
+            disabled={isLoading || isAudiobookGenerating}
+            onAnalyze={handleAnalyzeDialogue}
+            onLineSpeakerChange={handleDialogueLineSpeakerChange}
+            onProposedVoiceChange={handleProposedVoiceChange}
+            onApply={handleApplyDialogueAnalysis}
+            onDiscard={() => setDialogueAnalysis(null)}
+          />
+
           <details className="mb-4 p-3 bg-gray-700 rounded-lg border border-gray-600 shadow-md" open>
             <summary className="text-gray-200 font-semibold cursor-pointer text-base">
               Jelenet beállítások (vizualizáció)
@@ -1941,24 +2861,105 @@ const App: React.FC = () => {
             </div>
           </details>
 
+          <ChapterPanel
+            book={book}
+            activeChapterId={activeChapter.id}
+            disabled={isLoading || isAudiobookGenerating}
+            onBookInfoChange={handleBookInfoChange}
+            onSelectChapter={handleSelectChapter}
+            onRenameChapter={handleRenameChapter}
+            onAddChapter={handleAddChapter}
+            onDeleteChapter={handleDeleteChapter}
+            onMoveChapter={handleMoveChapter}
+            onSplitActiveChapter={handleSplitActiveChapter}
+            onImportManuscript={handleImportManuscript}
+            markupImportSettings={markupImportSettings}
+            onMarkupImportSettingsChange={handleMarkupImportSettingsChange}
+          />
+
+          {skippedPassages.length > 0 && (
+            <SkippedPassagesPanel
+              passages={skippedPassages}
+              disabled={isLoading || isAudiobookGenerating}
+              onInsert={handleInsertSkippedPassage}
+              onRemove={(index) => setSkippedPassages(prev => prev.filter((_passage, i) => i !== index))}
+              onClear={() => setSkippedPassages([])}
+            />
+          )}
+
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Szöveg – {activeChapter.title || 'Névtelen fejezet'}
+          </label>
           <textarea
             className="w-full p-3 border border-gray-600 rounded-lg bg-gray-700 text-gray-100 focus:ring-blue-500 focus:border-blue-500 mb-4 shadow-sm resize-y min-h-[120px]"
             placeholder="Írja be ide a hangoskönyv szövegét..."
             value={textInput}
             onChange={(e) => setTextInput(e.target.value)}
+            onSelect={(e) => { editorCursorRef.current = e.currentTarget.selectionStart; }}
+            onBlur={reconcileEditedText}
             rows={5}
             disabled={isLoading || isAudiobookGenerating}
           ></textarea>
-          {textInput.length > MAX_TTS_TEXT_LENGTH_CHARS && (
-            <p className="text-xs text-red-300 mt-[-10px] mb-2">
-              A szöveg túl hosszú ({textInput.length} karakter). A maximális engedélyezett hossz ${MAX_TTS_TEXT_LENGTH_CHARS} karakter. Kérjük, rövidítse a szöveget.
+          {textInput.length > TTS_SEGMENT_MAX_CHARS && (
+            <p className="text-xs text-gray-400 mt-[-10px] mb-2">
+              Hosszú szöveg ({textInput.length} karakter): a felolvasás {splitTextIntoSegments(textInput).length} szegmensben készül el.
+            </p>
+          )}
+          {staleSegmentCount > 0 && !isAudiobookGenerating && (
+            <p className="text-xs text-yellow-300 mb-2">
+              {staleSegmentCount}/{activeChapter.segments.length} szegmensnek nincs friss hangja (módosult szöveg). Felolvasáskor csak ezek készülnek el újra.
             </p>
           )}
+          <p className="text-xs text-gray-500 mb-2">
+            Jelölések: <code className="text-gray-400">&lt;pause 2s/&gt;</code> szünet,{' '}
+            <code className="text-gray-400">&lt;style suttogva&gt;…&lt;/style&gt;</code> előadásmód,{' '}
+            <code className="text-gray-400">&lt;emphasis&gt;…&lt;/emphasis&gt;</code> hangsúly.
+          </p>
+          <Button
+            onClick={handlePickSegmentAtCursor}
+            variant="secondary"
+            className="px-2 py-1 text-xs mb-3"
+            disabled={isLoading || isAudiobookGenerating || activeChapter.segments.length === 0}
+            title="Csak a kurzor helyén álló mondat szegmensét generálja újra"
+          >
+            Szegmens újragenerálása a kurzornál
+          </Button>
+          {retakeSegment && (
+            <SegmentRetakePanel
+              segment={retakeSegment}
+              segmentNumber={retakeSegmentIndex + 1}
+              segmentCount={activeChapter.segments.length}
+              voices={ttsProvider.listVoices()}
+              take={segmentTake?.segmentId === retakeSegment.id ? segmentTake : null}
+              hasCurrentAudio={!!retakeSegment.audioRef && segmentAudioRef.current.has(retakeSegment.audioRef)}
+              disabled={isLoading || isAudiobookGenerating}
+              onStep={handleStepRetakeSegment}
+              onGenerateTake={handleGenerateSegmentTake}
+              onAudition={handleAuditionSegment}
+              onAcceptTake={handleAcceptSegmentTake}
+              onDiscardTake={() => setSegmentTake(null)}
+              onClose={handleCloseRetake}
+            />
+          )}
+
+          <div className="flex items-center gap-2 mb-3 text-sm">
+            <span className="text-gray-300">Hatókör:</span>
+            {([['chapter', 'Aktuális fejezet'], ['book', 'Teljes könyv']] as const).map(([scope, label]) => (
+              <button
+                key={scope}
+                onClick={() => setAudiobookScope(scope)}
+                disabled={isLoading || isAudiobookGenerating || isAudiobookPlaying}
+                className={`px-3 py-1 rounded-full border text-xs ${audiobookScope === scope ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
 
           <div className="flex flex-col sm:flex-row gap-3 mb-4">
             <Button
               onClick={handleReadAloud}
-              disabled={isLoading || isAudiobookGenerating || (!isAudiobookPlaybackPaused && !textInput.trim()) || textInput.length > MAX_TTS_TEXT_LENGTH_CHARS}
+              disabled={isLoading || isAudiobookGenerating || (!isAudiobookPlaybackPaused && !scopeChapters.some(chapter => chapter.text.trim()))}
               fullWidth
               className="flex items-center justify-center text-sm"
             >
@@ -1982,19 +2983,82 @@ const App: React.FC = () => {
                 </>
               ) : 'Felolvasás'}
             </Button>
-            <Button
-              onClick={handleDownloadMp3}
-              disabled={isLoading || isAudiobookGenerating || audiobookPcmBuffersRef.current.length === 0 || !isLamejsLoaded}
-              variant="secondary"
-              fullWidth
-              className="flex items-center justify-center text-sm"
-            >
-              MP3 letöltése
-            </Button>
+            <div className="flex flex-1 gap-2">
+              <select
+                aria-label="Exportálási formátum"
+                className="flex-1 min-w-0 p-2 border border-gray-600 rounded-lg bg-gray-700 text-gray-100 focus:ring-blue-500 focus:border-blue-500 shadow-sm text-sm"
+                value={exportFormatId}
+                onChange={(e) => handleExportFormatChange(e.target.value as ExportFormat)}
+                disabled={isLoading || isAudiobookGenerating}
+              >
+                {EXPORT_FORMATS.map(format => (
+                  <option key={format.id} value={format.id} disabled={!availableExportFormats.includes(format.id)}>
+                    {format.label}{availableExportFormats.includes(format.id) ? '' : ' (nem elérhető)'}
+                  </option>
+                ))}
+              </select>
+              <Button
+                onClick={() => handleOpenExportDialog(exportFormatId)}
+                disabled={isLoading || isAudiobookGenerating || !getChapterBuffers(scopeChapters) || !availableExportFormats.includes(exportFormatId)}
+                variant="secondary"
+                className="flex items-center justify-center text-sm"
+                title="Hangoskönyv fejezetjelölőkkel, címmel, szerzővel és borítóval"
+              >
+                Letöltés
+              </Button>
+            </div>
           </div>
+          {exportProgress && (
+            <div className="mb-4">
+              <div className="flex justify-between text-xs text-gray-400 mb-1">
+                <span>{exportProgress.label} kódolása</span>
+                <span>{Math.round(exportProgress.fraction * 100)}%</span>
+              </div>
+              <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-green-500 transition-all duration-300"
+                  style={{ width: `${exportProgress.fraction * 100}%` }}
+                ></div>
+              </div>
+              <Button onClick={handleCancelExport} variant="secondary" fullWidth className="text-sm mt-2">
+                Exportálás megszakítása
+              </Button>
+            </div>
+          )}
+          {unfinishedJob && (
+            <GenerationQueuePanel
+              job={unfinishedJob}
+              disabled={isLoading || isAudiobookGenerating}
+              onResume={() => handleResumeGenerationJob(false)}
+              onRetryFailed={() => handleResumeGenerationJob(true)}
+              onDiscard={handleDiscardGenerationJob}
+            />
+          )}
+          {synthesisProgress && (
+            <div className="mb-4">
+              <div className="flex justify-between text-xs text-gray-400 mb-1">
+                <span>Szegmensek</span>
+                <span>{synthesisProgress.completed}/{synthesisProgress.total}</span>
+              </div>
+              <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-all duration-300"
+                  style={{ width: `${(synthesisProgress.completed / globalThis.Math.max(synthesisProgress.total, 1)) * 100}%` }}
+                ></div>
+              </div>
+              {isAudiobookGenerating && (
+                <Button onClick={handleCancelGeneration} variant="secondary" fullWidth className="text-sm mt-2">
+                  Mégse (a kész szegmensek megmaradnak)
+                </Button>
+              )}
+            </div>
+          )}
           <Button onClick={handleClearText} variant="danger" fullWidth disabled={isLoading || isAudiobookGenerating} className="text-sm">
             Szöveg & Hang törlése
           </Button>
+          <div className="mt-4">
+            <AudioCachePanel disabled={isLoading || isAudiobookGenerating} />
+          </div>
         </div>
 
         {/* Video Visualizer & Export Section */}
@@ -2485,6 +3549,15 @@ const App: React.FC = () => {
           </>
         )}
       </div>
+      {exportDialog && (
+        <ExportMetadataDialog
+          formatLabel={getExportFormat(exportDialog.format).label}
+          metadata={exportDialog.metadata}
+          notice={exportDialog.notice}
+          onConfirm={handleConfirmExport}
+          onCancel={() => setExportDialog(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,128 @@
+// components/AudioCachePanel.tsx
+import React, { useCallback, useState } from 'react';
+import Button from './Button';
+import {
+  AudioCacheEntryInfo,
+  AudioCacheStats,
+  clearAudioCache,
+  deleteAudioCacheEntries,
+  getAudioCacheLimitMb,
+  getAudioCacheStats,
+  listAudioCacheEntries,
+  setAudioCacheLimitMb,
+} from '../services/audioCache';
+
+interface AudioCachePanelProps {
+  disabled?: boolean;
+}
+
+const MIN_LIMIT_MB = 10;
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Inspection of the TTS audio cache. Loads its data lazily, when the panel is opened.
+const AudioCachePanel: React.FC<AudioCachePanelProps> = ({ disabled = false }) => {
+  const [entries, setEntries] = useState<AudioCacheEntryInfo[]>([]);
+  const [stats, setStats] = useState<AudioCacheStats>(getAudioCacheStats());
+  const [limitInput, setLimitInput] = useState<string>(String(getAudioCacheLimitMb()));
+  const [cacheError, setCacheError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listAudioCacheEntries());
+      setStats(getAudioCacheStats());
+      setCacheError(null);
+    } catch (err) {
+      setCacheError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  // Applied on blur only: evicting while the user is still typing a number would drop entries
+  const handleLimitCommit = useCallback(async () => {
+    const value = Number(limitInput);
+    if (!(value >= MIN_LIMIT_MB)) {
+      setLimitInput(String(getAudioCacheLimitMb()));
+      return;
+    }
+    await setAudioCacheLimitMb(value).catch(err => setCacheError(String(err)));
+    await refresh();
+  }, [limitInput, refresh]);
+
+  const handleDelete = useCallback(async (key: string) => {
+    await deleteAudioCacheEntries([key]).catch(err => setCacheError(String(err)));
+    await refresh();
+  }, [refresh]);
+
+  const handleClear = useCallback(async () => {
+    await clearAudioCache().catch(err => setCacheError(String(err)));
+    await refresh();
+  }, [refresh]);
+
+  const totalBytes = entries.reduce((acc, entry) => acc + entry.byteSize, 0);
+  const totalDuration = entries.reduce((acc, entry) => acc + entry.duration, 0);
+
+  return (
+    <details
+      className="mb-4 p-3 bg-gray-700 rounded-lg border border-gray-600 shadow-md"
+      onToggle={(e) => { if ((e.target as HTMLDetailsElement).open) refresh(); }}
+    >
+      <summary className="text-gray-200 font-semibold cursor-pointer text-base">
+        Hang-gyorsítótár
+      </summary>
+      <div className="mt-3 space-y-3 text-sm">
+        <p className="text-xs text-gray-400">
+          Az azonos szöveghez, hanghoz és modellhez tartozó hangot a böngésző tárolja, így ismételt felolvasáskor nem kell újra az API-t hívni.
+        </p>
+        <div className="flex justify-between text-xs text-gray-300">
+          <span>{entries.length} bejegyzés, {formatMegabytes(totalBytes)}, {Math.round(totalDuration / 60)} perc hang</span>
+          <span>Ebben a munkamenetben: {stats.hits} találat / {stats.misses} hiány</span>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-300">
+          Méretkorlát (MB):
+          <input
+            type="number"
+            min={MIN_LIMIT_MB}
+            step={10}
+            value={limitInput}
+            onChange={(e) => setLimitInput(e.target.value)}
+            onBlur={handleLimitCommit}
+            className="w-24 p-1 border border-gray-600 rounded bg-gray-800 text-gray-100"
+            disabled={disabled}
+          />
+          <span className="text-gray-500">(a legrégebben használt bejegyzések törlődnek)</span>
+        </label>
+        {cacheError && <p className="text-xs text-red-300">{cacheError}</p>}
+
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {entries.map(entry => (
+            <li key={entry.key} className="flex items-center gap-2 p-1.5 bg-gray-800 rounded border border-gray-600 text-xs">
+              <span className="flex-1 min-w-0 truncate text-gray-200" title={entry.textPreview}>{entry.textPreview}</span>
+              <span className="text-gray-400">{entry.voice}</span>
+              <span className="w-14 text-right text-gray-400">{formatMegabytes(entry.byteSize)}</span>
+              <span className="w-8 text-right text-gray-400" title="Találatok">{entry.hits}×</span>
+              <button
+                onClick={() => handleDelete(entry.key)}
+                className="text-red-300 hover:text-red-200"
+                title="Törlés"
+                disabled={disabled}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex gap-2">
+          <Button onClick={refresh} variant="secondary" className="flex-1 px-2 py-1 text-xs">
+            Frissítés
+          </Button>
+          <Button onClick={handleClear} variant="danger" className="flex-1 px-2 py-1 text-xs" disabled={disabled || entries.length === 0}>
+            Gyorsítótár ürítése
+          </Button>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default AudioCachePanel;
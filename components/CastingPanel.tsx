@@ -0,0 +1,103 @@
+// components/CastingPanel.tsx
+import React, { useState } from 'react';
+import Button from './Button';
+import { CastMember } from '../types';
+import { TtsVoice } from '../services/ttsProvider';
+import { findCastMember } from '../utils/casting';
+
+interface CastingPanelProps {
+  voices: TtsVoice[];
+  cast: CastMember[];
+  narratorVoice: string;
+  disabled?: boolean;
+  onCastChange: (cast: CastMember[]) => void;
+  onDetectSpeakers: () => void;
+  onPreviewVoice: (voice: string) => void;
+}
+
+const CastingPanel: React.FC<CastingPanelProps> = ({
+  voices,
+  cast,
+  narratorVoice,
+  disabled = false,
+  onCastChange,
+  onDetectSpeakers,
+  onPreviewVoice,
+}) => {
+  const [newCharacter, setNewCharacter] = useState<string>('');
+
+  const handleAdd = () => {
+    const character = newCharacter.trim();
+    if (!character || findCastMember(cast, character)) return;
+    onCastChange([...cast, { character, voice: narratorVoice }]);
+    setNewCharacter('');
+  };
+
+  const handleVoiceChange = (character: string, voice: string) => {
+    onCastChange(cast.map(member => (member.character === character ? { ...member, voice } : member)));
+  };
+
+  const handleRemove = (character: string) => {
+    onCastChange(cast.filter(member => member.character !== character));
+  };
+
+  return (
+    <details className="mb-4 p-3 bg-gray-700 rounded-lg border border-gray-600 shadow-md">
+      <summary className="text-gray-200 font-semibold cursor-pointer text-base">
+        Szereposztás ({cast.length})
+      </summary>
+      <div className="mt-3 space-y-3 text-sm">
+        <p className="text-xs text-gray-400">
+          Jelölje a párbeszédet soronként: <code className="text-gray-300">[Anna] Szöveg</code> vagy <code className="text-gray-300">ANNA: Szöveg</code>.
+          A nem jelölt sorokat a kiválasztott narrátor hang ({narratorVoice}) olvassa fel.
+        </p>
+
+        {cast.length > 0 && (
+          <ul className="space-y-1">
+            {cast.map(member => (
+              <li key={member.character} className="flex items-center gap-2">
+                <span className="flex-1 min-w-0 truncate text-gray-100">{member.character}</span>
+                <select
+                  value={member.voice}
+                  onChange={(e) => handleVoiceChange(member.character, e.target.value)}
+                  className="p-1 border border-gray-600 rounded bg-gray-800 text-gray-100 text-xs"
+                  disabled={disabled}
+                >
+                  {voices.map(voice => (
+                    <option key={voice.value} value={voice.value}>{voice.name}</option>
+                  ))}
+                </select>
+                <Button variant="secondary" className="px-2 py-0.5 text-xs" disabled={disabled} onClick={() => onPreviewVoice(member.voice)}>
+                  Minta
+                </Button>
+                <Button variant="danger" className="px-1.5 py-0.5 text-xs" disabled={disabled} onClick={() => handleRemove(member.character)} title="Szereplő törlése">
+                  ✕
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newCharacter}
+            onChange={(e) => setNewCharacter(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+            placeholder="Szereplő neve"
+            className="flex-1 p-1.5 border border-gray-600 rounded-lg bg-gray-800 text-gray-100 focus:ring-blue-500 focus:border-blue-500"
+            disabled={disabled}
+          />
+          <Button variant="secondary" className="px-2 py-1 text-xs" disabled={disabled || !newCharacter.trim()} onClick={handleAdd}>
+            Hozzáadás
+          </Button>
+        </div>
+        <Button variant="secondary" fullWidth className="px-2 py-1 text-xs" disabled={disabled} onClick={onDetectSpeakers}>
+          Jelölt szereplők felismerése a szövegben
+        </Button>
+      </div>
+    </details>
+  );
+};
+
+export default CastingPanel;
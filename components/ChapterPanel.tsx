@@ -0,0 +1,179 @@
+// components/ChapterPanel.tsx
+import React, { useRef, useState } from 'react';
+import Button from './Button';
+import { Book } from '../types';
+import { getChapterDuration } from '../utils/projectModel';
+import { MANUSCRIPT_IMPORT_ACCEPT } from '../utils/manuscriptImport';
+import { MarkupImportSettings } from '../utils/markupImport';
+
+interface ChapterPanelProps {
+  book: Book;
+  activeChapterId: string;
+  disabled?: boolean;
+  onBookInfoChange: (patch: { title?: string; author?: string }) => void;
+  onSelectChapter: (chapterId: string) => void;
+  onRenameChapter: (chapterId: string, title: string) => void;
+  onAddChapter: () => void;
+  onDeleteChapter: (chapterId: string) => void;
+  onMoveChapter: (chapterId: string, direction: -1 | 1) => void;
+  onSplitActiveChapter: () => void;
+  onImportManuscript: (file: File, includeImages: boolean) => void;
+  markupImportSettings: MarkupImportSettings;
+  onMarkupImportSettingsChange: (changes: Partial<MarkupImportSettings>) => void;
+}
+
+const formatSeconds = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+  return `${minutes}:${remainingSeconds < 10 ? '0' : ''}${remainingSeconds}`;
+};
+
+const ChapterPanel: React.FC<ChapterPanelProps> = ({
+  book,
+  activeChapterId,
+  disabled = false,
+  onBookInfoChange,
+  onSelectChapter,
+  onRenameChapter,
+  onAddChapter,
+  onDeleteChapter,
+  onMoveChapter,
+  onSplitActiveChapter,
+  onImportManuscript,
+  markupImportSettings,
+  onMarkupImportSettingsChange,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [importImages, setImportImages] = useState(true);
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (file) onImportManuscript(file, importImages);
+  };
+
+  return (
+    <details className="mb-4 p-3 bg-gray-700 rounded-lg border border-gray-600 shadow-md" open>
+      <summary className="text-gray-200 font-semibold cursor-pointer text-base">
+        Könyv és fejezetek ({book.chapters.length})
+      </summary>
+      <div className="mt-3 space-y-3 text-sm">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            value={book.title}
+            onChange={(e) => onBookInfoChange({ title: e.target.value })}
+            placeholder="Könyv címe"
+            className="flex-1 p-2 border border-gray-600 rounded-lg bg-gray-800 text-gray-100 focus:ring-blue-500 focus:border-blue-500"
+            disabled={disabled}
+          />
+          <input
+            type="text"
+            value={book.author}
+            onChange={(e) => onBookInfoChange({ author: e.target.value })}
+            placeholder="Szerző"
+            className="flex-1 p-2 border border-gray-600 rounded-lg bg-gray-800 text-gray-100 focus:ring-blue-500 focus:border-blue-500"
+            disabled={disabled}
+          />
+        </div>
+
+        <ul className="space-y-1 max-h-56 overflow-y-auto">
+          {book.chapters.map((chapter, index) => {
+            const doneCount = chapter.segments.filter(segment => segment.status === 'done').length;
+            const hasError = chapter.segments.some(segment => segment.status === 'error');
+            const isActive = chapter.id === activeChapterId;
+            return (
+              <li
+                key={chapter.id}
+                className={`flex items-center gap-2 p-1.5 rounded-lg border cursor-pointer ${isActive ? 'border-blue-500 bg-gray-800' : 'border-gray-600 bg-gray-700 hover:bg-gray-600'}`}
+                onClick={() => onSelectChapter(chapter.id)}
+              >
+                <span className="text-xs text-gray-400 w-5 text-right">{index + 1}.</span>
+                <input
+                  type="text"
+                  value={chapter.title}
+                  onChange={(e) => onRenameChapter(chapter.id, e.target.value)}
+                  className="flex-1 min-w-0 px-2 py-1 border border-transparent rounded bg-transparent text-gray-100 focus:border-blue-500 focus:bg-gray-900"
+                  disabled={disabled}
+                />
+                <span className={`text-xs whitespace-nowrap ${hasError ? 'text-red-300' : 'text-gray-400'}`}>
+                  {chapter.segments.length > 0 ? `${doneCount}/${chapter.segments.length}` : '–'}
+                  {getChapterDuration(chapter) > 0 && ` · ${formatSeconds(getChapterDuration(chapter))}`}
+                </span>
+                <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                  <Button variant="secondary" className="px-1.5 py-0.5 text-xs" disabled={disabled || index === 0} onClick={() => onMoveChapter(chapter.id, -1)} title="Feljebb">↑</Button>
+                  <Button variant="secondary" className="px-1.5 py-0.5 text-xs" disabled={disabled || index === book.chapters.length - 1} onClick={() => onMoveChapter(chapter.id, 1)} title="Lejjebb">↓</Button>
+                  <Button variant="danger" className="px-1.5 py-0.5 text-xs" disabled={disabled || book.chapters.length === 1} onClick={() => onDeleteChapter(chapter.id)} title="Fejezet törlése">✕</Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex gap-2">
+          <Button onClick={onAddChapter} variant="secondary" className="flex-1 px-2 py-1 text-xs" disabled={disabled}>
+            Új fejezet
+          </Button>
+          <Button onClick={onSplitActiveChapter} variant="secondary" className="flex-1 px-2 py-1 text-xs" disabled={disabled}>
+            Fejezetek felismerése a szövegben
+          </Button>
+        </div>
+        <div className="flex items-center gap-2">
+          <input ref={fileInputRef} type="file" accept={MANUSCRIPT_IMPORT_ACCEPT} onChange={handleImport} className="hidden" />
+          <Button onClick={() => fileInputRef.current?.click()} variant="secondary" className="flex-1 px-2 py-1 text-xs" disabled={disabled}>
+            Kézirat importálása (EPUB, DOCX, ODT, MD, HTML)
+          </Button>
+          <label className="flex items-center gap-1 text-xs text-gray-300 cursor-pointer" title="A borító és a könyv képei jelenetképek lesznek">
+            <input type="checkbox" checked={importImages} onChange={(e) => setImportImages(e.target.checked)} disabled={disabled} />
+            Képek jelenetnek
+          </label>
+        </div>
+        <details className="text-xs text-gray-300">
+          <summary className="cursor-pointer text-gray-400">Markdown/HTML import: kódblokkok és táblázatok</summary>
+          <div className="mt-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <select
+                value={markupImportSettings.codeBlocks}
+                onChange={(e) => onMarkupImportSettingsChange({ codeBlocks: e.target.value as MarkupImportSettings['codeBlocks'] })}
+                className="p-1 border border-gray-600 rounded bg-gray-800 text-gray-100"
+                disabled={disabled}
+              >
+                <option value="skip">Kódblokkok kihagyása</option>
+                <option value="template">Kódblokkok bejelentése</option>
+              </select>
+              <input
+                type="text"
+                value={markupImportSettings.codeBlockTemplate}
+                onChange={(e) => onMarkupImportSettingsChange({ codeBlockTemplate: e.target.value })}
+                title="Helyettesítők: {language}, {lines}"
+                className="flex-1 min-w-0 p-1 border border-gray-600 rounded bg-gray-800 text-gray-100"
+                disabled={disabled || markupImportSettings.codeBlocks === 'skip'}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={markupImportSettings.tables}
+                onChange={(e) => onMarkupImportSettingsChange({ tables: e.target.value as MarkupImportSettings['tables'] })}
+                className="p-1 border border-gray-600 rounded bg-gray-800 text-gray-100"
+                disabled={disabled}
+              >
+                <option value="skip">Táblázatok kihagyása</option>
+                <option value="template">Táblázatok felolvasása</option>
+              </select>
+              <input
+                type="text"
+                value={markupImportSettings.tableCellTemplate}
+                onChange={(e) => onMarkupImportSettingsChange({ tableCellTemplate: e.target.value })}
+                title="Cellánként: {header}, {value}; soronként egy mondat"
+                className="flex-1 min-w-0 p-1 border border-gray-600 rounded bg-gray-800 text-gray-100"
+                disabled={disabled || markupImportSettings.tables === 'skip'}
+              />
+            </div>
+          </div>
+        </details>
+      </div>
+    </details>
+  );
+};
+
+export default ChapterPanel;
@@ -0,0 +1,134 @@
+// components/DialogueReviewPanel.tsx
+import React, { useState } from 'react';
+import Button from './Button';
+import { CastMember } from '../types';
+import { TtsVoice } from '../services/ttsProvider';
+import { DialogueAnalysisResult } from '../services/dialogueAnalysis';
+
+interface DialogueReviewPanelProps {
+  voices: TtsVoice[];
+  analysis: DialogueAnalysisResult | null;
+  cast: CastMember[];
+  isAnalyzing: boolean;
+  disabled?: boolean;
+  onAnalyze: () => void;
+  onLineSpeakerChange: (lineId: number, speaker: string | null) => void;
+  onProposedVoiceChange: (character: string, voice: string) => void;
+  onApply: () => void;
+  onDiscard: () => void;
+}
+
+const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+const DialogueReviewPanel: React.FC<DialogueReviewPanelProps> = ({
+  voices,
+  analysis,
+  cast,
+  isAnalyzing,
+  disabled = false,
+  onAnalyze,
+  onLineSpeakerChange,
+  onProposedVoiceChange,
+  onApply,
+  onDiscard,
+}) => {
+  const [showOnlyUncertain, setShowOnlyUncertain] = useState<boolean>(false);
+
+  const characterOptions = [
+    ...cast.map(member => member.character),
+    ...(analysis?.proposedCast.map(member => member.character) ?? []),
+  ];
+  const visibleLines = analysis
+    ? analysis.lines.filter(line => !showOnlyUncertain || !line.speaker || line.confidence < LOW_CONFIDENCE_THRESHOLD)
+    : [];
+  const attributedCount = analysis?.lines.filter(line => line.speaker).length ?? 0;
+
+  return (
+    <details className="mb-4 p-3 bg-gray-700 rounded-lg border border-gray-600 shadow-md">
+      <summary className="text-gray-200 font-semibold cursor-pointer text-base">
+        Automatikus párbeszéd-felismerés
+      </summary>
+      <div className="mt-3 space-y-3 text-sm">
+        <p className="text-xs text-gray-400">
+          Megkeresi az aktuális fejezet idézett párbeszédeit („…”, – …), hozzárendeli őket a szereplőkhöz és hangot javasol nekik.
+          Elfogadás előtt minden sor ellenőrizhető és javítható.
+        </p>
+        <Button onClick={onAnalyze} fullWidth className="px-2 py-1 text-xs" disabled={disabled || isAnalyzing}>
+          {isAnalyzing ? 'Elemzés...' : 'Párbeszéd elemzése'}
+        </Button>
+
+        {analysis && (
+          <>
+            <div className="flex items-center justify-between text-xs text-gray-400">
+              <span>
+                {analysis.lines.length} párbeszédsor, ebből {attributedCount} hozzárendelve
+                {analysis.usedModel ? ' (Gemini)' : ' (heurisztika)'}
+              </span>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input type="checkbox" checked={showOnlyUncertain} onChange={(e) => setShowOnlyUncertain(e.target.checked)} />
+                Csak bizonytalanok
+              </label>
+            </div>
+
+            <datalist id="dialogue-character-options">
+              {characterOptions.map(character => <option key={character} value={character} />)}
+            </datalist>
+
+            <ul className="space-y-1 max-h-64 overflow-y-auto">
+              {visibleLines.map(line => (
+                <li key={line.id} className="flex items-center gap-2 p-1.5 bg-gray-800 rounded border border-gray-600">
+                  <span className="flex-1 min-w-0 truncate text-gray-200" title={line.context}>„{line.quote}”</span>
+                  <input
+                    type="text"
+                    list="dialogue-character-options"
+                    value={line.speaker ?? ''}
+                    onChange={(e) => onLineSpeakerChange(line.id, e.target.value.trim() ? e.target.value : null)}
+                    placeholder="Narrátor"
+                    className="w-28 p-1 border border-gray-600 rounded bg-gray-900 text-gray-100 text-xs"
+                    disabled={disabled}
+                  />
+                  <span
+                    className={`w-10 text-right text-xs ${line.source === 'manual' ? 'text-blue-300' : line.confidence < LOW_CONFIDENCE_THRESHOLD ? 'text-yellow-300' : 'text-green-300'}`}
+                    title={line.source === 'manual' ? 'Kézzel javítva' : line.source === 'model' ? 'Gemini' : 'Heurisztika'}
+                  >
+                    {line.source === 'manual' ? '✎' : `${Math.round(line.confidence * 100)}%`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            {analysis.proposedCast.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-semibold text-gray-300">Javasolt új szereplők:</p>
+                {analysis.proposedCast.map(member => (
+                  <div key={member.character} className="flex items-center gap-2">
+                    <span className="flex-1 text-gray-100">{member.character}</span>
+                    <select
+                      value={member.voice}
+                      onChange={(e) => onProposedVoiceChange(member.character, e.target.value)}
+                      className="p-1 border border-gray-600 rounded bg-gray-800 text-gray-100 text-xs"
+                      disabled={disabled}
+                    >
+                      {voices.map(voice => <option key={voice.value} value={voice.value}>{voice.name}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={onApply} className="flex-1 px-2 py-1 text-xs" disabled={disabled || attributedCount === 0}>
+                Elfogadás és jelölés a szövegben
+              </Button>
+              <Button onClick={onDiscard} variant="secondary" className="px-2 py-1 text-xs" disabled={disabled}>
+                Elvetés
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default DialogueReviewPanel;
@@ -0,0 +1,129 @@
+// components/ExportMetadataDialog.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import Button from './Button';
+import { AudiobookExportMetadata } from '../types';
+
+interface ExportMetadataDialogProps {
+  formatLabel: string; // e.g. "MP3", shown in the title and on the confirm button
+  metadata: AudiobookExportMetadata;
+  notice?: string | null; // A caveat about the file this browser will produce
+  onConfirm: (metadata: AudiobookExportMetadata) => void;
+  onCancel: () => void;
+}
+
+const TEXT_FIELDS: { key: 'title' | 'author' | 'narrator' | 'album' | 'genre'; label: string }[] = [
+  { key: 'title', label: 'Cím' },
+  { key: 'author', label: 'Szerző' },
+  { key: 'narrator', label: 'Felolvasó' },
+  { key: 'album', label: 'Album (könyv)' },
+  { key: 'genre', label: 'Műfaj' },
+];
+
+const inputClassName = 'w-full p-1.5 border border-gray-600 rounded bg-gray-800 text-gray-100 text-sm focus:ring-blue-500 focus:border-blue-500';
+
+const ExportMetadataDialog: React.FC<ExportMetadataDialogProps> = ({ formatLabel, metadata, notice, onConfirm, onCancel }) => {
+  const [draft, setDraft] = useState<AudiobookExportMetadata>(metadata);
+  const [coverUrl, setCoverUrl] = useState<string | null>(null);
+  const coverInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!draft.cover) {
+      setCoverUrl(null);
+      return;
+    }
+    const url = globalThis.URL.createObjectURL(draft.cover);
+    setCoverUrl(url);
+    return () => globalThis.URL.revokeObjectURL(url);
+  }, [draft.cover]);
+
+  const update = (changes: Partial<AudiobookExportMetadata>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onCancel}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-metadata-title"
+        className="w-full max-w-lg p-4 bg-gray-700 rounded-lg border border-gray-600 shadow-xl text-sm"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => { if (e.key === 'Escape') onCancel(); }}
+      >
+        <h2 id="export-metadata-title" className="text-gray-100 font-semibold text-base mb-3">
+          {formatLabel} exportálása – címkék
+        </h2>
+        <div className="flex gap-4">
+          <div className="flex-1 space-y-2">
+            {TEXT_FIELDS.map(field => (
+              <label key={field.key} className="block text-xs text-gray-300">
+                {field.label}
+                <input
+                  type="text"
+                  value={draft[field.key]}
+                  onChange={(e) => update({ [field.key]: e.target.value })}
+                  className={inputClassName}
+                />
+              </label>
+            ))}
+            <div className="flex gap-2">
+              <label className="block flex-1 text-xs text-gray-300">
+                Sorszám
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.trackNumber}
+                  onChange={(e) => update({ trackNumber: Math.max(1, Number(e.target.value) || 1) })}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="block flex-1 text-xs text-gray-300">
+                Összesen
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.trackTotal}
+                  onChange={(e) => update({ trackTotal: Math.max(1, Number(e.target.value) || 1) })}
+                  className={inputClassName}
+                />
+              </label>
+            </div>
+          </div>
+          <div className="w-32 space-y-1 text-xs text-gray-300">
+            <p>Borító</p>
+            <div className="w-32 h-32 flex items-center justify-center bg-gray-800 rounded border border-gray-600 overflow-hidden">
+              {coverUrl ? <img src={coverUrl} alt="Borító" className="w-full h-full object-cover" /> : <span className="text-gray-500">Nincs</span>}
+            </div>
+            <input
+              ref={coverInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) update({ cover: file });
+                e.target.value = '';
+              }}
+            />
+            <Button variant="secondary" fullWidth className="px-2 py-0.5 text-xs" onClick={() => coverInputRef.current?.click()}>
+              Kép választása
+            </Button>
+            <Button variant="secondary" fullWidth className="px-2 py-0.5 text-xs" disabled={!draft.cover} onClick={() => update({ cover: null })}>
+              Eltávolítás
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-gray-400 mt-3">A fejezetjelölők a projekt fejezeteiből készülnek.</p>
+        {notice && <p className="text-xs text-yellow-300 mt-2">{notice}</p>}
+        <div className="flex justify-end gap-2 mt-3">
+          <Button variant="secondary" className="px-3 py-1 text-sm" onClick={onCancel}>
+            Mégse
+          </Button>
+          <Button className="px-3 py-1 text-sm" onClick={() => onConfirm(draft)}>
+            {formatLabel} exportálása
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportMetadataDialog;
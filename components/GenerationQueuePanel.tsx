@@ -0,0 +1,52 @@
+// components/GenerationQueuePanel.tsx
+import React from 'react';
+import Button from './Button';
+import { GenerationJob } from '../types';
+
+interface GenerationQueuePanelProps {
+  job: GenerationJob;
+  disabled?: boolean;
+  onResume: () => void;
+  onRetryFailed: () => void;
+  onDiscard: () => void;
+}
+
+const GenerationQueuePanel: React.FC<GenerationQueuePanelProps> = ({
+  job,
+  disabled = false,
+  onResume,
+  onRetryFailed,
+  onDiscard,
+}) => {
+  const doneCount = job.segments.filter(entry => entry.status === 'done').length;
+  const failedCount = job.segments.filter(entry => entry.status === 'error').length;
+  const pendingCount = job.segments.length - doneCount - failedCount;
+  const lastError = job.segments.find(entry => entry.status === 'error')?.error;
+
+  return (
+    <div className="mb-4 p-3 bg-gray-700 rounded-lg border border-yellow-600 shadow-md text-sm">
+      <p className="text-gray-200 font-semibold">Befejezetlen hanggenerálás</p>
+      <p className="text-xs text-gray-400 mt-1">
+        {doneCount} kész, {failedCount} hibás, {pendingCount} hátralévő szegmens
+        {' '}(utoljára: {new Date(job.updatedAt).toLocaleString('hu-HU')}).
+        A kész szegmensek hangja el van mentve a böngészőben.
+      </p>
+      {lastError && (
+        <p className="text-xs text-red-300 mt-1 truncate" title={lastError}>Hiba: {lastError}</p>
+      )}
+      <div className="flex gap-2 mt-2">
+        <Button onClick={onResume} className="flex-1 px-2 py-1 text-xs" disabled={disabled || pendingCount + failedCount === 0}>
+          Folytatás
+        </Button>
+        <Button onClick={onRetryFailed} variant="secondary" className="flex-1 px-2 py-1 text-xs" disabled={disabled || failedCount === 0}>
+          Csak hibásak újrapróbálása
+        </Button>
+        <Button onClick={onDiscard} variant="danger" className="px-2 py-1 text-xs" disabled={disabled}>
+          Elvetés
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationQueuePanel;
@@ -0,0 +1,159 @@
+// components/LexiconPanel.tsx
+import React, { useRef } from 'react';
+import Button from './Button';
+import { PronunciationEntry } from '../types';
+import {
+  createPronunciationEntry,
+  lexiconToCsv,
+  lexiconToJson,
+  mergeLexicons,
+  parseLexiconFile,
+} from '../utils/pronunciationLexicon';
+
+interface LexiconPanelProps {
+  lexicon: PronunciationEntry[];
+  disabled?: boolean;
+  onLexiconChange: (lexicon: PronunciationEntry[]) => void;
+  onTestPronunciation: (term: string) => void;
+  onError: (message: string) => void;
+}
+
+const downloadTextFile = (content: string, fileName: string, mimeType: string) => {
+  const url = globalThis.URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  globalThis.document.body.appendChild(a);
+  a.click();
+  globalThis.document.body.removeChild(a);
+  globalThis.URL.revokeObjectURL(url);
+};
+
+const LexiconPanel: React.FC<LexiconPanelProps> = ({
+  lexicon,
+  disabled = false,
+  onLexiconChange,
+  onTestPronunciation,
+  onError,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleEntryChange = (id: string, patch: Partial<PronunciationEntry>) => {
+    onLexiconChange(lexicon.map(entry => (entry.id === id ? { ...entry, ...patch } : entry)));
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    try {
+      onLexiconChange(mergeLexicons(lexicon, parseLexiconFile(file.name, await file.text())));
+    } catch (err) {
+      onError(`Nem sikerült importálni a kiejtési szótárt: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <details className="mb-4 p-3 bg-gray-700 rounded-lg border border-gray-600 shadow-md">
+      <summary className="text-gray-200 font-semibold cursor-pointer text-base">
+        Kiejtési szótár ({lexicon.length})
+      </summary>
+      <div className="mt-3 space-y-3 text-sm">
+        <p className="text-xs text-gray-400">
+          A felolvasás előtt a kifejezéseket a megadott átírásra cseréli (pl. <code className="text-gray-300">Éowyn → Éovin</code>).
+          A kézirat szövege nem változik.
+        </p>
+
+        {lexicon.length > 0 && (
+          <ul className="space-y-1 max-h-64 overflow-y-auto">
+            {lexicon.map(entry => (
+              <li key={entry.id} className="flex items-center gap-1.5 p-1.5 bg-gray-800 rounded border border-gray-600 text-xs">
+                <input
+                  type="text"
+                  value={entry.term}
+                  onChange={(e) => handleEntryChange(entry.id, { term: e.target.value })}
+                  placeholder="Kifejezés"
+                  className="w-24 flex-1 min-w-0 p-1 border border-gray-600 rounded bg-gray-900 text-gray-100"
+                  disabled={disabled}
+                />
+                <span className="text-gray-500">→</span>
+                <input
+                  type="text"
+                  value={entry.replacement}
+                  onChange={(e) => handleEntryChange(entry.id, { replacement: e.target.value })}
+                  placeholder="Kiejtés"
+                  className="w-24 flex-1 min-w-0 p-1 border border-gray-600 rounded bg-gray-900 text-gray-100"
+                  disabled={disabled}
+                />
+                <label className="flex items-center gap-0.5 text-gray-300 cursor-pointer" title="Kis- és nagybetű számít">
+                  <input
+                    type="checkbox"
+                    checked={entry.caseSensitive}
+                    onChange={(e) => handleEntryChange(entry.id, { caseSensitive: e.target.checked })}
+                    disabled={disabled}
+                  />
+                  Aa
+                </label>
+                <label className="flex items-center gap-0.5 text-gray-300 cursor-pointer" title="Csak egész szóra illeszkedik">
+                  <input
+                    type="checkbox"
+                    checked={entry.wholeWord}
+                    onChange={(e) => handleEntryChange(entry.id, { wholeWord: e.target.checked })}
+                    disabled={disabled}
+                  />
+                  Szó
+                </label>
+                <Button
+                  variant="secondary"
+                  className="px-1.5 py-0.5 text-xs"
+                  disabled={disabled || !entry.term.trim()}
+                  onClick={() => onTestPronunciation(entry.term)}
+                  title="Kiejtés kipróbálása"
+                >
+                  ▶
+                </Button>
+                <Button
+                  variant="danger"
+                  className="px-1.5 py-0.5 text-xs"
+                  disabled={disabled}
+                  onClick={() => onLexiconChange(lexicon.filter(item => item.id !== entry.id))}
+                  title="Bejegyzés törlése"
+                >
+                  ✕
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Button variant="secondary" fullWidth className="px-2 py-1 text-xs" disabled={disabled} onClick={() => onLexiconChange([...lexicon, createPronunciationEntry()])}>
+          Új bejegyzés
+        </Button>
+        <div className="flex gap-2">
+          <input ref={fileInputRef} type="file" accept=".json,.csv,application/json,text/csv" onChange={handleImport} className="hidden" />
+          <Button variant="secondary" className="flex-1 px-2 py-1 text-xs" disabled={disabled} onClick={() => fileInputRef.current?.click()}>
+            Importálás (JSON/CSV)
+          </Button>
+          <Button
+            variant="secondary"
+            className="flex-1 px-2 py-1 text-xs"
+            disabled={lexicon.length === 0}
+            onClick={() => downloadTextFile(lexiconToJson(lexicon), 'kiejtesi_szotar.json', 'application/json')}
+          >
+            Export JSON
+          </Button>
+          <Button
+            variant="secondary"
+            className="flex-1 px-2 py-1 text-xs"
+            disabled={lexicon.length === 0}
+            onClick={() => downloadTextFile(lexiconToCsv(lexicon), 'kiejtesi_szotar.csv', 'text/csv')}
+          >
+            Export CSV
+          </Button>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default LexiconPanel;
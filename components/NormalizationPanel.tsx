@@ -0,0 +1,105 @@
+// components/NormalizationPanel.tsx
+import React, { useMemo, useState } from 'react';
+import { NormalizationLanguage, NormalizationRuleId, TextNormalizationSettings } from '../types';
+import { NORMALIZATION_RULES, normalizeText } from '../utils/textNormalizer';
+
+interface NormalizationPanelProps {
+  normalization: TextNormalizationSettings;
+  chapterExcerpt: string; // Plain text of the active chapter, previewed when no sample is typed
+  disabled?: boolean;
+  onNormalizationChange: (normalization: TextNormalizationSettings) => void;
+}
+
+const LANGUAGE_OPTIONS: { value: NormalizationLanguage; label: string }[] = [
+  { value: 'hu', label: 'Magyar' },
+  { value: 'en', label: 'Angol' },
+];
+
+const PREVIEW_MAX_CHARS = 600;
+
+const NormalizationPanel: React.FC<NormalizationPanelProps> = ({
+  normalization,
+  chapterExcerpt,
+  disabled = false,
+  onNormalizationChange,
+}) => {
+  const [sampleText, setSampleText] = useState('');
+
+  const source = (sampleText.trim() ? sampleText : chapterExcerpt).slice(0, PREVIEW_MAX_CHARS);
+  const preview = useMemo(() => normalizeText(source, normalization), [source, normalization]);
+
+  const handleRuleChange = (id: NormalizationRuleId, enabled: boolean) => {
+    onNormalizationChange({ ...normalization, rules: { ...normalization.rules, [id]: enabled } });
+  };
+
+  return (
+    <details className="mb-4 p-3 bg-gray-700 rounded-lg border border-gray-600 shadow-md">
+      <summary className="text-gray-200 font-semibold cursor-pointer text-base">
+        Szövegnormalizálás ({normalization.enabled ? 'be' : 'ki'})
+      </summary>
+      <div className="mt-3 space-y-3 text-sm">
+        <p className="text-xs text-gray-400">
+          A felolvasás előtt a számokat, dátumokat, mértékegységeket és rövidítéseket kiírja betűvel, így a hang
+          mindig ugyanúgy olvassa fel őket. A kézirat szövege nem változik.
+        </p>
+
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1.5 text-gray-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={normalization.enabled}
+              onChange={(e) => onNormalizationChange({ ...normalization, enabled: e.target.checked })}
+              disabled={disabled}
+            />
+            Bekapcsolva
+          </label>
+          <select
+            value={normalization.language}
+            onChange={(e) => onNormalizationChange({ ...normalization, language: e.target.value as NormalizationLanguage })}
+            className="p-1 border border-gray-600 rounded bg-gray-800 text-gray-100 text-xs"
+            disabled={disabled || !normalization.enabled}
+          >
+            {LANGUAGE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <ul className="space-y-1">
+          {NORMALIZATION_RULES.map(rule => (
+            <li key={rule.id}>
+              <label className="flex items-baseline gap-1.5 text-xs text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={normalization.rules[rule.id]}
+                  onChange={(e) => handleRuleChange(rule.id, e.target.checked)}
+                  disabled={disabled || !normalization.enabled}
+                />
+                <span className="text-gray-200">{rule.label}</span>
+                <span className="text-gray-500">{rule.example}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        <textarea
+          value={sampleText}
+          onChange={(e) => setSampleText(e.target.value)}
+          placeholder="Mintaszöveg (üresen az aktív fejezet eleje látszik)"
+          rows={2}
+          className="w-full p-1.5 border border-gray-600 rounded bg-gray-800 text-gray-100 text-xs"
+        />
+        {source.trim() && (
+          <div>
+            <p className="text-xs text-gray-400 mb-1">Így hangzik el:</p>
+            <p className="text-xs text-gray-200 p-2 bg-gray-800 rounded border border-gray-600 max-h-40 overflow-y-auto whitespace-pre-wrap">
+              {preview}
+            </p>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default NormalizationPanel;
@@ -0,0 +1,131 @@
+// components/SegmentRetakePanel.tsx
+import React, { useEffect, useState } from 'react';
+import Button from './Button';
+import { TtsVoice } from '../services/ttsProvider';
+import { Segment } from '../types';
+
+// A regenerated take waiting to be accepted or discarded
+export interface SegmentTake {
+  segmentId: string;
+  voice: string;
+  style: string;
+  buffer: AudioBuffer;
+}
+
+interface SegmentRetakePanelProps {
+  segment: Segment;
+  segmentNumber: number; // 1-based position within the chapter
+  segmentCount: number;
+  voices: TtsVoice[];
+  take: SegmentTake | null;
+  hasCurrentAudio: boolean;
+  disabled?: boolean;
+  onStep: (direction: -1 | 1) => void;
+  onGenerateTake: (voice: string, style: string) => void;
+  onAudition: (which: 'current' | 'take') => void;
+  onAcceptTake: () => void;
+  onDiscardTake: () => void;
+  onClose: () => void;
+}
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)} mp`;
+
+const SegmentRetakePanel: React.FC<SegmentRetakePanelProps> = ({
+  segment,
+  segmentNumber,
+  segmentCount,
+  voices,
+  take,
+  hasCurrentAudio,
+  disabled = false,
+  onStep,
+  onGenerateTake,
+  onAudition,
+  onAcceptTake,
+  onDiscardTake,
+  onClose,
+}) => {
+  const [voice, setVoice] = useState(segment.voice);
+  const [style, setStyle] = useState(segment.style ?? '');
+
+  // Start from the segment's current settings whenever another segment is picked
+  useEffect(() => {
+    setVoice(segment.voice);
+    setStyle(segment.style ?? '');
+  }, [segment.id]);
+
+  const isPause = segment.pauseSeconds !== undefined;
+
+  return (
+    <div className="mb-4 p-3 bg-gray-700 rounded-lg border border-blue-600 shadow-md text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-gray-200 font-semibold">Szegmens újragenerálása ({segmentNumber}/{segmentCount})</p>
+        <div className="flex gap-1">
+          <Button onClick={() => onStep(-1)} variant="secondary" className="px-2 py-0.5 text-xs" disabled={disabled || segmentNumber <= 1}>◀</Button>
+          <Button onClick={() => onStep(1)} variant="secondary" className="px-2 py-0.5 text-xs" disabled={disabled || segmentNumber >= segmentCount}>▶</Button>
+          <Button onClick={onClose} variant="secondary" className="px-2 py-0.5 text-xs" disabled={disabled}>✕</Button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-300 mt-2 p-2 bg-gray-800 rounded border border-gray-600 max-h-24 overflow-y-auto">
+        {segment.speaker && <span className="text-blue-300">[{segment.speaker}] </span>}
+        {isPause ? `Szünet (${formatSeconds(segment.pauseSeconds!)})` : segment.text}
+      </p>
+
+      {isPause ? (
+        <p className="text-xs text-gray-400 mt-2">A szünet hossza a szövegben a &lt;pause/&gt; jelöléssel módosítható.</p>
+      ) : (
+        <>
+          <div className="flex gap-2 mt-2">
+            <select
+              value={voice}
+              onChange={(e) => setVoice(e.target.value)}
+              className="p-1 border border-gray-600 rounded bg-gray-800 text-gray-100 text-xs"
+              disabled={disabled}
+            >
+              {voices.map(option => (
+                <option key={option.value} value={option.value}>{option.name}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={style}
+              onChange={(e) => setStyle(e.target.value)}
+              placeholder="Előadásmód, pl. suttogva, lassan"
+              className="flex-1 min-w-0 p-1 border border-gray-600 rounded bg-gray-800 text-gray-100 text-xs"
+              disabled={disabled}
+            />
+            <Button onClick={() => onGenerateTake(voice, style.trim())} className="px-2 py-1 text-xs" disabled={disabled}>
+              Új változat
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap gap-2 mt-2">
+            <Button onClick={() => onAudition('current')} variant="secondary" className="px-2 py-1 text-xs" disabled={disabled || !hasCurrentAudio}>
+              ▶ Jelenlegi{segment.duration ? ` (${formatSeconds(segment.duration)})` : ''}
+            </Button>
+            {take && (
+              <>
+                <Button onClick={() => onAudition('take')} variant="secondary" className="px-2 py-1 text-xs" disabled={disabled}>
+                  ▶ Új változat ({formatSeconds(take.buffer.duration)})
+                </Button>
+                <Button onClick={onAcceptTake} className="px-2 py-1 text-xs" disabled={disabled}>
+                  Elfogadás
+                </Button>
+                <Button onClick={onDiscardTake} variant="danger" className="px-2 py-1 text-xs" disabled={disabled}>
+                  Elvetés
+                </Button>
+              </>
+            )}
+          </div>
+          {take && (
+            <p className="text-xs text-gray-400 mt-1">
+              Új változat: {take.voice}{take.style ? `, „${take.style}”` : ''}. Elfogadáskor csak ez a szegmens cserélődik a hangoskönyvben.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SegmentRetakePanel;
@@ -0,0 +1,66 @@
+// components/SkippedPassagesPanel.tsx
+import React from 'react';
+import Button from './Button';
+import { SkippedPassage } from '../types';
+
+// A skipped passage of the last import, tied to the project chapter it was referenced from
+export interface PendingSkippedPassage extends Omit<SkippedPassage, 'chapterIndex'> {
+  chapterId: string;
+  chapterTitle: string;
+}
+
+interface SkippedPassagesPanelProps {
+  passages: PendingSkippedPassage[];
+  disabled?: boolean;
+  onInsert: (index: number) => void;  // Appends the passage to the end of its chapter
+  onRemove: (index: number) => void;
+  onClear: () => void;
+}
+
+const KIND_LABELS: Record<SkippedPassage['kind'], string> = {
+  footnote: 'Lábjegyzet',
+  endnote: 'Végjegyzet',
+  comment: 'Megjegyzés',
+};
+
+const SkippedPassagesPanel: React.FC<SkippedPassagesPanelProps> = ({
+  passages,
+  disabled = false,
+  onInsert,
+  onRemove,
+  onClear,
+}) => {
+  return (
+    <details className="mb-4 p-3 bg-gray-700 rounded-lg border border-gray-600 shadow-md">
+      <summary className="text-gray-200 font-semibold cursor-pointer text-base">
+        Kihagyott részek az importból ({passages.length})
+      </summary>
+      <div className="mt-3 space-y-3 text-sm">
+        <p className="text-xs text-gray-400">
+          A lábjegyzetek, végjegyzetek és megjegyzések nem kerültek a felolvasott szövegbe. Szükség esetén a fejezet végére illeszthetők.
+        </p>
+        <ul className="space-y-1 max-h-64 overflow-y-auto">
+          {passages.map((passage, index) => (
+            <li key={index} className="flex items-start gap-1.5 p-1.5 bg-gray-800 rounded border border-gray-600 text-xs">
+              <div className="flex-1 min-w-0">
+                <p className="text-gray-400">{KIND_LABELS[passage.kind]} · {passage.chapterTitle}</p>
+                <p className="text-gray-200">{passage.text}</p>
+              </div>
+              <Button variant="secondary" className="px-1.5 py-0.5 text-xs" disabled={disabled} onClick={() => onInsert(index)} title="Beillesztés a fejezet végére">
+                +
+              </Button>
+              <Button variant="danger" className="px-1.5 py-0.5 text-xs" disabled={disabled} onClick={() => onRemove(index)} title="Eltávolítás a listából">
+                ✕
+              </Button>
+            </li>
+          ))}
+        </ul>
+        <Button variant="secondary" fullWidth className="px-2 py-1 text-xs" disabled={disabled} onClick={onClear}>
+          Lista törlése
+        </Button>
+      </div>
+    </details>
+  );
+};
+
+export default SkippedPassagesPanel;
@@ -0,0 +1,274 @@
+// components/VoiceAuditionPanel.tsx
+import React, { useState } from 'react';
+import Button from './Button';
+import { TtsVoice } from '../services/ttsProvider';
+import { CastMember } from '../types';
+
+// One rendering of the audition passage with a voice and style direction
+export interface AuditionTake {
+  id: string;
+  text: string;
+  voice: string;
+  style: string;
+  buffer: AudioBuffer;
+  rating: number; // 0 = not rated, otherwise 1–5
+  favorite: boolean;
+}
+
+interface VoiceAuditionPanelProps {
+  voices: TtsVoice[];
+  takes: AuditionTake[];
+  cast: CastMember[];
+  narratorVoice: string;
+  chapterExcerpt: string; // Offered as the audition passage
+  disabled?: boolean;
+  onRender: (text: string, voices: string[], styles: string[]) => void;
+  onPlay: (takeIds: string[], levelMatch: boolean) => void; // Plays the takes back-to-back
+  onStop: () => void;
+  onUpdateTake: (id: string, changes: Partial<Pick<AuditionTake, 'rating' | 'favorite'>>) => void;
+  onRemoveTake: (id: string) => void;
+  onClearTakes: () => void;
+  onPin: (id: string, character: string | null) => void; // null pins the voice as the project's narrator
+}
+
+const DEFAULT_PASSAGE = 'Ez egy hangminta a kiválasztott hangon.';
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)} mp`;
+
+const VoiceAuditionPanel: React.FC<VoiceAuditionPanelProps> = ({
+  voices,
+  takes,
+  cast,
+  narratorVoice,
+  chapterExcerpt,
+  disabled = false,
+  onRender,
+  onPlay,
+  onStop,
+  onUpdateTake,
+  onRemoveTake,
+  onClearTakes,
+  onPin,
+}) => {
+  const [passage, setPassage] = useState<string>(DEFAULT_PASSAGE);
+  const [selectedVoices, setSelectedVoices] = useState<string[]>(
+    () => (voices.some(voice => voice.value === narratorVoice) ? [narratorVoice] : [])
+  );
+  const [stylesText, setStylesText] = useState<string>('');
+  const [levelMatch, setLevelMatch] = useState<boolean>(true);
+  const [favoritesOnly, setFavoritesOnly] = useState<boolean>(false);
+  const [pinTarget, setPinTarget] = useState<string>(''); // '' = project narrator, otherwise a character
+  const [slotA, setSlotA] = useState<string | null>(null);
+  const [slotB, setSlotB] = useState<string | null>(null);
+
+  // An empty line (or no line at all) stands for the voice's neutral delivery
+  const styles = [...new Set(stylesText.trimEnd().split('\n').map(line => line.trim()))];
+  const renderCount = selectedVoices.length * styles.length;
+
+  const visibleTakes = favoritesOnly ? takes.filter(take => take.favorite) : takes;
+  const voiceName = (value: string) => voices.find(voice => voice.value === value)?.name ?? value;
+  const hasTake = (id: string | null) => id !== null && takes.some(take => take.id === id);
+
+  const toggleVoice = (value: string) => {
+    setSelectedVoices(prev => (prev.includes(value) ? prev.filter(voice => voice !== value) : [...prev, value]));
+  };
+
+  return (
+    <details className="mb-4 p-3 bg-gray-700 rounded-lg border border-gray-600 shadow-md">
+      <summary className="text-gray-200 font-semibold cursor-pointer text-base">
+        Hangválogatás ({takes.length})
+      </summary>
+      <div className="mt-3 space-y-3 text-sm">
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <label htmlFor="audition-passage" className="text-xs text-gray-300">Próbaszöveg</label>
+            <Button
+              variant="secondary"
+              className="px-2 py-0.5 text-xs"
+              disabled={disabled || !chapterExcerpt.trim()}
+              onClick={() => setPassage(chapterExcerpt.trim().slice(0, 400))}
+            >
+              Részlet a fejezetből
+            </Button>
+          </div>
+          <textarea
+            id="audition-passage"
+            value={passage}
+            onChange={(e) => setPassage(e.target.value)}
+            rows={3}
+            className="w-full p-1.5 border border-gray-600 rounded bg-gray-800 text-gray-100 text-xs"
+            disabled={disabled}
+          />
+        </div>
+
+        <div>
+          <p className="text-xs text-gray-300 mb-1">Hangok ({selectedVoices.length})</p>
+          <div className="flex flex-wrap gap-1 max-h-28 overflow-y-auto">
+            {voices.map(voice => (
+              <button
+                key={voice.value}
+                type="button"
+                onClick={() => toggleVoice(voice.value)}
+                disabled={disabled}
+                className={`px-2 py-0.5 rounded-full border text-xs ${
+                  selectedVoices.includes(voice.value)
+                    ? 'bg-blue-600 border-blue-500 text-white'
+                    : 'bg-gray-800 border-gray-600 text-gray-300'
+                }`}
+              >
+                {voice.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="audition-styles" className="text-xs text-gray-300">Stílusok (soronként egy; üres sor: semleges)</label>
+          <textarea
+            id="audition-styles"
+            value={stylesText}
+            onChange={(e) => setStylesText(e.target.value)}
+            rows={2}
+            placeholder={'halkan, titokzatosan\nlelkesen, gyorsabban'}
+            className="w-full p-1.5 border border-gray-600 rounded bg-gray-800 text-gray-100 text-xs"
+            disabled={disabled}
+          />
+        </div>
+
+        <Button
+          fullWidth
+          className="px-2 py-1 text-xs"
+          disabled={disabled || !passage.trim() || renderCount === 0}
+          onClick={() => onRender(passage.trim(), selectedVoices, styles)}
+        >
+          Változatok generálása ({renderCount})
+        </Button>
+
+        {takes.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center gap-3 text-xs text-gray-300">
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={levelMatch} onChange={(e) => setLevelMatch(e.target.checked)} />
+                Hangerő kiegyenlítése
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={favoritesOnly} onChange={(e) => setFavoritesOnly(e.target.checked)} />
+                Csak kedvencek
+              </label>
+              <label className="flex items-center gap-1">
+                Rögzítés:
+                <select
+                  value={pinTarget}
+                  onChange={(e) => setPinTarget(e.target.value)}
+                  className="p-0.5 border border-gray-600 rounded bg-gray-800 text-gray-100 text-xs"
+                  disabled={disabled}
+                >
+                  <option value="">Narrátor (projekt)</option>
+                  {cast.map(member => (
+                    <option key={member.character} value={member.character}>{member.character}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <ul className="space-y-1 max-h-72 overflow-y-auto">
+              {visibleTakes.map(take => (
+                <li key={take.id} className="p-1.5 bg-gray-800 rounded border border-gray-600 text-xs">
+                  <div className="flex items-center gap-1.5">
+                    <button
+                      type="button"
+                      onClick={() => onUpdateTake(take.id, { favorite: !take.favorite })}
+                      className={take.favorite ? 'text-yellow-400' : 'text-gray-500'}
+                      title="Kedvenc"
+                    >
+                      ♥
+                    </button>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-gray-100 truncate">
+                        {voiceName(take.voice)}
+                        {take.style && <span className="text-gray-400"> · {take.style}</span>}
+                      </p>
+                      <p className="text-gray-500 truncate">{formatSeconds(take.buffer.duration)} · {take.text}</p>
+                    </div>
+                    <div className="flex" title="Értékelés">
+                      {[1, 2, 3, 4, 5].map(star => (
+                        <button
+                          key={star}
+                          type="button"
+                          onClick={() => onUpdateTake(take.id, { rating: take.rating === star ? 0 : star })}
+                          className={star <= take.rating ? 'text-yellow-400' : 'text-gray-600'}
+                        >
+                          ★
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex gap-1 mt-1">
+                    <Button variant="secondary" className="px-1.5 py-0.5 text-xs" disabled={disabled} onClick={() => onPlay([take.id], levelMatch)}>
+                      ▶
+                    </Button>
+                    <Button
+                      variant={slotA === take.id ? 'primary' : 'secondary'}
+                      className="px-1.5 py-0.5 text-xs"
+                      disabled={disabled}
+                      onClick={() => setSlotA(take.id)}
+                      title="Kijelölés A-ként"
+                    >
+                      A
+                    </Button>
+                    <Button
+                      variant={slotB === take.id ? 'primary' : 'secondary'}
+                      className="px-1.5 py-0.5 text-xs"
+                      disabled={disabled}
+                      onClick={() => setSlotB(take.id)}
+                      title="Kijelölés B-ként"
+                    >
+                      B
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      className="flex-1 px-1.5 py-0.5 text-xs"
+                      disabled={disabled}
+                      onClick={() => onPin(take.id, pinTarget || null)}
+                      title="A hang beállítása a kiválasztott narrátornak vagy szereplőnek"
+                    >
+                      Rögzítés: {pinTarget || 'narrátor'}
+                    </Button>
+                    <Button variant="danger" className="px-1.5 py-0.5 text-xs" disabled={disabled} onClick={() => onRemoveTake(take.id)} title="Változat törlése">
+                      ✕
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            <div className="grid grid-cols-4 gap-1">
+              <Button variant="secondary" className="px-1.5 py-1 text-xs" disabled={disabled || !hasTake(slotA)} onClick={() => onPlay([slotA!], levelMatch)}>
+                A
+              </Button>
+              <Button variant="secondary" className="px-1.5 py-1 text-xs" disabled={disabled || !hasTake(slotB)} onClick={() => onPlay([slotB!], levelMatch)}>
+                B
+              </Button>
+              <Button variant="secondary" className="px-1.5 py-1 text-xs" disabled={disabled || !hasTake(slotA) || !hasTake(slotB)} onClick={() => onPlay([slotA!, slotB!], levelMatch)}>
+                A → B
+              </Button>
+              <Button variant="secondary" className="px-1.5 py-1 text-xs" onClick={onStop}>
+                ■
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-1">
+              <Button variant="secondary" className="px-2 py-1 text-xs" disabled={disabled || visibleTakes.length === 0} onClick={() => onPlay(visibleTakes.map(take => take.id), levelMatch)}>
+                Mind egymás után
+              </Button>
+              <Button variant="danger" className="px-2 py-1 text-xs" disabled={disabled} onClick={onClearTakes}>
+                Változatok törlése
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default VoiceAuditionPanel;
@@ -0,0 +1,125 @@
+// components/VoiceSelector.tsx
+import React, { useState } from 'react';
+import { TtsVoice } from '../services/ttsProvider';
+import {
+  EMPTY_VOICE_CATALOG_FILTERS,
+  filterVoiceCatalog,
+  VOICE_GENDER_LABELS,
+  VOICE_GENRE_LABELS,
+  VOICE_PITCH_LABELS,
+  VoiceCatalogFilters,
+} from '../utils/voiceCatalog';
+
+interface VoiceSelectorProps {
+  voices: TtsVoice[];
+  selectedVoice: string;
+  favorites: string[];
+  disabled?: boolean;
+  onSelect: (voice: string) => void; // Selects the voice and plays a sample
+  onToggleFavorite: (voice: string) => void;
+}
+
+const toggle = <T,>(values: T[], value: T) => (values.includes(value) ? values.filter(v => v !== value) : [...values, value]);
+
+const VoiceSelector: React.FC<VoiceSelectorProps> = ({
+  voices,
+  selectedVoice,
+  favorites,
+  disabled = false,
+  onSelect,
+  onToggleFavorite,
+}) => {
+  const [filters, setFilters] = useState<VoiceCatalogFilters>(EMPTY_VOICE_CATALOG_FILTERS);
+  const visibleVoices = filterVoiceCatalog(voices, filters, favorites);
+
+  // The language filter only helps when the voices do not all speak the same languages
+  const languageSets = new Set(voices.map(voice => [...(voice.profile?.languages ?? [])].sort().join(',')));
+  const languages = [...new Set<string>(voices.flatMap(voice => voice.profile?.languages ?? []))].sort();
+
+  const updateFilters = (changes: Partial<VoiceCatalogFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(EMPTY_VOICE_CATALOG_FILTERS);
+
+  const chip = (label: string, active: boolean, onClick: () => void) => (
+    <button
+      key={label}
+      type="button"
+      onClick={onClick}
+      className={`px-2 py-0.5 rounded-full border text-xs ${
+        active ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-800 border-gray-600 text-gray-300'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => updateFilters({ query: e.target.value })}
+          placeholder="Keresés név, jelleg vagy műfaj szerint"
+          className="flex-1 p-1.5 border border-gray-600 rounded-lg bg-gray-800 text-gray-100 text-sm focus:ring-blue-500 focus:border-blue-500"
+        />
+        {languageSets.size > 1 && (
+          <select
+            value={filters.language}
+            onChange={(e) => updateFilters({ language: e.target.value })}
+            className="p-1 border border-gray-600 rounded-lg bg-gray-800 text-gray-100 text-sm"
+          >
+            <option value="">Minden nyelv</option>
+            {languages.map(language => <option key={language} value={language}>{language.toUpperCase()}</option>)}
+          </select>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {chip('♥ Kedvencek', filters.favoritesOnly, () => updateFilters({ favoritesOnly: !filters.favoritesOnly }))}
+        {(Object.keys(VOICE_GENDER_LABELS) as (keyof typeof VOICE_GENDER_LABELS)[]).map(gender =>
+          chip(VOICE_GENDER_LABELS[gender], filters.genders.includes(gender), () => updateFilters({ genders: toggle(filters.genders, gender) })))}
+        {(Object.keys(VOICE_PITCH_LABELS) as (keyof typeof VOICE_PITCH_LABELS)[]).map(pitch =>
+          chip(VOICE_PITCH_LABELS[pitch], filters.pitches.includes(pitch), () => updateFilters({ pitches: toggle(filters.pitches, pitch) })))}
+        {(Object.keys(VOICE_GENRE_LABELS) as (keyof typeof VOICE_GENRE_LABELS)[]).map(genre =>
+          chip(VOICE_GENRE_LABELS[genre], filters.genres.includes(genre), () => updateFilters({ genres: toggle(filters.genres, genre) })))}
+        {isFiltered && chip('✕ Szűrők törlése', false, () => setFilters(EMPTY_VOICE_CATALOG_FILTERS))}
+      </div>
+
+      {visibleVoices.length === 0 ? (
+        <p className="text-xs text-gray-400">Nincs a szűrőknek megfelelő hang.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {visibleVoices.map(voice => {
+            const isSelected = selectedVoice === voice.value;
+            const isFavorite = favorites.includes(voice.value);
+            return (
+              <div
+                key={voice.value}
+                className={`flex items-center bg-gray-700 rounded-lg border border-gray-600 transition-all duration-200 hover:scale-[1.02] active:scale-100
+                            ${isSelected ? 'ring-2 ring-blue-500 shadow-lg scale-105' : ''} ${disabled ? 'opacity-60' : 'cursor-pointer'}`}
+                onClick={() => { if (!disabled) onSelect(voice.value); }}
+                title={voice.profile
+                  ? `${VOICE_GENDER_LABELS[voice.profile.gender]}, ${VOICE_PITCH_LABELS[voice.profile.pitch].toLowerCase()} hang · ${voice.profile.genres.map(genre => VOICE_GENRE_LABELS[genre]).join(', ')}`
+                  : undefined}
+              >
+                <div className="px-3 py-1">
+                  <p className="text-sm text-gray-100">{voice.name}</p>
+                  {voice.profile && <p className="text-[10px] text-gray-400">{voice.profile.descriptors.join(', ')}</p>}
+                </div>
+                <button
+                  type="button"
+                  onClick={(e) => { e.stopPropagation(); onToggleFavorite(voice.value); }}
+                  className={`pr-2 text-sm ${isFavorite ? 'text-yellow-400' : 'text-gray-500 hover:text-gray-300'}`}
+                  title={isFavorite ? 'Eltávolítás a kedvencek közül' : 'Hozzáadás a kedvencekhez'}
+                >
+                  ♥
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VoiceSelector;
@@ -1,47 +1,57 @@
 // constants.ts
+import type { TtsVoice } from './services/ttsProvider';
 
 export const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
 export const LIVE_AUDIO_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+export const TEXT_ANALYSIS_MODEL = 'gemini-2.5-flash'; // Dialogue attribution and other text analysis
 
 export const INPUT_AUDIO_SAMPLE_RATE = 16000; // Microphone sample rate
 export const OUTPUT_AUDIO_SAMPLE_RATE = 24000; // Gemini TTS output sample rate
 export const NUM_AUDIO_CHANNELS = 1;
 export const AUDIO_CHUNK_SIZE = 4096; // ScriptProcessorNode buffer size
 
+// Every Gemini TTS voice speaks all of these; the model detects the language of the text
+const GEMINI_TTS_LANGUAGES = [
+  'hu', 'en', 'de', 'fr', 'es', 'it', 'pt', 'nl', 'pl', 'ro', 'ru', 'uk',
+  'tr', 'ar', 'hi', 'bn', 'mr', 'ta', 'te', 'ja', 'ko', 'id', 'th', 'vi',
+];
+
 // FIX: This list is now meticulously updated to ONLY and EXACTLY include voice names
 // explicitly allowed by the Gemini TTS API, as per the repeated error messages.
 // This should finally resolve all 'Voice name is not supported' errors.
-export const TTS_VOICES = [
-  { name: 'Achernar', value: 'achernar' },
-  { name: 'Achird', value: 'achird' },
-  { name: 'Algenib', value: 'algenib' },
-  { name: 'Algieba', value: 'algieba' },
-  { name: 'Alnilam', value: 'alnilam' },
-  { name: 'Aoede', value: 'aoede' },
-  { name: 'Autonoe', value: 'autonoe' },
-  { name: 'Callirrhoe', value: 'callirrhoe' },
-  { name: 'Charon', value: 'charon' },
-  { name: 'Despina', value: 'despina' },
-  { name: 'Enceladus', value: 'enceladus' },
-  { name: 'Erinome', value: 'erinome' },
-  { name: 'Fenrir', value: 'fenrir' },
-  { name: 'Gacrux', value: 'gacrux' },
-  { name: 'Iapetus', value: 'iapetus' },
-  { name: 'Kore', value: 'kore' },
-  { name: 'Laomedeia', value: 'laomedeia' },
-  { name: 'Leda', value: 'leda' },
-  { name: 'Orus', value: 'orus' },
-  { name: 'Puck', value: 'puck' },
-  { name: 'Pulcherrima', value: 'pulcherrima' },
-  { name: 'Rasalgethi', value: 'rasalgethi' },
-  { name: 'Sadachbia', value: 'sadachbia' },
-  { name: 'Sadaltager', value: 'sadaltager' },
-  { name: 'Schedar', value: 'schedar' },
-  { name: 'Sulafat', value: 'sulafat' },
-  { name: 'Umbriel', value: 'umbriel' },
-  { name: 'Vindemiatrix', value: 'vindemiatrix' },
-  { name: 'Zephyr', value: 'zephyr' },
-  { name: 'Zubenelgenubi', value: 'zubenelgenubi' },
+// The first descriptor of each voice translates Google's own one-word characterization; gender,
+// pitch, the further descriptors and the genres are editorial estimates meant to narrow the search.
+export const TTS_VOICES: TtsVoice[] = [
+  { name: 'Achernar', value: 'achernar', profile: { gender: 'female', pitch: 'high', descriptors: ['lágy', 'szelíd'], genres: ['romance', 'children', 'poetry'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Achird', value: 'achird', profile: { gender: 'male', pitch: 'medium', descriptors: ['barátságos', 'közvetlen'], genres: ['fiction', 'children', 'nonfiction'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Algenib', value: 'algenib', profile: { gender: 'male', pitch: 'low', descriptors: ['reszelős', 'érdes'], genres: ['thriller', 'fantasy'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Algieba', value: 'algieba', profile: { gender: 'male', pitch: 'low', descriptors: ['bársonyos', 'nyugodt'], genres: ['romance', 'fiction', 'poetry'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Alnilam', value: 'alnilam', profile: { gender: 'male', pitch: 'low', descriptors: ['határozott', 'tárgyilagos'], genres: ['nonfiction', 'thriller'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Aoede', value: 'aoede', profile: { gender: 'female', pitch: 'medium', descriptors: ['könnyed', 'légies'], genres: ['fiction', 'romance'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Autonoe', value: 'autonoe', profile: { gender: 'female', pitch: 'medium', descriptors: ['világos', 'élénk'], genres: ['children', 'nonfiction'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Callirrhoe', value: 'callirrhoe', profile: { gender: 'female', pitch: 'medium', descriptors: ['laza', 'kiegyensúlyozott'], genres: ['fiction', 'nonfiction'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Charon', value: 'charon', profile: { gender: 'male', pitch: 'low', descriptors: ['tájékoztató', 'tekintélyt sugárzó'], genres: ['nonfiction', 'thriller'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Despina', value: 'despina', profile: { gender: 'female', pitch: 'medium', descriptors: ['bársonyos', 'meleg'], genres: ['romance', 'poetry'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Enceladus', value: 'enceladus', profile: { gender: 'male', pitch: 'low', descriptors: ['leheletszerű', 'bizalmas'], genres: ['thriller', 'romance', 'poetry'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Erinome', value: 'erinome', profile: { gender: 'female', pitch: 'medium', descriptors: ['tiszta', 'pontos'], genres: ['nonfiction', 'fiction'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Fenrir', value: 'fenrir', profile: { gender: 'male', pitch: 'medium', descriptors: ['izgatott', 'lendületes'], genres: ['fantasy', 'thriller', 'children'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Gacrux', value: 'gacrux', profile: { gender: 'female', pitch: 'low', descriptors: ['érett', 'megfontolt'], genres: ['fiction', 'nonfiction'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Iapetus', value: 'iapetus', profile: { gender: 'male', pitch: 'medium', descriptors: ['tiszta', 'közvetlen'], genres: ['nonfiction', 'fiction'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Kore', value: 'kore', profile: { gender: 'female', pitch: 'medium', descriptors: ['határozott', 'magabiztos'], genres: ['fiction', 'nonfiction', 'thriller'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Laomedeia', value: 'laomedeia', profile: { gender: 'female', pitch: 'high', descriptors: ['vidám', 'lendületes'], genres: ['children', 'fantasy'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Leda', value: 'leda', profile: { gender: 'female', pitch: 'high', descriptors: ['fiatalos', 'friss'], genres: ['children', 'fantasy', 'romance'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Orus', value: 'orus', profile: { gender: 'male', pitch: 'low', descriptors: ['határozott', 'mély'], genres: ['thriller', 'fantasy', 'nonfiction'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Puck', value: 'puck', profile: { gender: 'male', pitch: 'medium', descriptors: ['vidám', 'játékos'], genres: ['children', 'fantasy'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Pulcherrima', value: 'pulcherrima', profile: { gender: 'female', pitch: 'medium', descriptors: ['előremutató', 'kifejező'], genres: ['fiction', 'fantasy'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Rasalgethi', value: 'rasalgethi', profile: { gender: 'male', pitch: 'medium', descriptors: ['tájékoztató', 'magyarázó'], genres: ['nonfiction'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Sadachbia', value: 'sadachbia', profile: { gender: 'male', pitch: 'medium', descriptors: ['eleven', 'élénk'], genres: ['children', 'fantasy', 'fiction'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Sadaltager', value: 'sadaltager', profile: { gender: 'male', pitch: 'medium', descriptors: ['tájékozott', 'bölcs'], genres: ['nonfiction', 'fiction'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Schedar', value: 'schedar', profile: { gender: 'male', pitch: 'medium', descriptors: ['kiegyensúlyozott', 'egyenletes'], genres: ['fiction', 'nonfiction'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Sulafat', value: 'sulafat', profile: { gender: 'female', pitch: 'medium', descriptors: ['meleg', 'hívogató'], genres: ['romance', 'children', 'poetry'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Umbriel', value: 'umbriel', profile: { gender: 'male', pitch: 'low', descriptors: ['laza', 'nyugodt'], genres: ['fiction', 'nonfiction'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Vindemiatrix', value: 'vindemiatrix', profile: { gender: 'female', pitch: 'medium', descriptors: ['szelíd', 'gyengéd'], genres: ['poetry', 'romance', 'children'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Zephyr', value: 'zephyr', profile: { gender: 'female', pitch: 'high', descriptors: ['világos', 'ragyogó'], genres: ['fiction', 'children', 'fantasy'], languages: GEMINI_TTS_LANGUAGES } },
+  { name: 'Zubenelgenubi', value: 'zubenelgenubi', profile: { gender: 'male', pitch: 'low', descriptors: ['hétköznapi', 'laza'], genres: ['fiction', 'thriller'], languages: GEMINI_TTS_LANGUAGES } },
 ];
 
 // New constants for video export
@@ -68,10 +78,17 @@ export const VIDEO_BITRATES = [
 // FIX: Add a constant for the maximum TTS text length (in characters, roughly proportional to tokens)
 export const MAX_TTS_TEXT_LENGTH_CHARS = 4000; // Drastically reduced for safety. (Previous 6000 was too high)
 
+// Long manuscripts are split into segments of at most this many characters before synthesis.
+// Kept well below MAX_TTS_TEXT_LENGTH_CHARS so a single failed request loses little work.
+export const TTS_SEGMENT_MAX_CHARS = 1500;
+
 // FIX: Add a placeholder for Freemium Image Generator API configuration
 // This is conceptual, as client-side image generation from external APIs without backend is complex/paid.
 export const FREEMIUM_IMAGE_GENERATOR_CONFIG = {
   API_ENDPOINT: 'https://api.example.com/freemium-image-gen', // Placeholder
   API_KEY_PLACEHOLDER: 'YOUR_FREEMIUM_API_KEY_HERE', // Placeholder
   INFO_MESSAGE: 'Ez egy szimulált képgenerátor API integráció. A valós AI képgenerálás általában fizetős szolgáltatásokat igényel. Jelenleg ingyenes placeholder képeket használunk.',
-};
\ No newline at end of file
+};
+
+// TTS audio cache (IndexedDB). 24 kHz mono 16-bit PCM is ~2.9 MB per minute of narration.
+export const AUDIO_CACHE_DEFAULT_LIMIT_MB = 500;
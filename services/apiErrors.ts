@@ -0,0 +1,109 @@
+// services/apiErrors.ts
+// Typed service errors. SDK, HTTP and browser failures are classified once here, so callers can
+// decide on retrying or stopping by kind instead of matching message strings.
+import { isAbortError } from '../utils/abort';
+
+export type ApiErrorKind =
+  | 'quota'         // Rate limit or exhausted quota (429)
+  | 'auth'          // Missing/invalid API key, billing or permission problem
+  | 'safety-block'  // The model refused the text
+  | 'network'       // Connection failure or temporary server error
+  | 'invalid-voice' // The requested voice does not exist
+  | 'too-long'      // The text exceeds the request limit
+  | 'cancelled'     // Aborted by the user
+  | 'unknown';
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly retryable: boolean;      // Repeating the same request may succeed
+  readonly status?: number;         // HTTP status, when the failure came from a response
+  readonly retryDelayMs?: number;   // Server-requested wait before retrying
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    options: { retryable?: boolean; status?: number; retryDelayMs?: number; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+    this.retryDelayMs = options.retryDelayMs;
+  }
+}
+
+// Localized guidance shown to the user for each kind
+export const API_ERROR_GUIDANCE: Record<ApiErrorKind, string> = {
+  quota: 'Elérte az API kérés- vagy kvótakorlátját. Várjon egy kicsit, csökkentse a párhuzamos kérések számát, vagy ellenőrizze a kvótáját.',
+  auth: 'API kulcs vagy számlázási probléma. Kérjük, ellenőrizze Gemini API kulcsát és számlázási beállításait, vagy frissítsen Pro verzióra.',
+  'safety-block': 'A modell biztonsági okból elutasította a szöveget. Kérjük, próbálja meg átfogalmazni.',
+  network: 'Hálózati kapcsolat megszakadt, vagy a szerver nem elérhető. Kérjük, ellenőrizze az internetkapcsolatot.',
+  'invalid-voice': 'A kiválasztott hang nem érhető el ennél a szolgáltatónál. Kérjük, válasszon másik hangot.',
+  'too-long': 'A szöveg túl hosszú. Kérjük, rövidebb szöveget használjon.',
+  cancelled: 'Műveletet a felhasználó megszakította.',
+  unknown: 'Ismeretlen hiba.',
+};
+
+const RATE_LIMIT_FALLBACK_DELAY_MS = 30000;
+
+// A property of a thrown value that may not be an object at all
+const errorField = (error: unknown, key: string): unknown =>
+  typeof error === 'object' && error !== null ? (error as Record<string, unknown>)[key] : undefined;
+
+function getErrorStatus(error: unknown): number | undefined {
+  const status = Number(errorField(error, 'status') ?? errorField(error, 'code') ?? errorField(errorField(error, 'error'), 'code'));
+  return Number.isInteger(status) && status >= 100 ? status : undefined;
+}
+
+/**
+ * Extracts the server-requested wait from a rate limit error, e.g. `"retryDelay": "37s"`
+ * in the RetryInfo details or "Please retry in 37.5s." in the message.
+ * @returns The delay in milliseconds, or null if the error does not carry one.
+ */
+function getRetryDelayMs(error: unknown): number | null {
+  const message = String(errorField(error, 'message') ?? '');
+  const match = message.match(/retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/) ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(Number(match[1]) * 1000) : null;
+}
+
+/**
+ * Maps any thrown value to an ApiError. Already classified errors are returned unchanged.
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (isAbortError(error)) {
+    return new ApiError('cancelled', API_ERROR_GUIDANCE.cancelled, { cause: error });
+  }
+
+  const status = getErrorStatus(error);
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  const make = (kind: ApiErrorKind, retryable: boolean, retryDelayMs?: number) =>
+    new ApiError(kind, message || API_ERROR_GUIDANCE[kind], { retryable, status, retryDelayMs, cause: error });
+
+  if (error instanceof TypeError && /Failed to fetch|NetworkError|Load failed|network/i.test(message)) {
+    return make('network', true);
+  }
+  if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|rate limit|Quota exceeded/i.test(message)) {
+    // A daily quota does not come back within a retry window
+    const daily = /per[ _]?day|daily/i.test(message);
+    return make('quota', !daily, daily ? undefined : getRetryDelayMs(error) ?? RATE_LIMIT_FALLBACK_DELAY_MS);
+  }
+  if (status === 401 || status === 403 || /API[_ ]?key|PERMISSION_DENIED|UNAUTHENTICATED|Billing account not enabled|Requested entity was not found/i.test(message)) {
+    return make('auth', false);
+  }
+  if (/safety|SAFETY|PROHIBITED_CONTENT|blockReason|unsupported content/.test(message)) {
+    return make('safety-block', false);
+  }
+  if (/voice/i.test(message) && (status === 400 || /invalid|not (found|supported)|unknown/i.test(message))) {
+    return make('invalid-voice', false);
+  }
+  if (/too (long|large)|too many tokens|exceeds the maximum|token limit/i.test(message)) {
+    return make('too-long', false);
+  }
+  if ((status !== undefined && status >= 500) || /UNAVAILABLE|DEADLINE_EXCEEDED|INTERNAL|overloaded|timed? ?out/i.test(message)) {
+    return make('network', true);
+  }
+  // Unclassified failures are mostly programming errors, which a retry only repeats
+  return make('unknown', false);
+}
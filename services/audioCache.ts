@@ -0,0 +1,193 @@
+// services/audioCache.ts
+// Content-addressed cache for synthesized speech. Identical (text, voice, model, style) requests
+// are answered from IndexedDB instead of the TTS API. PCM and metadata live in separate stores,
+// so listing and LRU eviction never have to load audio.
+import { deserializeAudioBuffer, serializeAudioBuffer } from '../utils/audioUtils';
+import {
+  STORE_AUDIO_CACHE,
+  STORE_AUDIO_CACHE_INDEX,
+  idbDeleteMany,
+  idbGet,
+  idbGetAll,
+  idbPut,
+  openAppDatabase,
+  requestToPromise,
+} from '../utils/indexedDb';
+import { AUDIO_CACHE_DEFAULT_LIMIT_MB, TTS_MODEL } from '../constants';
+import { SerializedAudio } from '../types';
+
+const CACHE_LIMIT_STORAGE_KEY = 'audioCacheLimitMb';
+const TEXT_PREVIEW_LENGTH = 80;
+
+export interface AudioCacheKeyParts {
+  text: string;
+  voice: string;
+  model?: string; // Defaults to TTS_MODEL
+  style?: string; // Style settings sent along with the text (empty if none)
+}
+
+export interface AudioCacheEntryInfo {
+  key: string;
+  textPreview: string;
+  voice: string;
+  model: string;
+  style: string;
+  duration: number;   // Seconds
+  byteSize: number;
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+}
+
+interface AudioCacheRecord extends SerializedAudio {
+  key: string;
+}
+
+export interface AudioCacheStats {
+  hits: number;   // Cache hits in this browser session
+  misses: number;
+}
+
+const sessionStats: AudioCacheStats = { hits: 0, misses: 0 };
+
+// Running total of the cached PCM bytes, so writes only scan the index when eviction is due.
+// Null until first needed, and again after deletions made without knowing the sizes.
+let totalBytesPromise: Promise<number> | null = null;
+
+const getTotalBytes = () => {
+  totalBytesPromise ??= idbGetAll<AudioCacheEntryInfo>(STORE_AUDIO_CACHE_INDEX)
+    .then(entries => entries.reduce((acc, entry) => acc + entry.byteSize, 0))
+    .catch(err => {
+      totalBytesPromise = null;
+      throw err;
+    });
+  return totalBytesPromise;
+};
+
+const adjustTotalBytes = (delta: number) => {
+  if (totalBytesPromise) totalBytesPromise = totalBytesPromise.then(total => total + delta);
+};
+
+// Whitespace and Unicode normalization only: anything that changes pronunciation must change the key
+export function normalizeTextForCache(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Computes the cache key: a SHA-256 hex digest of the normalized request parameters.
+ */
+export async function computeAudioCacheKey(parts: AudioCacheKeyParts): Promise<string> {
+  const payload = JSON.stringify([
+    normalizeTextForCache(parts.text),
+    parts.voice.toLowerCase(),
+    parts.model ?? TTS_MODEL,
+    parts.style?.trim() ?? '',
+  ]);
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function getAudioCacheLimitMb(): number {
+  const saved = Number(globalThis.localStorage.getItem(CACHE_LIMIT_STORAGE_KEY));
+  return saved > 0 ? saved : AUDIO_CACHE_DEFAULT_LIMIT_MB;
+}
+
+export async function setAudioCacheLimitMb(limitMb: number): Promise<void> {
+  globalThis.localStorage.setItem(CACHE_LIMIT_STORAGE_KEY, String(limitMb));
+  await evictAudioCache();
+}
+
+export function getAudioCacheStats(): AudioCacheStats {
+  return { ...sessionStats };
+}
+
+/**
+ * Returns the cached audio for a key (and marks it as recently used), or null on a miss.
+ */
+export async function getCachedAudio(key: string): Promise<AudioBuffer | null> {
+  // The LRU update is written in the same transaction as the read
+  const db = await openAppDatabase();
+  const transaction = db.transaction([STORE_AUDIO_CACHE, STORE_AUDIO_CACHE_INDEX], 'readwrite');
+  const indexStore = transaction.objectStore(STORE_AUDIO_CACHE_INDEX);
+  const [info, record] = await Promise.all([
+    requestToPromise<AudioCacheEntryInfo | undefined>(indexStore.get(key)),
+    requestToPromise<AudioCacheRecord | undefined>(transaction.objectStore(STORE_AUDIO_CACHE).get(key)),
+  ]);
+  if (!info || !record) {
+    sessionStats.misses++;
+    return null;
+  }
+  sessionStats.hits++;
+  await requestToPromise(indexStore.put({ ...info, lastUsedAt: Date.now(), hits: info.hits + 1 }));
+  return deserializeAudioBuffer(record);
+}
+
+/**
+ * Stores synthesized audio under its key and evicts least recently used entries above the size limit.
+ */
+export async function putCachedAudio(key: string, parts: AudioCacheKeyParts, buffer: AudioBuffer): Promise<void> {
+  const serialized = serializeAudioBuffer(buffer);
+  const now = Date.now();
+  const normalizedText = normalizeTextForCache(parts.text);
+  const info: AudioCacheEntryInfo = {
+    key,
+    textPreview: normalizedText.length > TEXT_PREVIEW_LENGTH ? `${normalizedText.slice(0, TEXT_PREVIEW_LENGTH)}…` : normalizedText,
+    voice: parts.voice,
+    model: parts.model ?? TTS_MODEL,
+    style: parts.style?.trim() ?? '',
+    duration: buffer.duration,
+    byteSize: serialized.channels.reduce((acc, channel) => acc + channel.byteLength, 0),
+    createdAt: now,
+    lastUsedAt: now,
+    hits: 0,
+  };
+  const replaced = await idbGet<AudioCacheEntryInfo>(STORE_AUDIO_CACHE_INDEX, key);
+  await idbPut(STORE_AUDIO_CACHE, { key, ...serialized });
+  await idbPut(STORE_AUDIO_CACHE_INDEX, info);
+  adjustTotalBytes(info.byteSize - (replaced?.byteSize ?? 0));
+  if ((await getTotalBytes()) > getAudioCacheLimitMb() * 1024 * 1024) await evictAudioCache();
+}
+
+/**
+ * Deletes least recently used entries until the cache fits into the configured limit.
+ * @returns The number of evicted entries.
+ */
+export async function evictAudioCache(): Promise<number> {
+  const limitBytes = getAudioCacheLimitMb() * 1024 * 1024;
+  const entries = await listAudioCacheEntries();
+  let totalBytes = entries.reduce((acc, entry) => acc + entry.byteSize, 0);
+  const evicted: string[] = [];
+
+  // Oldest use first
+  for (const entry of [...entries].sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+    if (totalBytes <= limitBytes) break;
+    evicted.push(entry.key);
+    totalBytes -= entry.byteSize;
+  }
+  await deleteAudioCacheEntries(evicted);
+  totalBytesPromise = Promise.resolve(totalBytes);
+  return evicted.length;
+}
+
+// Most recently used first
+export async function listAudioCacheEntries(): Promise<AudioCacheEntryInfo[]> {
+  const entries = await idbGetAll<AudioCacheEntryInfo>(STORE_AUDIO_CACHE_INDEX);
+  return entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+}
+
+export async function deleteAudioCacheEntries(keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+  await idbDeleteMany(STORE_AUDIO_CACHE_INDEX, keys);
+  await idbDeleteMany(STORE_AUDIO_CACHE, keys);
+  totalBytesPromise = null; // Recounted when next needed
+}
+
+export async function clearAudioCache(): Promise<void> {
+  const db = await openAppDatabase();
+  const transaction = db.transaction([STORE_AUDIO_CACHE, STORE_AUDIO_CACHE_INDEX], 'readwrite');
+  await Promise.all([
+    requestToPromise(transaction.objectStore(STORE_AUDIO_CACHE).clear()),
+    requestToPromise(transaction.objectStore(STORE_AUDIO_CACHE_INDEX).clear()),
+  ]);
+  totalBytesPromise = Promise.resolve(0);
+}
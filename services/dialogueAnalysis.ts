@@ -0,0 +1,70 @@
+// services/dialogueAnalysis.ts
+import { attributeDialogueWithModel } from './geminiService';
+import {
+  DialogueLine,
+  attributeDialogueHeuristically,
+  extractDialogueLines,
+  listAttributedCharacters,
+} from '../utils/dialogueAttribution';
+import { suggestCastForSpeakers } from '../utils/casting';
+import { CastMember } from '../types';
+
+const MODEL_BATCH_SIZE = 60; // Dialogue lines per text-model request
+
+export interface DialogueAnalysisResult {
+  lines: DialogueLine[];
+  proposedCast: CastMember[]; // Characters not yet in the cast, with suggested voices
+  usedModel: boolean;         // False if the heuristic fallback produced the attribution
+}
+
+/**
+ * Detects the dialogue of a manuscript and attributes every line to a character.
+ * The Gemini text model is tried first; if it fails, the deterministic heuristic is used.
+ * Lines the model leaves unattributed are filled in by the heuristic as well.
+ */
+export async function analyzeDialogue(
+  text: string,
+  cast: CastMember[],
+  narratorVoice: string,
+  voices: string[] // Of the active TTS provider, for the proposed cast
+): Promise<DialogueAnalysisResult> {
+  const detectedLines = extractDialogueLines(text);
+  const knownCharacters = cast.map(member => member.character);
+  const heuristicLines = attributeDialogueHeuristically(detectedLines, knownCharacters);
+
+  let lines = heuristicLines;
+  let usedModel = false;
+
+  if (detectedLines.length > 0) {
+    try {
+      const modelSpeakers = new Map<number, { speaker: string | null; confidence: number }>();
+      for (let start = 0; start < detectedLines.length; start += MODEL_BATCH_SIZE) {
+        const batch = detectedLines.slice(start, start + MODEL_BATCH_SIZE);
+        const attributions = await attributeDialogueWithModel(batch, knownCharacters);
+        for (const attribution of attributions) {
+          modelSpeakers.set(attribution.id, attribution);
+        }
+      }
+
+      lines = heuristicLines.map(line => {
+        const attribution = modelSpeakers.get(line.id);
+        const speaker = attribution?.speaker?.trim();
+        return speaker
+          ? { ...line, speaker, confidence: attribution!.confidence, source: 'model' as const }
+          : line;
+      });
+      usedModel = true;
+    } catch (err) {
+      console.warn('A párbeszéd-hozzárendelés a modellel nem sikerült, heurisztika használata:', err);
+    }
+  }
+
+  const proposedCast = suggestCastForSpeakers(
+    listAttributedCharacters(lines),
+    cast,
+    narratorVoice,
+    voices,
+  );
+
+  return { lines, proposedCast, usedModel };
+}
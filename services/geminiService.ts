@@ -2,9 +2,12 @@
 // FIX: Removed unused 'Chat' import and 'Blob as GenAIBlob' import as it's no longer necessary or used directly here.
 import { GoogleGenAI, LiveSession, LiveServerMessage, Modality, FunctionDeclaration, Type, Blob as GeminiApiBlob } from '@google/genai';
 import { createPcmBlob, decodeAudioData, decodeBase64 } from '../utils/audioUtils';
+import { abortableDelay, createAbortError, throwIfAborted } from '../utils/abort';
+import { ApiError, toApiError } from './apiErrors';
 import {
   TTS_MODEL,
   LIVE_AUDIO_MODEL,
+  TEXT_ANALYSIS_MODEL,
   OUTPUT_AUDIO_SAMPLE_RATE,
   NUM_AUDIO_CHANNELS,
   INPUT_AUDIO_SAMPLE_RATE,
@@ -38,12 +41,15 @@ const getGeminiClient = (): GoogleGenAI => {
 
 /**
  * Connects to the Gemini Live API session.
+ * Aborting the signal cancels a pending connection or closes the open session.
  */
 export async function connectLiveSession(
   callbacks: LiveSessionCallbacks,
   enableTranscription: boolean, // New parameter for transcription toggle
-  mainAudioContext: AudioContext // Pass the main AudioContext
+  mainAudioContext: AudioContext, // Pass the main AudioContext
+  abortSignal?: AbortSignal
 ): Promise<LiveSession> {
+  throwIfAborted(abortSignal);
   const genAI = getGeminiClient();
 
   // Reset transcriptions for new session
@@ -57,6 +63,7 @@ export async function connectLiveSession(
       voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } }, // Changed default voice
     },
     systemInstruction: 'You are a friendly and helpful assistant. For audiobook creation, you will read the provided text aloud. In conversational mode, you will engage in a natural dialogue.',
+    abortSignal,
   };
 
   if (enableTranscription) {
@@ -125,7 +132,15 @@ export async function connectLiveSession(
     },
     config: liveConfig,
   });
-  return sessionPromise;
+  const session = await sessionPromise;
+  if (abortSignal) {
+    if (abortSignal.aborted) {
+      session.close();
+      throwIfAborted(abortSignal);
+    }
+    abortSignal.addEventListener('abort', () => session.close(), { once: true });
+  }
+  return session;
 }
 
 /**
@@ -135,36 +150,60 @@ export async function sendTextInput(session: LiveSession, text: string): Promise
   await session.sendRealtimeInput({ message: text });
 }
 
+export interface TextToSpeechOptions {
+  styleDirection?: string; // Natural-language delivery instruction, e.g. "whispering, slowly"
+  maxRetries?: number;
+  onRateLimited?: (retryDelayMs: number) => void; // Called when the API answers 429, before waiting
+  beforeAttempt?: () => Promise<void>; // Awaited before the first request and every retry
+  abortSignal?: AbortSignal; // Cancels the request, the stream and any pending retry
+}
+
+// Finish reasons with which the model refuses to speak the text
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII']);
+
 /**
  * Sends text to the Gemini TTS model (not Live API) for single-shot audiobook generation.
  * This is an alternative to Live API for cases where full conversation isn't needed,
  * but the prompt indicates Live API for "conversational voice apps", so this might be redundant
  * if Live API is used for both. Let's keep it in case a simpler TTS is preferred for pure text reading.
+ * Failures are thrown as ApiError; only retryable kinds are retried.
  */
 export async function generateTextToSpeech(
   text: string,
   voiceName: string = 'Kore',
   mainAudioContext: AudioContext,
-  maxRetries: number = 2
+  options: TextToSpeechOptions = {}
 ): Promise<AudioBuffer[]> {
+  const { styleDirection = '', maxRetries = 2, onRateLimited, beforeAttempt, abortSignal } = options;
   const genAI = getGeminiClient();
-  const audioBuffers: AudioBuffer[] = [];
   let attempts = 0;
+  // The TTS model follows a leading delivery instruction without reading it aloud
+  const prompt = styleDirection.trim() ? `Read the following text aloud in this style: ${styleDirection.trim()}.\n\n${text}` : text;
 
   while (attempts <= maxRetries) {
+    throwIfAborted(abortSignal);
+    // Chunks of a stream that broke off are discarded, the retry starts from scratch
+    const audioBuffers: AudioBuffer[] = [];
     try {
+      await beforeAttempt?.();
       const response = await genAI.models.generateContentStream({
         model: TTS_MODEL,
-        contents: [{ parts: [{ text: text }] }],
+        contents: [{ parts: [{ text: prompt }] }],
         config: {
           responseModalities: [Modality.AUDIO],
           speechConfig: {
             voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName } },
           },
+          abortSignal,
         },
       });
 
+      let blockReason: string | undefined;
       for await (const chunk of response) {
+        throwIfAborted(abortSignal);
+        const finishReason = chunk.candidates?.[0]?.finishReason;
+        blockReason = chunk.promptFeedback?.blockReason
+          ?? (finishReason && BLOCKED_FINISH_REASONS.has(finishReason) ? finishReason : blockReason);
         const base64Audio = chunk.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
         if (base64Audio) {
           const audioBuffer = await decodeAudioData(
@@ -176,18 +215,31 @@ export async function generateTextToSpeech(
           audioBuffers.push(audioBuffer);
         }
       }
+      if (audioBuffers.length === 0 && blockReason) {
+        throw new ApiError('safety-block', `Speech generation was blocked (${blockReason}).`);
+      }
       return audioBuffers;
 
-    } catch (error: any) {
-      console.error(`Error generating text-to-speech (Attempt ${attempts + 1}/${maxRetries + 1}):`, error);
+    } catch (caught: unknown) {
+      // The SDK may report an aborted request as a plain Error
+      const error = abortSignal?.aborted ? toApiError(createAbortError()) : toApiError(caught);
+      if (error.kind === 'cancelled') {
+        throw error;
+      }
+      console.error(`Error generating text-to-speech (Attempt ${attempts + 1}/${maxRetries + 1}, ${error.kind}):`, caught);
 
-      if (attempts < maxRetries) {
-        const delay = globalThis.Math.pow(2, attempts) * 1000; // Exponential backoff: 1s, 2s, 4s
+      if (error.retryable && attempts < maxRetries) {
+        let delay = globalThis.Math.pow(2, attempts) * 1000; // Exponential backoff: 1s, 2s, 4s
+        if (error.retryDelayMs !== undefined) {
+          // Quota errors tell us how long to wait; retrying earlier only burns another request
+          delay = error.retryDelayMs;
+          onRateLimited?.(delay);
+        }
         console.log(`Retrying in ${delay / 1000} seconds...`);
-        await new Promise(resolve => globalThis.setTimeout(resolve, delay));
+        await abortableDelay(delay, abortSignal);
         attempts++;
       } else {
-        // Final failure after retries
+        // Final failure after retries, or an error that a retry cannot fix
         throw error;
       }
     }
@@ -196,6 +248,72 @@ export async function generateTextToSpeech(
   throw new Error('Failed to generate text-to-speech after multiple retries.');
 }
 
+export interface ModelDialogueAttribution {
+  id: number;
+  speaker: string | null;
+  confidence: number;
+}
+
+// A model response item, or null if it does not have the requested shape
+function toDialogueAttribution(item: unknown): ModelDialogueAttribution | null {
+  if (typeof item !== 'object' || item === null) return null;
+  const { id, speaker, confidence } = item as Record<string, unknown>;
+  if (typeof id !== 'number' || !Number.isInteger(id)) return null;
+  if (typeof confidence !== 'number' || Number.isNaN(confidence)) return null;
+  if (typeof speaker !== 'string' && speaker !== null) return null;
+  return { id, speaker: speaker as string | null, confidence: Math.min(1, Math.max(0, confidence)) };
+}
+
+/**
+ * Asks the Gemini text model who speaks each quoted line.
+ * Lines are sent with their surrounding paragraph; the model answers with structured JSON.
+ */
+export async function attributeDialogueWithModel(
+  lines: { id: number; quote: string; context: string }[],
+  knownCharacters: string[]
+): Promise<ModelDialogueAttribution[]> {
+  const genAI = getGeminiClient();
+
+  const prompt = [
+    'You are annotating a novel manuscript for a multi-voice audiobook.',
+    'For every numbered dialogue line, decide which character speaks it, using the paragraph context and the flow of the conversation.',
+    'Use the exact spelling of a known character when it matches. Use null if the speaker cannot be determined.',
+    'Confidence is a number between 0 and 1.',
+    knownCharacters.length > 0 ? `Known characters: ${knownCharacters.join(', ')}.` : '',
+    '',
+    ...lines.map(line => `#${line.id}\nLine: ${line.quote}\nParagraph: ${line.context}`),
+  ].join('\n');
+
+  const response = await genAI.models.generateContent({
+    model: TEXT_ANALYSIS_MODEL,
+    contents: prompt,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.INTEGER },
+            speaker: { type: Type.STRING, nullable: true },
+            confidence: { type: Type.NUMBER },
+          },
+          required: ['id', 'speaker', 'confidence'],
+        },
+      },
+    },
+  });
+
+  const parsed = JSON.parse(response.text ?? '[]');
+  if (!Array.isArray(parsed)) {
+    throw new Error('Unexpected dialogue attribution response format.');
+  }
+  // Malformed items are dropped; the heuristic attributes those lines instead
+  return parsed
+    .map(toDialogueAttribution)
+    .filter((attribution): attribution is ModelDialogueAttribution => attribution !== null);
+}
+
 /**
  * Checks for API key selection (for models that require explicit key selection).
  * Currently, Gemini 2.5 Native Audio does not require explicit key selection from the dialog.
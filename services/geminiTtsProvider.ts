@@ -0,0 +1,25 @@
+// services/geminiTtsProvider.ts
+import { generateTextToSpeech } from './geminiService';
+import type { TtsProvider } from './ttsProvider';
+import { MAX_TTS_TEXT_LENGTH_CHARS, OUTPUT_AUDIO_SAMPLE_RATE, TTS_MODEL, TTS_VOICES } from '../constants';
+
+export const geminiTtsProvider: TtsProvider = {
+  id: 'gemini',
+  name: 'Gemini TTS',
+  description: 'Gemini beszédszintézis (API kulcs szükséges).',
+  model: TTS_MODEL,
+  requiresApiKey: true,
+  limits: {
+    maxTextChars: MAX_TTS_TEXT_LENGTH_CHARS,
+    requestsPerMinute: 10,
+    sampleRate: OUTPUT_AUDIO_SAMPLE_RATE,
+  },
+  listVoices: () => TTS_VOICES,
+  synthesize: (request, mainAudioContext, options = {}) =>
+    generateTextToSpeech(request.text, request.voice, mainAudioContext, {
+      styleDirection: request.style,
+      onRateLimited: options.onRateLimited,
+      beforeAttempt: options.beforeRequest,
+      abortSignal: options.signal,
+    }),
+};
@@ -0,0 +1,292 @@
+// services/generationQueue.ts
+// Persistent synthesis queue: every finished segment's PCM and every status change is written
+// to IndexedDB, so a closed tab or a run of API failures never loses finished work.
+import { synthesizeSegment, SynthesisProgress, TextPreparationSettings } from './synthesisPipeline';
+import { TtsProvider } from './ttsProvider';
+import { deserializeAudioBuffer, serializeAudioBuffer } from '../utils/audioUtils';
+import { createRateLimiter } from '../utils/rateLimiter';
+import { ApiError, ApiErrorKind, toApiError } from './apiErrors';
+import {
+  STORE_GENERATION_JOBS,
+  STORE_SEGMENT_AUDIO,
+  idbDelete,
+  idbDeleteMany,
+  idbGet,
+  idbGetAll,
+  idbGetAllKeys,
+  idbPut,
+} from '../utils/indexedDb';
+import { createId } from '../utils/projectModel';
+import { GenerationJob, GenerationJobSegment, Segment, SerializedAudio } from '../types';
+
+// After this many failures in a row the run stops; the job stays resumable
+const MAX_CONSECUTIVE_FAILURES = 3;
+const RETAKE_JOB_ID = 'retake';
+// Failures that every following request would hit too: the run stops at once
+const RUN_STOPPING_ERROR_KINDS: ApiErrorKind[] = ['auth', 'quota'];
+
+interface StoredSegmentAudio extends SerializedAudio {
+  segmentId: string;
+  jobId: string;
+  text: string;  // Text and voice the audio was generated from
+  voice: string;
+  createdAt: number;
+}
+
+interface GenerationJobCallbacks {
+  onSegmentStart?: (segment: Segment, progress: SynthesisProgress) => void;
+  onSegmentComplete?: (segment: Segment, buffer: AudioBuffer, progress: SynthesisProgress) => void;
+  onSegmentError?: (segment: Segment, error: ApiError, progress: SynthesisProgress) => void;
+  onSegmentCancelled?: (segment: Segment) => void; // Started but aborted; the segment stays pending
+}
+
+interface RunGenerationJobOptions {
+  provider: TtsProvider;
+  textPreparation: TextPreparationSettings;
+  onlyFailed?: boolean; // Retry only the segments that failed before
+  concurrency?: number;  // Segments synthesized in parallel; defaults to 1
+  requestsPerMinute?: number | null; // Overrides the provider's budget; null = unlimited
+  signal?: AbortSignal; // Stops the run; finished segments are kept and the job stays resumable
+}
+
+// User-tunable scheduling of a run, kept per browser
+export interface SynthesisSettings {
+  concurrency: number;
+  requestsPerMinute?: number; // Absent = the provider's default budget
+}
+
+const SYNTHESIS_SETTINGS_STORAGE_KEY = 'synthesisSettings';
+export const MAX_SYNTHESIS_CONCURRENCY = 8;
+const DEFAULT_SYNTHESIS_SETTINGS: SynthesisSettings = { concurrency: 3 };
+
+export function loadSynthesisSettings(): SynthesisSettings {
+  try {
+    const saved = JSON.parse(globalThis.localStorage.getItem(SYNTHESIS_SETTINGS_STORAGE_KEY) ?? 'null');
+    if (!saved) return DEFAULT_SYNTHESIS_SETTINGS;
+    const concurrency = Math.round(Number(saved.concurrency));
+    const requestsPerMinute = Number(saved.requestsPerMinute);
+    return {
+      concurrency: concurrency >= 1 ? Math.min(concurrency, MAX_SYNTHESIS_CONCURRENCY) : DEFAULT_SYNTHESIS_SETTINGS.concurrency,
+      requestsPerMinute: requestsPerMinute > 0 ? requestsPerMinute : undefined,
+    };
+  } catch (err) {
+    console.warn('Could not read synthesis settings, using defaults:', err);
+    return DEFAULT_SYNTHESIS_SETTINGS;
+  }
+}
+
+export function saveSynthesisSettings(settings: SynthesisSettings): void {
+  globalThis.localStorage.setItem(SYNTHESIS_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+export async function createGenerationJob(
+  bookId: string,
+  entries: { segment: Segment; chapterId: string }[]
+): Promise<GenerationJob> {
+  const now = Date.now();
+  const job: GenerationJob = {
+    id: createId('job'),
+    bookId,
+    createdAt: now,
+    updatedAt: now,
+    status: 'running',
+    segments: entries.map(({ segment, chapterId }) => ({
+      segmentId: segment.id,
+      chapterId,
+      status: 'pending',
+      attempts: 0,
+    })),
+  };
+  await idbPut(STORE_GENERATION_JOBS, job);
+  return job;
+}
+
+/**
+ * Persists a segment's audio, replacing any earlier take of the same segment.
+ * @param jobId The job that produced it; omitted for takes regenerated by hand.
+ */
+export async function saveSegmentAudio(segment: Segment, buffer: AudioBuffer, jobId: string = RETAKE_JOB_ID): Promise<void> {
+  const stored: StoredSegmentAudio = {
+    ...serializeAudioBuffer(buffer),
+    segmentId: segment.id,
+    jobId,
+    text: segment.text,
+    voice: segment.voice,
+    createdAt: Date.now(),
+  };
+  await idbPut(STORE_SEGMENT_AUDIO, stored);
+}
+
+async function saveJob(job: GenerationJob): Promise<GenerationJob> {
+  const updated = { ...job, updatedAt: Date.now() };
+  await idbPut(STORE_GENERATION_JOBS, updated);
+  return updated;
+}
+
+/**
+ * Runs (or resumes) a job. Up to `concurrency` segments are synthesized at once under the
+ * provider's requests-per-minute budget; results are still delivered in manuscript order, and a
+ * failed segment is recorded and skipped so the rest of the book keeps progressing.
+ * Aborting `options.signal` cancels the requests in flight and leaves their segments pending.
+ * @param segmentsById The current project segments; job entries whose segment no longer exists are dropped.
+ * @returns The job as persisted after the run.
+ */
+export async function runGenerationJob(
+  job: GenerationJob,
+  segmentsById: Map<string, Segment>,
+  mainAudioContext: AudioContext,
+  callbacks: GenerationJobCallbacks,
+  options: RunGenerationJobOptions
+): Promise<GenerationJob> {
+  let current: GenerationJob = {
+    ...job,
+    status: 'running',
+    segments: job.segments.filter(entry => segmentsById.has(entry.segmentId)),
+  };
+  current = await saveJob(current);
+
+  // Workers update the job one after another; the IndexedDB writes are chained so none is lost
+  let pendingSave: Promise<unknown> = Promise.resolve();
+  const updateEntry = (segmentId: string, changes: Partial<GenerationJobSegment>) => {
+    current = {
+      ...current,
+      segments: current.segments.map(s => (s.segmentId === segmentId ? { ...s, ...changes, attempts: s.attempts + 1 } : s)),
+    };
+    const snapshot = current;
+    pendingSave = pendingSave.then(() => saveJob(snapshot));
+    return pendingSave;
+  };
+
+  const toRun = current.segments.filter(entry =>
+    options.onlyFailed ? entry.status === 'error' : entry.status !== 'done'
+  );
+  const concurrency = Math.max(1, Math.min(options.concurrency ?? 1, toRun.length));
+  const rateLimiter = createRateLimiter(
+    options.requestsPerMinute !== undefined ? options.requestsPerMinute : options.provider.limits.requestsPerMinute
+  );
+
+  // Finished segments wait here until every segment before them has been delivered
+  const results = new Map<number, { buffer: AudioBuffer } | { error: ApiError }>();
+  let nextToStart = 0;
+  let nextToDeliver = 0;
+  let consecutiveFailures = 0;
+  let stopped = false;
+
+  const deliverInOrder = () => {
+    while (results.has(nextToDeliver)) {
+      const result = results.get(nextToDeliver)!;
+      results.delete(nextToDeliver);
+      const segment = segmentsById.get(toRun[nextToDeliver].segmentId)!;
+      nextToDeliver++;
+      const progress = { completed: nextToDeliver, total: toRun.length };
+      if ('buffer' in result) {
+        consecutiveFailures = 0;
+        callbacks.onSegmentComplete?.(segment, result.buffer, progress);
+      } else {
+        callbacks.onSegmentError?.(segment, result.error, progress);
+        // Errors bound to the segment's own text or voice are skipped; transient ones may signal an outage
+        if (result.error.retryable && ++consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) stopped = true;
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (!stopped && !options.signal?.aborted && nextToStart < toRun.length) {
+      const index = nextToStart++;
+      const entry = toRun[index];
+      const segment = segmentsById.get(entry.segmentId)!;
+      callbacks.onSegmentStart?.(segment, { completed: nextToDeliver, total: toRun.length });
+
+      try {
+        const buffer = await synthesizeSegment(
+          options.provider,
+          segment,
+          mainAudioContext,
+          options.textPreparation,
+          { rateLimiter, signal: options.signal },
+        );
+        await saveSegmentAudio(segment, buffer, current.id);
+        await updateEntry(entry.segmentId, { status: 'done', error: undefined });
+        results.set(index, { buffer });
+      } catch (err) {
+        const error = toApiError(err);
+        if (error.kind === 'cancelled') {
+          // Cancelled segments are neither delivered nor counted as failures
+          callbacks.onSegmentCancelled?.(segment);
+          continue;
+        }
+        if (RUN_STOPPING_ERROR_KINDS.includes(error.kind) && !error.retryable) {
+          stopped = true;
+        }
+        await updateEntry(entry.segmentId, { status: 'error', error: error.message });
+        results.set(index, { error });
+      }
+      deliverInOrder();
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  await pendingSave;
+
+  // Segments that finished after a stop are kept (they are persisted) but delivered out of band
+  for (const [index, result] of [...results.entries()].sort((a, b) => a[0] - b[0])) {
+    const segment = segmentsById.get(toRun[index].segmentId)!;
+    const progress = { completed: nextToDeliver, total: toRun.length };
+    if ('buffer' in result) callbacks.onSegmentComplete?.(segment, result.buffer, progress);
+    else callbacks.onSegmentError?.(segment, result.error, progress);
+  }
+
+  if (stopped || options.signal?.aborted) {
+    return saveJob({ ...current, status: 'interrupted' });
+  }
+  const hasFailures = current.segments.some(entry => entry.status === 'error');
+  const hasPending = current.segments.some(entry => entry.status !== 'done' && entry.status !== 'error');
+  return saveJob({ ...current, status: hasFailures ? 'failed' : hasPending ? 'interrupted' : 'completed' });
+}
+
+/**
+ * Jobs of a book that did not complete (closed tab, failures), newest first.
+ * Jobs left in 'running' state by a closed tab are reported as interrupted.
+ */
+export async function listUnfinishedGenerationJobs(bookId: string): Promise<GenerationJob[]> {
+  const jobs = await idbGetAll<GenerationJob>(STORE_GENERATION_JOBS);
+  return jobs
+    .filter(job => job.bookId === bookId && job.status !== 'completed')
+    .map(job => (job.status === 'running' ? { ...job, status: 'interrupted' as const } : job))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function deleteGenerationJob(jobId: string): Promise<void> {
+  await idbDelete(STORE_GENERATION_JOBS, jobId);
+}
+
+/**
+ * Loads the persisted audio of the given segments.
+ * Audio is only returned if it was generated from the segment's current text and voice.
+ */
+export async function loadPersistedSegmentAudio(segments: Segment[]): Promise<Map<string, AudioBuffer>> {
+  const restored = new Map<string, AudioBuffer>();
+  for (const segment of segments) {
+    const stored = await idbGet<StoredSegmentAudio>(STORE_SEGMENT_AUDIO, segment.id);
+    if (stored && stored.text === segment.text && stored.voice === segment.voice) {
+      restored.set(segment.id, deserializeAudioBuffer(stored));
+    }
+  }
+  return restored;
+}
+
+/**
+ * Deletes persisted audio and finished jobs that no longer belong to any segment of the project.
+ */
+export async function prunePersistedGenerationData(validSegmentIds: Set<string>): Promise<void> {
+  const audioKeys = await idbGetAllKeys(STORE_SEGMENT_AUDIO);
+  await idbDeleteMany(STORE_SEGMENT_AUDIO, audioKeys.filter(key => !validSegmentIds.has(String(key))));
+
+  const jobs = await idbGetAll<GenerationJob>(STORE_GENERATION_JOBS);
+  await idbDeleteMany(
+    STORE_GENERATION_JOBS,
+    jobs
+      .filter(job => job.status === 'completed' || !job.segments.some(entry => validSegmentIds.has(entry.segmentId)))
+      .map(job => job.id),
+  );
+}
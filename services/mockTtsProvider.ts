@@ -0,0 +1,146 @@
+// services/mockTtsProvider.ts
+// Offline TTS stand-in: a tiny formant synthesizer that "babbles" the text deterministically.
+// The same text and voice always produce the same samples, so UI, karaoke and export work can be
+// developed and reproduced without an API key or network.
+import type { TtsProvider } from './ttsProvider';
+import { OUTPUT_AUDIO_SAMPLE_RATE, TTS_VOICES } from '../constants';
+import { throwIfAborted } from '../utils/abort';
+
+const SAMPLE_RATE = OUTPUT_AUDIO_SAMPLE_RATE;
+
+// First two formants (Hz) of the Hungarian vowels
+const VOWEL_FORMANTS: Record<string, [number, number]> = {
+  a: [750, 1250], á: [850, 1550], e: [600, 1800], é: [450, 2200],
+  i: [300, 2300], í: [300, 2400], o: [450, 850], ó: [420, 800],
+  ö: [450, 1600], ő: [420, 1550], u: [320, 800], ú: [300, 750],
+  ü: [300, 1700], ű: [290, 1650], y: [300, 2100],
+};
+const LONG_VOWELS = new Set(['á', 'é', 'í', 'ó', 'ő', 'ú', 'ű']);
+const VOICED_CONSONANTS = new Set(['b', 'd', 'g', 'j', 'l', 'm', 'n', 'r', 'v', 'z']);
+
+const VOWEL_SECONDS = 0.09;
+const LONG_VOWEL_SECONDS = 0.15;
+const CONSONANT_SECONDS = 0.05;
+const WORD_GAP_SECONDS = 0.06;
+const CLAUSE_PAUSE_SECONDS = 0.2;
+const SENTENCE_PAUSE_SECONDS = 0.4;
+
+// FNV-1a, used to derive a stable pitch per voice and a noise seed per text
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Deterministic noise source (mulberry32)
+function createNoise(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296 * 2 - 1;
+  };
+}
+
+interface Sound {
+  seconds: number;
+  formants?: [number, number]; // Voiced vowel
+  voicedConsonant?: boolean;
+  noise?: boolean;             // Unvoiced consonant
+}
+
+function textToSounds(text: string): Sound[] {
+  const sounds: Sound[] = [];
+  for (const char of text.toLocaleLowerCase('hu')) {
+    if (VOWEL_FORMANTS[char]) {
+      sounds.push({ seconds: LONG_VOWELS.has(char) ? LONG_VOWEL_SECONDS : VOWEL_SECONDS, formants: VOWEL_FORMANTS[char] });
+    } else if (/\p{L}/u.test(char)) {
+      sounds.push(VOICED_CONSONANTS.has(char)
+        ? { seconds: CONSONANT_SECONDS, voicedConsonant: true }
+        : { seconds: CONSONANT_SECONDS, noise: true });
+    } else if (/\p{N}/u.test(char)) {
+      sounds.push({ seconds: VOWEL_SECONDS * 2, formants: VOWEL_FORMANTS.e });
+    } else if (/[.!?…]/.test(char)) {
+      sounds.push({ seconds: SENTENCE_PAUSE_SECONDS });
+    } else if (/[,;:–—]/.test(char)) {
+      sounds.push({ seconds: CLAUSE_PAUSE_SECONDS });
+    } else if (/\s/.test(char)) {
+      const previous = sounds[sounds.length - 1];
+      if (previous && (previous.formants || previous.noise || previous.voicedConsonant)) {
+        sounds.push({ seconds: WORD_GAP_SECONDS });
+      }
+    }
+  }
+  return sounds;
+}
+
+/**
+ * Renders the text with a glottal-pulse-like harmonic source shaped by vowel formants.
+ * Pitch falls slowly over the text; whispered styles drop the voicing.
+ */
+function renderSpeech(text: string, voice: string, style: string = ''): Float32Array {
+  const sounds = textToSounds(text);
+  const totalSamples = Math.max(1, Math.round(sounds.reduce((acc, sound) => acc + sound.seconds, 0) * SAMPLE_RATE));
+  const samples = new Float32Array(totalSamples);
+  const basePitch = 90 + (hashString(voice.toLowerCase()) % 150); // 90–240 Hz
+  const whisper = /suttog|whisper/i.test(style);
+  const noise = createNoise(hashString(`${voice}\n${text}`));
+  const fadeSamples = Math.round(0.008 * SAMPLE_RATE);
+
+  let offset = 0;
+  let phase = 0;
+  for (const sound of sounds) {
+    const length = Math.round(sound.seconds * SAMPLE_RATE);
+    const isSilent = !sound.formants && !sound.noise && !sound.voicedConsonant;
+    for (let i = 0; !isSilent && i < length && offset + i < totalSamples; i++) {
+      const envelope = Math.min(1, i / fadeSamples, (length - i) / fadeSamples);
+      const pitch = basePitch * (1.05 - 0.15 * ((offset + i) / totalSamples));
+      phase += pitch / SAMPLE_RATE;
+
+      let value = 0;
+      if (sound.noise || whisper) {
+        value = noise() * (sound.noise ? 0.15 : 0.2);
+      }
+      if (!whisper && (sound.formants || sound.voicedConsonant)) {
+        const [f1, f2] = sound.formants ?? [250, 1000];
+        // Harmonics of the pitch, weighted by their distance from the formants
+        for (let harmonic = 1; harmonic * pitch < 3500; harmonic++) {
+          const frequency = harmonic * pitch;
+          const gain = Math.exp(-(((frequency - f1) / 120) ** 2)) + 0.6 * Math.exp(-(((frequency - f2) / 180) ** 2)) + 0.02;
+          value += gain * Math.sin(2 * Math.PI * harmonic * phase) / harmonic;
+        }
+        value *= sound.formants ? 0.35 : 0.15;
+      }
+      samples[offset + i] = value * envelope;
+    }
+    offset += length;
+  }
+  return samples;
+}
+
+export const mockTtsProvider: TtsProvider = {
+  id: 'mock',
+  name: 'Offline próbahang',
+  description: 'Determinisztikus helyi szintézis fejlesztéshez és teszteléshez; nem hív API-t.',
+  model: 'mock-formant-v1',
+  requiresApiKey: false,
+  limits: {
+    maxTextChars: 100000,
+    requestsPerMinute: null,
+    sampleRate: SAMPLE_RATE,
+  },
+  // Same voice names as Gemini, so casts and projects can switch providers freely
+  listVoices: () => TTS_VOICES,
+  synthesize: async (request, mainAudioContext, options = {}) => {
+    throwIfAborted(options.signal);
+    await options.beforeRequest?.();
+    const samples = renderSpeech(request.text, request.voice, request.style);
+    const buffer = mainAudioContext.createBuffer(1, samples.length, SAMPLE_RATE);
+    buffer.getChannelData(0).set(samples);
+    return [buffer];
+  },
+};
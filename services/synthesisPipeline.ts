@@ -0,0 +1,104 @@
+// services/synthesisPipeline.ts
+import { TtsProvider } from './ttsProvider';
+import { computeAudioCacheKey, getCachedAudio, putCachedAudio } from './audioCache';
+import { concatAudioBuffers, createSilence } from '../utils/audioUtils';
+import { RateLimiter } from '../utils/rateLimiter';
+import { throwIfAborted } from '../utils/abort';
+import { applyPronunciationLexicon } from '../utils/pronunciationLexicon';
+import { normalizeText } from '../utils/textNormalizer';
+import { Book, PronunciationEntry, Segment, TextNormalizationSettings } from '../types';
+
+export interface SynthesisProgress {
+  completed: number; // Number of segments finished so far
+  total: number;     // Total number of segments in this run
+}
+
+// Project settings that rewrite the manuscript text before it is sent to the TTS model
+export interface TextPreparationSettings {
+  lexicon: PronunciationEntry[];
+  normalization: TextNormalizationSettings;
+}
+
+// Scheduling context of a synthesis request
+export interface SynthesisRequestOptions {
+  rateLimiter?: RateLimiter; // Shared request budget; cache hits do not use it
+  signal?: AbortSignal;
+}
+
+export function getTextPreparationSettings(book: Book): TextPreparationSettings {
+  return { lexicon: book.lexicon, normalization: book.normalization };
+}
+
+/**
+ * Turns manuscript text into the text actually spoken by the TTS model.
+ * The lexicon runs first, so a project entry wins over the generic normalization rules.
+ */
+export function prepareTextForSpeech(text: string, settings: TextPreparationSettings): string {
+  return normalizeText(applyPronunciationLexicon(text, settings.lexicon), settings.normalization);
+}
+
+/**
+ * Synthesizes a piece of text into one AudioBuffer, answering repeated requests from the audio cache.
+ * The cache is best effort: if IndexedDB is unavailable the text is simply synthesized.
+ */
+export async function synthesizeText(
+  provider: TtsProvider,
+  text: string,
+  voice: string,
+  mainAudioContext: AudioContext,
+  style: string = '',
+  options: SynthesisRequestOptions = {}
+): Promise<AudioBuffer> {
+  const { rateLimiter, signal } = options;
+  const cacheParts = { text, voice, style, model: provider.model };
+  let cacheKey: string | null = null;
+  try {
+    cacheKey = await computeAudioCacheKey(cacheParts);
+    const cached = await getCachedAudio(cacheKey);
+    if (cached) return cached;
+  } catch (err) {
+    console.warn('Audio cache lookup failed, synthesizing without cache:', err);
+  }
+
+  throwIfAborted(signal);
+  const chunkBuffers = await provider.synthesize({ text, voice, style }, mainAudioContext, {
+    // A throttled request holds back every other request sharing the budget
+    onRateLimited: retryDelayMs => rateLimiter?.pauseFor(retryDelayMs),
+    // Retries count against the per-minute budget like first attempts
+    beforeRequest: rateLimiter ? () => rateLimiter.acquire(signal) : undefined,
+    signal,
+  });
+  const buffer = concatAudioBuffers(chunkBuffers, mainAudioContext);
+  if (!buffer) {
+    throw new Error(`Nem érkezett hang a(z) ${provider.name} szolgáltatótól.`);
+  }
+
+  if (cacheKey) {
+    await putCachedAudio(cacheKey, cacheParts, buffer).catch(err => console.warn('Could not store audio in the cache:', err));
+  }
+  return buffer;
+}
+
+/**
+ * Synthesizes a single segment: prepares its text, then stitches the streamed chunks into one AudioBuffer.
+ * Pause segments from narration markup become silence without an API call.
+ */
+export async function synthesizeSegment(
+  provider: TtsProvider,
+  segment: Segment,
+  mainAudioContext: AudioContext,
+  settings: TextPreparationSettings,
+  options: SynthesisRequestOptions = {}
+): Promise<AudioBuffer> {
+  if (segment.pauseSeconds !== undefined) {
+    return createSilence(segment.pauseSeconds, mainAudioContext, provider.limits.sampleRate);
+  }
+  return synthesizeText(
+    provider,
+    prepareTextForSpeech(segment.text, settings),
+    segment.voice,
+    mainAudioContext,
+    segment.style,
+    options,
+  );
+}
@@ -0,0 +1,62 @@
+// services/ttsProvider.ts
+// Text-to-speech providers. The synthesis pipeline only talks to this interface, so the app can run
+// against Gemini, the offline mock, or a future provider without changes elsewhere.
+import { geminiTtsProvider } from './geminiTtsProvider';
+import { mockTtsProvider } from './mockTtsProvider';
+import { VoiceProfile } from '../types';
+
+export type TtsProviderId = 'gemini' | 'mock';
+
+export interface TtsVoice {
+  name: string;           // Display name
+  value: string;          // Identifier passed to `synthesize`
+  profile?: VoiceProfile; // Catalog metadata; voices without it are listed but not filterable
+}
+
+export interface TtsProviderLimits {
+  maxTextChars: number;             // Longest text accepted in a single request
+  requestsPerMinute: number | null; // null = not rate limited
+  sampleRate: number;               // Sample rate of the returned audio
+}
+
+export interface TtsSynthesisRequest {
+  text: string;
+  voice: string;
+  style?: string; // Natural-language delivery direction from narration markup
+}
+
+export interface TtsSynthesisOptions {
+  onRateLimited?: (retryDelayMs: number) => void; // The provider was throttled and waits this long before retrying
+  beforeRequest?: () => Promise<void>; // Awaited before every request, retries included, e.g. for a rate limiter token
+  signal?: AbortSignal; // Aborting rejects with an AbortError and stops retries
+}
+
+export interface TtsProvider {
+  id: TtsProviderId;
+  name: string;
+  description: string;
+  model: string;           // Identifies the produced audio, e.g. in audio cache keys
+  requiresApiKey: boolean;
+  limits: TtsProviderLimits;
+  listVoices(): TtsVoice[];
+  /**
+   * Synthesizes one request. Streaming providers may return several consecutive chunks.
+   */
+  synthesize(request: TtsSynthesisRequest, mainAudioContext: AudioContext, options?: TtsSynthesisOptions): Promise<AudioBuffer[]>;
+}
+
+const SELECTED_PROVIDER_STORAGE_KEY = 'ttsProvider';
+
+export const TTS_PROVIDERS: TtsProvider[] = [geminiTtsProvider, mockTtsProvider];
+
+export function getTtsProvider(id: string): TtsProvider {
+  return TTS_PROVIDERS.find(provider => provider.id === id) ?? geminiTtsProvider;
+}
+
+export function loadSelectedTtsProviderId(): TtsProviderId {
+  return getTtsProvider(globalThis.localStorage.getItem(SELECTED_PROVIDER_STORAGE_KEY) ?? '').id;
+}
+
+export function saveSelectedTtsProviderId(id: TtsProviderId): void {
+  globalThis.localStorage.setItem(SELECTED_PROVIDER_STORAGE_KEY, id);
+}
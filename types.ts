@@ -9,4 +9,142 @@ export interface ChatMessage {
 export interface DecodedAudioData {
   buffer: AudioBuffer;
   duration: number;
-}
\ No newline at end of file
+}
+
+// 16-bit PCM representation of an AudioBuffer, used for persistence
+export interface SerializedAudio {
+  sampleRate: number;
+  length: number;        // Frames per channel
+  channels: Int16Array[];
+}
+
+// Audiobook project model: Book -> Chapters -> Segments
+
+export type SegmentStatus = 'pending' | 'generating' | 'done' | 'error';
+
+export interface Segment {
+  id: string;
+  text: string;
+  voice: string;
+  voiceOverride?: string; // Voice picked for this segment alone; wins over the cast and the narrator voice
+  speaker?: string; // Character speaking this segment; narrator if absent
+  style?: string;   // Style direction from narration markup, sent to the TTS model with the text
+  pauseSeconds?: number; // Pause segments are silence of this length; their text is empty
+  status: SegmentStatus;
+  audioRef?: string; // Key of the generated audio in the session's audio store
+  duration?: number; // Duration of the generated audio in seconds
+  error?: string;
+}
+
+export interface Chapter {
+  id: string;
+  title: string;
+  text: string;
+  segments: Segment[]; // Empty until the chapter is first prepared for synthesis
+}
+
+export type VoiceGender = 'female' | 'male';
+export type VoicePitch = 'low' | 'medium' | 'high';
+export type VoiceGenre = 'fiction' | 'thriller' | 'romance' | 'fantasy' | 'children' | 'nonfiction' | 'poetry';
+
+// How a TTS voice sounds and what it suits, for browsing the voice catalog
+export interface VoiceProfile {
+  gender: VoiceGender;   // Perceived gender
+  pitch: VoicePitch;     // Perceived pitch range
+  descriptors: string[]; // Character and tone, the provider's own description first
+  genres: VoiceGenre[];  // Recommended genres
+  languages: string[];   // ISO 639-1 codes of the languages the voice speaks
+}
+
+export interface CastMember {
+  character: string;
+  voice: string; // One of TTS_VOICES
+}
+
+// Project-level pronunciation dictionary entry, applied to the text before synthesis
+export interface PronunciationEntry {
+  id: string;
+  term: string;         // As written in the manuscript
+  replacement: string;  // Respelling or phonetic hint sent to the TTS model instead
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export type NormalizationLanguage = 'hu' | 'en';
+
+export type NormalizationRuleId = 'abbreviations' | 'dates' | 'times' | 'currency' | 'units' | 'ordinals' | 'numbers';
+
+// Per-project switches of the text normalizer (digits, dates, abbreviations… spelled out before synthesis)
+export interface TextNormalizationSettings {
+  enabled: boolean;
+  language: NormalizationLanguage;
+  rules: Record<NormalizationRuleId, boolean>;
+}
+
+export interface Book {
+  id: string;
+  title: string;
+  author: string;
+  chapters: Chapter[];
+  cast: CastMember[];
+  lexicon: PronunciationEntry[];
+  normalization: TextNormalizationSettings;
+}
+
+// The generated audio of one chapter, for exports with chapter markers
+export interface AudiobookExportChapter {
+  title: string;
+  buffers: AudioBuffer[]; // Segment audio in playback order
+}
+
+export type ExportFormat = 'mp3' | 'm4b' | 'wav16' | 'wav24' | 'flac' | 'opus';
+
+// Tags written into exported audiobook files, edited before each export
+export interface AudiobookExportMetadata {
+  title: string;
+  author: string;
+  narrator: string;
+  album: string;
+  genre: string;
+  trackNumber: number;
+  trackTotal: number;
+  cover: Blob | null;
+}
+
+// Footnotes and comments are not narrated on import; they are listed so they can be added back by hand
+export interface SkippedPassage {
+  kind: 'footnote' | 'endnote' | 'comment';
+  text: string;
+  chapterIndex: number; // The imported chapter that refers to it
+}
+
+// A manuscript read from an imported document, before it becomes project chapters
+export interface ImportedManuscript {
+  title: string;
+  author: string;
+  chapters: { title: string; text: string }[];
+  images: File[]; // Cover first, then the images in reading order
+  skipped: SkippedPassage[];
+}
+
+export type AudiobookScope = 'chapter' | 'book';
+
+export type GenerationJobStatus = 'running' | 'interrupted' | 'failed' | 'completed';
+
+export interface GenerationJobSegment {
+  segmentId: string;
+  chapterId: string;
+  status: SegmentStatus;
+  attempts: number;
+  error?: string;
+}
+
+// A persisted synthesis run over a list of segments; survives reloads so it can be resumed
+export interface GenerationJob {
+  id: string;
+  bookId: string;
+  createdAt: number;
+  updatedAt: number;
+  status: GenerationJobStatus;
+  segments: GenerationJobSegment[];
+}
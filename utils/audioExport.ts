@@ -0,0 +1,224 @@
+// utils/audioExport.ts
+// Format-independent audiobook export: every format implements `AudioExportFormat`, and this module
+// feeds it the project's audio as mono Float32Array chunks and routes the encoded bytes to a sink.
+// The encoder itself runs in a worker (utils/exportWorker.ts) so long books do not block the UI.
+import { AudiobookExportChapter, AudiobookExportMetadata, ExportFormat } from '../types';
+import { createAbortError, throwIfAborted } from './abort';
+import { ChapterMarker, computeChapterMarkers, CoverImage, prepareCoverImage } from './audiobookMetadata';
+
+// Destination of the encoded file, written front to back
+export interface ExportSink {
+  append(data: Uint8Array): Promise<void>;
+  patch(position: number, data: Uint8Array): Promise<void>; // Overwrites bytes already appended, e.g. a size field
+}
+
+export interface EncoderSettings {
+  sampleRate: number;  // Of the PCM passed to `write`
+  totalFrames: number; // Samples that will be written in total
+  metadata: Omit<AudiobookExportMetadata, 'cover'>;
+  chapters: ChapterMarker[];
+  cover: CoverImage | null;
+}
+
+export interface PcmEncoder {
+  write(samples: Float32Array): Promise<void>; // Mono PCM in [-1, 1]
+  finish(): Promise<void>;
+  close(): void; // Releases resources after a failure or cancellation
+}
+
+export interface AudioExportFormat {
+  id: ExportFormat;
+  label: string;       // Shown in the format picker
+  extension: string;
+  mimeType: string;
+  description: string; // File type description for the save dialog
+  /**
+   * The sample rate the encoder wants its input in, or null if this browser cannot produce the format.
+   */
+  resolveSampleRate(sourceRate: number): Promise<number | null>;
+  /** A caveat about the file this browser would produce, shown in the export dialog; null if none. */
+  getNotice?(sourceRate: number): Promise<string | null>;
+  createEncoder(settings: EncoderSettings, sink: ExportSink): Promise<PcmEncoder>;
+}
+
+// Messages between `exportAudiobook` and the encoder worker
+export type ExportWorkerRequest =
+  | { type: 'start'; formatId: ExportFormat; settings: EncoderSettings }
+  | { type: 'pcm'; samples: Float32Array }
+  | { type: 'finish' };
+
+export type ExportWorkerResponse =
+  | { type: 'append'; data: Uint8Array }
+  | { type: 'patch'; position: number; data: Uint8Array }
+  | { type: 'written' } // A PCM chunk has been encoded
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+export interface AudioExportOptions {
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Collects the encoded file in memory.
+ */
+export function createMemorySink(): ExportSink & { toBlob(type: string): Blob } {
+  const parts: Uint8Array[] = [];
+  return {
+    append: async data => { parts.push(data); },
+    patch: async (position, data) => {
+      let partStart = 0;
+      for (const part of parts) {
+        const from = Math.max(position, partStart);
+        const to = Math.min(position + data.length, partStart + part.length);
+        if (from < to) part.set(data.subarray(from - position, to - position), from - partStart);
+        partStart += part.length;
+      }
+    },
+    toBlob: type => new Blob(parts, { type }),
+  };
+}
+
+/**
+ * Writes straight into a file picked with `showSaveFilePicker`; the caller closes the stream.
+ */
+export function createFileSink(writable: FileSystemWritableFileStream): ExportSink {
+  let position = 0;
+  return {
+    append: async data => {
+      await writable.write({ type: 'write', position, data });
+      position += data.length;
+    },
+    patch: (position, data) => writable.write({ type: 'write', position, data }),
+  };
+}
+
+// PCM chunks posted to the worker but not yet encoded; bounds the memory held in its queue
+const MAX_CHUNKS_IN_FLIGHT = 4;
+
+const resampledLength = (buffer: AudioBuffer, sampleRate: number) =>
+  buffer.sampleRate === sampleRate ? buffer.length : Math.max(1, Math.round(buffer.duration * sampleRate));
+
+async function resampleToMono(buffer: AudioBuffer, sampleRate: number): Promise<Float32Array> {
+  if (buffer.sampleRate === sampleRate && buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const context = new OfflineAudioContext(1, resampledLength(buffer, sampleRate), sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  return (await context.startRendering()).getChannelData(0);
+}
+
+/**
+ * Encodes the chapters' audio in the given format into the sink, one segment buffer at a time.
+ * Resampling happens here (OfflineAudioContext is not available in workers); encoding happens in
+ * the worker, which receives each chunk as a transferred buffer. Aborting terminates the worker.
+ * An unreadable cover image is left out rather than failing the export.
+ */
+export async function exportAudiobook(
+  format: AudioExportFormat,
+  chapters: AudiobookExportChapter[],
+  metadata: AudiobookExportMetadata,
+  sink: ExportSink,
+  options: AudioExportOptions = {}
+): Promise<void> {
+  const { onProgress, signal } = options;
+  const buffers = chapters.flatMap(chapter => chapter.buffers);
+  if (buffers.length === 0) {
+    throw new Error('Nincs exportálható hang.');
+  }
+  const sampleRate = await format.resolveSampleRate(buffers[0].sampleRate);
+  if (sampleRate === null) {
+    throw new Error(`A(z) ${format.label} formátum ebben a böngészőben nem érhető el.`);
+  }
+
+  const { cover: coverImage, ...tags } = metadata;
+  let cover: CoverImage | null = null;
+  if (coverImage) {
+    cover = await prepareCoverImage(coverImage).catch(err => {
+      console.warn('Could not embed the cover image:', err);
+      return null;
+    });
+  }
+  const settings: EncoderSettings = {
+    sampleRate,
+    totalFrames: buffers.reduce((acc, buffer) => acc + resampledLength(buffer, sampleRate), 0),
+    metadata: tags,
+    chapters: computeChapterMarkers(chapters),
+    cover,
+  };
+  throwIfAborted(signal);
+
+  const worker = new Worker(new URL('./exportWorker.ts', import.meta.url), { type: 'module' });
+  let sinkWrites = Promise.resolve();
+  let chunksWritten = 0;
+  let isDone = false;
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    const callback = wake;
+    wake = null;
+    callback?.();
+  };
+  const waitUntil = (condition: () => boolean) => new Promise<void>((resolve, reject) => {
+    const check = () => {
+      if (signal?.aborted) reject(createAbortError());
+      else if (failure) reject(failure);
+      else if (condition()) resolve();
+      else wake = check;
+    };
+    check();
+  });
+  const fail = (err: Error) => {
+    failure ??= err;
+    notify();
+  };
+
+  worker.onmessage = (event: MessageEvent<ExportWorkerResponse>) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'append':
+        sinkWrites = sinkWrites.then(() => sink.append(message.data));
+        sinkWrites.catch(fail);
+        break;
+      case 'patch':
+        sinkWrites = sinkWrites.then(() => sink.patch(message.position, message.data));
+        sinkWrites.catch(fail);
+        break;
+      case 'written':
+        chunksWritten++;
+        onProgress?.(chunksWritten / buffers.length);
+        notify();
+        break;
+      case 'done':
+        isDone = true;
+        notify();
+        break;
+      case 'error':
+        fail(new Error(message.message));
+        break;
+    }
+  };
+  worker.onerror = event => {
+    event.preventDefault();
+    fail(new Error(`Az exportálás háttérszála hibával leállt: ${event.message || 'ismeretlen hiba'}`));
+  };
+  signal?.addEventListener('abort', notify);
+
+  try {
+    worker.postMessage({ type: 'start', formatId: format.id, settings } satisfies ExportWorkerRequest);
+    for (const [index, buffer] of buffers.entries()) {
+      await waitUntil(() => index - chunksWritten < MAX_CHUNKS_IN_FLIGHT);
+      // A copy, since transferring detaches the buffer and the AudioBuffer still owns its data
+      const samples = (await resampleToMono(buffer, sampleRate)).slice();
+      throwIfAborted(signal);
+      worker.postMessage({ type: 'pcm', samples } satisfies ExportWorkerRequest, [samples.buffer]);
+    }
+    worker.postMessage({ type: 'finish' } satisfies ExportWorkerRequest);
+    await waitUntil(() => isDone);
+    await sinkWrites;
+  } finally {
+    signal?.removeEventListener('abort', notify);
+    worker.terminate();
+  }
+}
@@ -2,26 +2,7 @@
 import { INPUT_AUDIO_SAMPLE_RATE, NUM_AUDIO_CHANNELS, OUTPUT_AUDIO_SAMPLE_RATE } from '../constants';
 // FIX: Import the Blob type from @google/genai and alias it to avoid conflict with native DOM Blob
 import { Blob as GeminiApiBlob } from '@google/genai';
-
-// Define a basic interface for the lamejs Encoder instance
-// Fix: Added specific type definitions for Lame and LameEncoder
-interface LameEncoder {
-  encodeBuffer(pcm: Int16Array): Uint8Array;
-  flush(): Uint8Array;
-}
-
-// FIX: Export LameConstructor interface to allow it to be imported by App.tsx
-export interface LameConstructor {
-  new(config: { output: string; bitrate?: number; samplerate: number; channels: number; }): LameEncoder;
-}
-
-// Declare Lame on the global object with the specific constructor type
-// This clarifies to TypeScript the structure of the Lame object from the CDN script.
-declare global {
-  interface Window {
-    Lame: LameConstructor;
-  }
-}
+import { SerializedAudio } from '../types';
 
 export function decodeBase64(base64: string): Uint8Array {
   const binaryString = globalThis.atob(base64);
@@ -75,90 +56,124 @@ export function createPcmBlob(data: Float32Array): GeminiApiBlob {
 }
 
 /**
- * Encodes an array of raw Float32Array PCM audio buffers into an MP3 Blob.
- * Assumes the global `Lame` object is available from the lamejs CDN.
- * @param audioBuffers An array of AudioBuffer objects from the same stream.
- * @param sampleRate The sample rate of the audio data.
- * @param numChannels The number of audio channels.
- * @returns A Promise that resolves with an MP3 Blob (native DOM Blob type).
+ * Concatenates several AudioBuffers into a single continuous AudioBuffer.
+ * All inputs are expected to share the sample rate of the first buffer; channels
+ * missing from a shorter-channelled input are left silent.
+ * @param buffers The buffers to join, in playback order.
+ * @param ctx The AudioContext used to allocate the result.
+ * @returns A new AudioBuffer, or null if there is nothing to join.
  */
-// FIX: Changed return type to native DOM Blob, which is simpler and clearer.
-export function encodePCMToMP3(
-  audioBuffers: Array<AudioBuffer>,
-  sampleRate: number = OUTPUT_AUDIO_SAMPLE_RATE,
-  numChannels: number = NUM_AUDIO_CHANNELS
-): Promise<Blob> { // Use native DOM Blob type
-  return new Promise((resolve, reject) => {
-    console.log("encodePCMToMP3: Checking for globalThis.Lame. Typeof:", typeof globalThis.Lame); // DIAGNOSTIC LOG
-    // Check for window.Lame explicitly
-    if (typeof globalThis.Lame === 'undefined') {
-      const errorMessage = 'lamejs library not loaded. MP3 export unavailable.';
-      console.error(errorMessage);
-      reject(new Error(errorMessage)); // Reject the promise
-      return;
-    }
-
-    // Fix: Explicitly type the 'lame' instance to LameEncoder after construction.
-    // This helps TypeScript recognize the callable methods 'encodeBuffer' and 'flush'.
-    const lame: LameEncoder = new globalThis.Lame({
-      output: 'blob',
-      // The default bitrate will be chosen automatically if not specified.
-      // For speech, 128kbps is usually good.
-      bitrate: 128,
-      samplerate: sampleRate,
-      channels: numChannels,
-    });
-
-    // Explicitly type mp3data as Uint8Array[] to ensure correct type flow
-    const mp3data: Uint8Array[] = [];
+export function concatAudioBuffers(buffers: AudioBuffer[], ctx: BaseAudioContext): AudioBuffer | null {
+  if (buffers.length === 0) return null;
 
-    // Combine all audio buffers into a single Float32Array
-    let totalLength = 0;
-    for (const buffer of audioBuffers) {
-      totalLength += buffer.length;
-    }
+  const numChannels = Math.max(...buffers.map(b => b.numberOfChannels));
+  const totalLength = buffers.reduce((acc, b) => acc + b.length, 0);
+  const result = ctx.createBuffer(numChannels, totalLength, buffers[0].sampleRate);
 
-    const combinedBuffer = new Float32Array(totalLength);
+  for (let channel = 0; channel < numChannels; channel++) {
+    const target = result.getChannelData(channel);
     let offset = 0;
-    for (const buffer of audioBuffers) {
-      combinedBuffer.set(buffer.getChannelData(0), offset); // Assuming mono for simplicity
+    for (const buffer of buffers) {
+      if (channel < buffer.numberOfChannels) {
+        target.set(buffer.getChannelData(channel), offset);
+      }
       offset += buffer.length;
     }
+  }
+  return result;
+}
 
-    // Convert Float32Array to Int16Array, which lamejs expects
-    const pcm16 = new Int16Array(combinedBuffer.length);
-    for (let i = 0; i < combinedBuffer.length; i++) {
-      pcm16[i] = Math.max(-1, Math.min(1, combinedBuffer[i])) * 0x7FFF;
-    }
+/**
+ * Creates a silent AudioBuffer, e.g. for pauses requested by narration markup.
+ */
+export function createSilence(
+  seconds: number,
+  ctx: BaseAudioContext,
+  sampleRate: number = OUTPUT_AUDIO_SAMPLE_RATE,
+  numChannels: number = NUM_AUDIO_CHANNELS
+): AudioBuffer {
+  // AudioBuffers cannot be empty
+  return ctx.createBuffer(numChannels, Math.max(1, Math.round(seconds * sampleRate)), sampleRate);
+}
 
-    const MAX_CHUNK_SIZE = 1152; // Lame.js typical frame size for 44.1kHz, adjust for other rates if needed.
-    let encodedByteCount = 0;
+/**
+ * Root-mean-square level of a buffer across all channels (0 for silence).
+ */
+export function measureRmsLevel(buffer: AudioBuffer): number {
+  let sumOfSquares = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) sumOfSquares += data[i] * data[i];
+  }
+  const sampleCount = buffer.length * buffer.numberOfChannels;
+  return sampleCount > 0 ? Math.sqrt(sumOfSquares / sampleCount) : 0;
+}
 
-    for (let i = 0; i < pcm16.length; i += MAX_CHUNK_SIZE) {
-      // Explicitly type mp3buf as Uint8Array to prevent 'any' from lame.encodeBuffer
-      const mp3buf: Uint8Array = lame.encodeBuffer(pcm16.subarray(i, i + MAX_CHUNK_SIZE));
-      if (mp3buf.length > 0) {
-        mp3data.push(mp3buf);
-        encodedByteCount += mp3buf.length;
-      }
+/**
+ * Gains that bring the buffers to the same loudness (their average RMS level), so a louder voice
+ * does not win a comparison just by being louder. A gain never pushes a buffer's peak into clipping.
+ */
+export function computeLevelMatchGains(buffers: AudioBuffer[]): number[] {
+  const levels = buffers.map(measureRmsLevel);
+  const audible = levels.filter(level => level > 0);
+  if (audible.length === 0) return buffers.map(() => 1);
+  const target = audible.reduce((acc, level) => acc + level, 0) / audible.length;
+
+  return buffers.map((buffer, index) => {
+    if (levels[index] === 0) return 1;
+    let peak = 0;
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) peak = Math.max(peak, Math.abs(data[i]));
     }
+    const maxGain = peak > 0 ? 0.99 / peak : 1;
+    return Math.min(target / levels[index], maxGain);
+  });
+}
 
-    // Explicitly type mp3buf as Uint8Array to prevent 'any' from lame.flush
-    const mp3buf: Uint8Array = lame.flush();
-    if (mp3buf.length > 0) {
-      mp3data.push(mp3buf);
-      encodedByteCount += mp3buf.length;
-    }
+/**
+ * Returns a copy of the buffer with every sample multiplied by `gain`.
+ */
+export function applyGain(buffer: AudioBuffer, gain: number, ctx: BaseAudioContext): AudioBuffer {
+  const result = ctx.createBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const source = buffer.getChannelData(channel);
+    const target = result.getChannelData(channel);
+    for (let i = 0; i < source.length; i++) target[i] = source[i] * gain;
+  }
+  return result;
+}
 
-    if (encodedByteCount === 0) {
-      const errorMessage = 'MP3 encoding resulted in an empty file. Input audio might be too short or invalid.';
-      console.error(errorMessage);
-      reject(new Error(errorMessage));
-      return;
+/**
+ * Converts an AudioBuffer into 16-bit PCM for compact storage (e.g. in IndexedDB).
+ */
+export function serializeAudioBuffer(buffer: AudioBuffer): SerializedAudio {
+  const channels: Int16Array[] = [];
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    const pcm16 = new Int16Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      pcm16[i] = Math.max(-1, Math.min(1, data[i])) * 0x7FFF;
     }
+    channels.push(pcm16);
+  }
+  return { sampleRate: buffer.sampleRate, length: buffer.length, channels };
+}
 
-    // FIX 1: Explicitly use native DOM Blob constructor
-    const blob = new Blob(mp3data, { type: 'audio/mpeg' });
-    resolve(blob);
+/**
+ * Restores an AudioBuffer from stored 16-bit PCM. Does not need an AudioContext.
+ */
+export function deserializeAudioBuffer(audio: SerializedAudio): AudioBuffer {
+  const buffer = new AudioBuffer({
+    length: Math.max(audio.length, 1),
+    numberOfChannels: Math.max(audio.channels.length, 1),
+    sampleRate: audio.sampleRate,
+  });
+  audio.channels.forEach((pcm16, channel) => {
+    const target = buffer.getChannelData(channel);
+    for (let i = 0; i < pcm16.length; i++) {
+      target[i] = pcm16[i] / 32768.0;
+    }
   });
-}
\ No newline at end of file
+  return buffer;
+}
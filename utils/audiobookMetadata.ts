@@ -0,0 +1,68 @@
+// utils/audiobookMetadata.ts
+// Tags, chapter markers and cover art shared by the audio exporters.
+import { AudiobookExportChapter, AudiobookExportMetadata, Book, Chapter } from '../types';
+
+export interface ChapterMarker {
+  title: string;
+  startMs: number;
+  endMs: number;
+}
+
+export interface CoverImage {
+  data: Uint8Array;
+  mimeType: 'image/jpeg' | 'image/png';
+}
+
+/**
+ * Chapter markers from the chapters' audio durations. Chapters without audio get no marker.
+ */
+export function computeChapterMarkers(chapters: AudiobookExportChapter[]): ChapterMarker[] {
+  const markers: ChapterMarker[] = [];
+  let startSeconds = 0;
+  for (const chapter of chapters) {
+    const duration = chapter.buffers.reduce((acc, buffer) => acc + buffer.duration, 0);
+    if (duration > 0) {
+      markers.push({ title: chapter.title, startMs: Math.round(startSeconds * 1000), endMs: Math.round((startSeconds + duration) * 1000) });
+    }
+    startSeconds += duration;
+  }
+  return markers;
+}
+
+/**
+ * Starting values for the export dialog. A single exported chapter is numbered as a track of the book.
+ */
+export function createDefaultExportMetadata(
+  book: Book,
+  chapter: Chapter | null,
+  narrator: string,
+  cover: Blob | null
+): AudiobookExportMetadata {
+  const chapterIndex = chapter ? book.chapters.findIndex(candidate => candidate.id === chapter.id) : -1;
+  return {
+    title: chapter ? chapter.title : book.title,
+    author: book.author,
+    narrator,
+    album: book.title,
+    genre: 'Hangoskönyv',
+    trackNumber: chapterIndex >= 0 ? chapterIndex + 1 : 1,
+    trackTotal: chapter ? book.chapters.length : 1,
+    cover,
+  };
+}
+
+/**
+ * JPEG and PNG images are embedded as they are; other formats (e.g. WebP) are converted to JPEG,
+ * which every player can show.
+ */
+export async function prepareCoverImage(image: Blob): Promise<CoverImage> {
+  if (image.type === 'image/jpeg' || image.type === 'image/png') {
+    return { data: new Uint8Array(await image.arrayBuffer()), mimeType: image.type };
+  }
+  const bitmap = await createImageBitmap(image);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const jpeg = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.9 });
+  return { data: new Uint8Array(await jpeg.arrayBuffer()), mimeType: 'image/jpeg' };
+}
@@ -0,0 +1,54 @@
+// utils/byteUtils.ts
+// Small helpers for writing binary file formats.
+
+export const textEncoder = new TextEncoder();
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((acc, part) => acc + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// One byte per character; for format identifiers such as box types and frame IDs
+export const latin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0) & 0xff);
+
+export const u8 = (value: number) => Uint8Array.of(value & 0xff);
+
+// Big-endian integers
+export const u16be = (value: number) => Uint8Array.of((value >>> 8) & 0xff, value & 0xff);
+export const u24be = (value: number) => Uint8Array.of((value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+export const u32be = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0);
+  return bytes;
+};
+export const u64be = (value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(Math.max(0, Math.round(value))));
+  return bytes;
+};
+
+// Little-endian integers
+export const u16le = (value: number) => Uint8Array.of(value & 0xff, (value >>> 8) & 0xff);
+export const u32le = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0, true);
+  return bytes;
+};
+export const u64le = (value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt.asUintN(64, BigInt(Math.round(value))), true);
+  return bytes;
+};
+
+export function base64FromBytes(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return globalThis.btoa(binary);
+}
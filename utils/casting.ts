@@ -0,0 +1,192 @@
+// utils/casting.ts
+import { Book, CastMember } from '../types';
+import { splitTextIntoSegments } from './textSegmenter';
+import { buildStyleDirection, parseNarrationMarkup } from './narrationMarkup';
+
+// Speaker markup in the manuscript, one spoken line per manuscript line:
+//   [Anna] Hol voltál egész nap?   <- tag syntax, always recognized
+//   ANNA: Hol voltál egész nap?    <- name prefix, recognized for cast members
+//                                     (and proposed as a new character when written in capitals)
+const SPEAKER_TAG_REGEX = /^\s*\[([^\]\n]{1,40})\]\s*(.+)$/;
+const SPEAKER_PREFIX_REGEX = /^\s*([A-ZÁÉÍÓÖŐÚÜŰ][\p{L}'. -]{0,39}?)\s*:\s+(.+)$/u;
+const UPPERCASE_NAME_REGEX = /^[A-ZÁÉÍÓÖŐÚÜŰ][A-ZÁÉÍÓÖŐÚÜŰ'. -]*$/;
+
+export interface ScriptLine {
+  speaker: string | null; // null = narrator
+  text: string;
+}
+
+export interface VoicedRun {
+  speaker: string | null;
+  voice: string;
+  text: string;
+  style?: string;        // Style direction from narration markup
+  pauseSeconds?: number; // Set for pauses; `text` is empty then
+}
+
+const normalizeName = (name: string) => name.trim().toLocaleLowerCase('hu');
+
+export function findCastMember(cast: CastMember[], speaker: string): CastMember | undefined {
+  const key = normalizeName(speaker);
+  return cast.find(member => normalizeName(member.character) === key);
+}
+
+/**
+ * Splits a manuscript into narrator and character lines.
+ * `NAME: line` prefixes only count as speaker markup when the name belongs to the cast,
+ * so ordinary prose such as "Megjegyzés: ..." is left to the narrator.
+ */
+export function parseScriptLines(text: string, cast: CastMember[]): ScriptLine[] {
+  const lines: ScriptLine[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    if (!rawLine.trim()) {
+      // Keep paragraph breaks so segmentation still sees them
+      lines.push({ speaker: null, text: '' });
+      continue;
+    }
+
+    const tagMatch = rawLine.match(SPEAKER_TAG_REGEX);
+    if (tagMatch) {
+      lines.push({ speaker: tagMatch[1].trim(), text: tagMatch[2].trim() });
+      continue;
+    }
+
+    const prefixMatch = rawLine.match(SPEAKER_PREFIX_REGEX);
+    if (prefixMatch && findCastMember(cast, prefixMatch[1])) {
+      lines.push({ speaker: prefixMatch[1].trim(), text: prefixMatch[2].trim() });
+      continue;
+    }
+
+    lines.push({ speaker: null, text: rawLine.trim() });
+  }
+  return lines;
+}
+
+/**
+ * Lists the characters marked as speakers in the manuscript, in order of first appearance.
+ * Tagged speakers are always included; `NAME:` prefixes only when written in capitals
+ * or already part of the cast.
+ */
+export function detectSpeakers(text: string, cast: CastMember[] = []): string[] {
+  const speakers: string[] = [];
+  const seen = new Set<string>();
+  const add = (name: string) => {
+    const key = normalizeName(name);
+    if (!seen.has(key)) {
+      seen.add(key);
+      speakers.push(name.trim());
+    }
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const tagMatch = line.match(SPEAKER_TAG_REGEX);
+    if (tagMatch) {
+      add(tagMatch[1]);
+      continue;
+    }
+    const prefixMatch = line.match(SPEAKER_PREFIX_REGEX);
+    if (prefixMatch && (UPPERCASE_NAME_REGEX.test(prefixMatch[1].trim()) || findCastMember(cast, prefixMatch[1]))) {
+      add(prefixMatch[1]);
+    }
+  }
+  return speakers;
+}
+
+/**
+ * Removes speaker markup so only the spoken words remain (e.g. for on-screen captions).
+ */
+export function stripSpeakerMarkup(text: string, cast: CastMember[]): string {
+  return parseScriptLines(text, cast).map(line => line.text).join('\n');
+}
+
+/**
+ * Resolves the voice of every line and merges consecutive lines spoken by the same voice.
+ * Characters without a cast entry fall back to the narrator voice.
+ */
+export function buildVoicedRuns(text: string, cast: CastMember[], narratorVoice: string): VoicedRun[] {
+  const runs: VoicedRun[] = [];
+  for (const line of parseScriptLines(text, cast)) {
+    const voice = line.speaker ? findCastMember(cast, line.speaker)?.voice ?? narratorVoice : narratorVoice;
+    const previous = runs[runs.length - 1];
+    if (previous && previous.voice === voice && previous.speaker === line.speaker) {
+      previous.text += `\n${line.text}`;
+    } else if (line.text || previous) {
+      runs.push({ speaker: line.speaker, voice, text: line.text });
+    }
+  }
+  return runs.filter(run => run.text.trim().length > 0);
+}
+
+/**
+ * Splits a manuscript into API-sized pieces, each spoken by a single voice in a single style.
+ * Narration markup pauses become separate, text-less pieces.
+ */
+export function splitScriptIntoVoicedSegments(
+  text: string,
+  cast: CastMember[],
+  narratorVoice: string,
+  previousSegmentTexts: string[] = []
+): VoicedRun[] {
+  return buildVoicedRuns(text, cast, narratorVoice).flatMap(run =>
+    parseNarrationMarkup(run.text).flatMap((piece): VoicedRun[] => {
+      if (piece.kind === 'pause') {
+        return [{ speaker: run.speaker, voice: run.voice, text: '', pauseSeconds: piece.seconds }];
+      }
+      return splitTextIntoSegments(piece.text, undefined, previousSegmentTexts).map(segmentText => {
+        const style = buildStyleDirection(piece.style, piece.emphasis, segmentText);
+        return { speaker: run.speaker, voice: run.voice, text: segmentText, ...(style ? { style } : {}) };
+      });
+    })
+  );
+}
+
+/**
+ * Re-resolves the voice of every generated segment against the current cast and narrator voice.
+ * Segments whose voice changed lose their audio and have to be generated again.
+ * A per-segment voice override is kept.
+ */
+export function applyVoicesToSegments(book: Book, narratorVoice: string): Book {
+  return {
+    ...book,
+    chapters: book.chapters.map(chapter => ({
+      ...chapter,
+      segments: chapter.segments.map(segment => {
+        const voice = segment.voiceOverride ?? (segment.speaker
+          ? findCastMember(book.cast, segment.speaker)?.voice ?? narratorVoice
+          : narratorVoice);
+        return voice === segment.voice
+          ? segment
+          : { ...segment, voice, status: 'pending', audioRef: undefined, duration: undefined, error: undefined };
+      }),
+    })),
+  };
+}
+
+/**
+ * Proposes a voice for every character not yet in the cast.
+ * Voices are handed out in the order given, skipping the narrator and voices already taken,
+ * so characters stay distinguishable; once every voice is used they are reused round-robin.
+ */
+export function suggestCastForSpeakers(
+  speakers: string[],
+  cast: CastMember[],
+  narratorVoice: string,
+  voices: string[],
+): CastMember[] {
+  // Voice names are compared case-insensitively ('Kore' and 'kore' are the same voice)
+  const used = new Set([narratorVoice, ...cast.map(member => member.voice)].map(voice => voice.toLowerCase()));
+  const available = voices.filter(voice => !used.has(voice.toLowerCase()));
+  const fallback = voices.filter(voice => voice.toLowerCase() !== narratorVoice.toLowerCase());
+  let nextIndex = 0;
+
+  const additions: CastMember[] = [];
+  for (const speaker of speakers) {
+    if (findCastMember(cast, speaker) || findCastMember(additions, speaker)) continue;
+    const voice = nextIndex < available.length
+      ? available[nextIndex]
+      : fallback[(nextIndex - available.length) % Math.max(fallback.length, 1)] ?? narratorVoice;
+    nextIndex++;
+    additions.push({ character: speaker, voice });
+  }
+  return additions;
+}
@@ -0,0 +1,232 @@
+// utils/dialogueAttribution.ts
+// Detection of quoted dialogue in prose and a deterministic speaker-attribution heuristic.
+// The Gemini-based attribution in services/dialogueAnalysis.ts falls back to this.
+
+export type AttributionSource = 'model' | 'heuristic' | 'manual';
+
+export interface ProsePiece {
+  kind: 'speech' | 'narration';
+  text: string;
+}
+
+export interface DialogueLine {
+  id: number;             // Index in the list of detected lines
+  paragraphIndex: number; // Index of the paragraph (non-empty manuscript line)
+  pieceIndex: number;     // Index of the speech piece within the paragraph
+  quote: string;
+  context: string;        // The whole paragraph, for display and for the model prompt
+  speaker: string | null;
+  confidence: number;     // 0..1
+  source: AttributionSource;
+}
+
+// „Hungarian”, “English”, "straight", »guillemets«
+const QUOTE_REGEX = /„([^”"]+)[”"]|“([^”]+)”|"([^"]+)"|»([^«]+)«/g;
+// Hungarian dash dialogue: "– Hol voltál? – kérdezte Anna. – Kerestelek."
+const DASH_DIALOGUE_START_REGEX = /^[–—-]\s+/;
+const DASH_SEPARATOR_REGEX = /\s[–—]\s/;
+
+const SPEECH_VERBS = [
+  // Hungarian
+  'mondta', 'kérdezte', 'felelte', 'válaszolta', 'kiáltotta', 'kiabálta', 'suttogta', 'súgta', 'szólt',
+  'motyogta', 'morogta', 'dörmögte', 'nevetett', 'sóhajtotta', 'folytatta', 'tette hozzá', 'szólalt meg',
+  'jegyezte meg', 'vágott közbe', 'kérdezi', 'mondja', 'feleli', 'válaszolja',
+  // English
+  'said', 'asked', 'replied', 'answered', 'whispered', 'shouted', 'cried', 'muttered', 'added', 'called',
+  'says', 'asks', 'replies',
+];
+const SPEECH_VERB_PATTERN = SPEECH_VERBS.map(verb => verb.replace(/ /g, '\\s+')).join('|');
+const NAME_PATTERN = "[A-ZÁÉÍÓÖŐÚÜŰ][\\p{L}'-]+(?:\\s+[A-ZÁÉÍÓÖŐÚÜŰ][\\p{L}'-]+)?";
+const VERB_THEN_NAME_REGEX = new RegExp(`(?:${SPEECH_VERB_PATTERN})\\s+(?:(?:a|az|the)\\s+)?(${NAME_PATTERN})`, 'u');
+const NAME_THEN_VERB_REGEX = new RegExp(`(${NAME_PATTERN})\\s+(?:(?:is|also|azt|meg|pedig)\\s+)?(?:${SPEECH_VERB_PATTERN})`, 'u');
+
+// Capitalized words that are not names (sentence starters, pronouns)
+const NOT_A_NAME = new Set([
+  'a', 'az', 'egy', 'ő', 'ők', 'én', 'te', 'mi', 'ti', 'aztán', 'majd', 'de', 'és', 'hát', 'igen', 'nem', 'ekkor', 'erre',
+  'the', 'he', 'she', 'they', 'i', 'you', 'we', 'it', 'then', 'but', 'and', 'yes', 'no', 'his', 'her',
+]);
+
+const isPlausibleName = (name: string) => !NOT_A_NAME.has(name.split(/\s+/)[0].toLocaleLowerCase('hu'));
+
+/**
+ * Splits a paragraph into alternating speech and narration pieces.
+ */
+export function splitParagraphIntoPieces(paragraph: string): ProsePiece[] {
+  const trimmed = paragraph.trim();
+
+  if (DASH_DIALOGUE_START_REGEX.test(trimmed)) {
+    // Parts alternate: speech, narration, speech, ...
+    return trimmed
+      .replace(DASH_DIALOGUE_START_REGEX, '')
+      .split(DASH_SEPARATOR_REGEX)
+      .map((part, index): ProsePiece => ({ kind: index % 2 === 0 ? 'speech' : 'narration', text: part.trim() }))
+      .filter(piece => piece.text.length > 0);
+  }
+
+  const pieces: ProsePiece[] = [];
+  let lastIndex = 0;
+  for (const match of trimmed.matchAll(QUOTE_REGEX)) {
+    const before = trimmed.slice(lastIndex, match.index).trim();
+    if (before) pieces.push({ kind: 'narration', text: before });
+    const quote = (match[1] ?? match[2] ?? match[3] ?? match[4]).trim();
+    if (quote) pieces.push({ kind: 'speech', text: quote });
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  const rest = trimmed.slice(lastIndex).trim();
+  if (rest) pieces.push({ kind: 'narration', text: rest });
+  return pieces;
+}
+
+export function splitIntoParagraphs(text: string): string[] {
+  return text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+}
+
+/**
+ * Finds every piece of quoted or dash-introduced dialogue in the manuscript.
+ * Speakers are left unassigned.
+ */
+export function extractDialogueLines(text: string): DialogueLine[] {
+  const lines: DialogueLine[] = [];
+  splitIntoParagraphs(text).forEach((paragraph, paragraphIndex) => {
+    splitParagraphIntoPieces(paragraph).forEach((piece, pieceIndex) => {
+      if (piece.kind !== 'speech') return;
+      lines.push({
+        id: lines.length,
+        paragraphIndex,
+        pieceIndex,
+        quote: piece.text,
+        context: paragraph,
+        speaker: null,
+        confidence: 0,
+        source: 'heuristic',
+      });
+    });
+  });
+  return lines;
+}
+
+function findNameNearSpeechVerb(narration: string): string | null {
+  const verbFirst = narration.match(VERB_THEN_NAME_REGEX);
+  if (verbFirst && isPlausibleName(verbFirst[1])) return verbFirst[1];
+  const nameFirst = narration.match(NAME_THEN_VERB_REGEX);
+  if (nameFirst && isPlausibleName(nameFirst[1])) return nameFirst[1];
+  return null;
+}
+
+function findKnownCharacter(narration: string, knownCharacters: string[]): string | null {
+  const lower = narration.toLocaleLowerCase('hu');
+  return knownCharacters.find(character => lower.includes(character.toLocaleLowerCase('hu'))) ?? null;
+}
+
+/**
+ * Deterministic attribution:
+ * 1. a speech verb next to a name in the same paragraph ("– kérdezte Anna", "John said"),
+ * 2. a known character mentioned in the paragraph's narration,
+ * 3. turn-taking: an unattributed line continues a two-person exchange.
+ */
+export function attributeDialogueHeuristically(lines: DialogueLine[], knownCharacters: string[] = []): DialogueLine[] {
+  const result: DialogueLine[] = [];
+  // Speakers of the previous dialogue paragraphs, most recent last
+  const recentSpeakers: (string | null)[] = [];
+  let lastParagraphIndex = -1;
+
+  for (const line of lines) {
+    const pieces = splitParagraphIntoPieces(line.context);
+    const narration = [pieces[line.pieceIndex + 1], pieces[line.pieceIndex - 1]]
+      .filter((piece): piece is ProsePiece => piece?.kind === 'narration')
+      .map(piece => piece.text);
+    const allNarration = pieces.filter(piece => piece.kind === 'narration').map(piece => piece.text).join(' ');
+
+    let speaker: string | null = null;
+    let confidence = 0;
+
+    for (const text of [...narration, allNarration]) {
+      speaker = findNameNearSpeechVerb(text);
+      if (speaker) {
+        confidence = 0.9;
+        break;
+      }
+    }
+    if (!speaker) {
+      speaker = findKnownCharacter(allNarration, knownCharacters);
+      if (speaker) confidence = 0.6;
+    }
+    if (!speaker && line.paragraphIndex === lastParagraphIndex) {
+      // Another quote in the same paragraph: same speaker as the previous one
+      speaker = recentSpeakers[recentSpeakers.length - 1] ?? null;
+      if (speaker) confidence = 0.7;
+    }
+    if (!speaker && line.paragraphIndex !== lastParagraphIndex && recentSpeakers.length >= 2) {
+      const [secondLast, last] = recentSpeakers.slice(-2);
+      if (secondLast && last && secondLast !== last) {
+        speaker = secondLast;
+        confidence = 0.4;
+      }
+    }
+
+    if (line.paragraphIndex !== lastParagraphIndex) {
+      recentSpeakers.push(speaker);
+      if (recentSpeakers.length > 4) recentSpeakers.shift();
+      lastParagraphIndex = line.paragraphIndex;
+    } else if (speaker) {
+      recentSpeakers[recentSpeakers.length - 1] = speaker;
+    }
+
+    result.push({ ...line, speaker, confidence, source: 'heuristic' });
+  }
+  return result;
+}
+
+/**
+ * Collects the attributed characters, ordered by number of lines (most talkative first).
+ */
+export function listAttributedCharacters(lines: DialogueLine[]): string[] {
+  const counts = new Map<string, number>();
+  for (const line of lines) {
+    if (line.speaker) counts.set(line.speaker, (counts.get(line.speaker) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([character]) => character);
+}
+
+/**
+ * Rewrites the manuscript into the casting markup understood by utils/casting.ts:
+ * every attributed quote goes on its own `[Speaker] quote` line, narration stays with the narrator.
+ * Paragraphs without attributed dialogue are left untouched.
+ */
+export function applyAttributionToText(text: string, lines: DialogueLine[]): string {
+  const byParagraph = new Map<number, DialogueLine[]>();
+  for (const line of lines) {
+    if (!line.speaker) continue;
+    byParagraph.set(line.paragraphIndex, [...(byParagraph.get(line.paragraphIndex) ?? []), line]);
+  }
+
+  let paragraphIndex = -1;
+  return text
+    .split(/\r?\n/)
+    .map(rawLine => {
+      if (!rawLine.trim()) return rawLine;
+      paragraphIndex++;
+      const attributed = byParagraph.get(paragraphIndex);
+      if (!attributed) return rawLine;
+
+      const output: string[] = [];
+      let narrationBuffer: string[] = [];
+      const flushNarration = () => {
+        if (narrationBuffer.length > 0) output.push(narrationBuffer.join(' '));
+        narrationBuffer = [];
+      };
+
+      splitParagraphIntoPieces(rawLine).forEach((piece, pieceIndex) => {
+        const line = attributed.find(candidate => candidate.pieceIndex === pieceIndex);
+        if (piece.kind === 'speech' && line?.speaker) {
+          flushNarration();
+          output.push(`[${line.speaker}] ${piece.text}`);
+        } else {
+          narrationBuffer.push(piece.kind === 'speech' ? `„${piece.text}”` : piece.text);
+        }
+      });
+      flushNarration();
+      return output.join('\n');
+    })
+    .join('\n');
+}
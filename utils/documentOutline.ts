@@ -0,0 +1,60 @@
+// utils/documentOutline.ts
+// Turns the paragraphs of an imported document into chapters by its heading levels.
+import { ImportedManuscript, SkippedPassage } from '../types';
+
+export interface ManuscriptBlock {
+  text: string;
+  headingLevel: number; // 1–6 for headings, 0 for body text
+  skipped?: Omit<SkippedPassage, 'chapterIndex'>[]; // Notes and comments anchored in this block
+}
+
+// Read before a section heading inside a chapter, so the section change is audible
+export const SECTION_BREAK = '<pause 2s/>';
+
+/**
+ * Headings of the document's top level start chapters, the next level starts sections within
+ * them (a pause and the spoken heading); deeper headings are read as ordinary paragraphs.
+ * Text before the first chapter heading becomes an opening chapter; empty chapters are dropped.
+ */
+export function blocksToChapters(
+  blocks: ManuscriptBlock[],
+  fallbackTitle: string = '1. fejezet'
+): Pick<ImportedManuscript, 'chapters' | 'skipped'> {
+  // A document that starts its headings at level 2 still gets chapters
+  const headingLevels = blocks.map(block => block.headingLevel).filter(level => level > 0);
+  const chapterLevel = headingLevels.length > 0 ? Math.min(...headingLevels) : 0;
+
+  const drafts: { title: string; paragraphs: string[]; skipped: Omit<SkippedPassage, 'chapterIndex'>[] }[] = [];
+  for (const block of blocks) {
+    const text = block.text.trim();
+    if (chapterLevel && block.headingLevel === chapterLevel && text) {
+      drafts.push({ title: text.replace(/\s+/g, ' '), paragraphs: [], skipped: [] });
+    } else {
+      if (drafts.length === 0) drafts.push({ title: '', paragraphs: [], skipped: [] });
+      const chapter = drafts[drafts.length - 1];
+      const isBreak = text === SECTION_BREAK || (text !== '' && block.headingLevel === chapterLevel + 1);
+      // A break is only kept between paragraphs, and only once (e.g. a rule followed by a section heading)
+      const last = chapter.paragraphs[chapter.paragraphs.length - 1];
+      if (isBreak && last !== undefined && last !== SECTION_BREAK) chapter.paragraphs.push(SECTION_BREAK);
+      if (text && text !== SECTION_BREAK) chapter.paragraphs.push(text);
+    }
+    drafts[drafts.length - 1]?.skipped.push(...(block.skipped ?? []));
+  }
+  for (const draft of drafts) {
+    if (draft.paragraphs[draft.paragraphs.length - 1] === SECTION_BREAK) draft.paragraphs.pop();
+  }
+
+  const kept = drafts.filter(draft => draft.paragraphs.length > 0);
+  return {
+    chapters: kept.map((draft, index) => ({
+      title: draft.title || (index === 0 ? fallbackTitle : `${index + 1}. fejezet`),
+      text: draft.paragraphs.join('\n\n'),
+    })),
+    // Notes of a dropped (empty) chapter belong to the next chapter that is kept
+    skipped: drafts.flatMap((draft, draftIndex) => {
+      const keptIndex = kept.findIndex(candidate => drafts.indexOf(candidate) >= draftIndex);
+      const chapterIndex = keptIndex >= 0 ? keptIndex : kept.length - 1;
+      return draft.skipped.map(passage => ({ ...passage, chapterIndex: Math.max(0, chapterIndex) }));
+    }),
+  };
+}
@@ -0,0 +1,181 @@
+// utils/epubImport.ts
+// Reads an EPUB 2/3 package in the browser: the OPF spine gives the reading order, the EPUB 3 nav
+// document or the EPUB 2 NCX gives the chapter titles and where each chapter starts.
+import { ImportedManuscript } from '../types';
+import { extractTextBlocks, parseHtmlDocument, TextBlock } from './htmlText';
+import { openZip, resolveZipPath, ZipArchive } from './zipReader';
+
+interface TocEntry {
+  title: string;
+  path: string;
+  fragment: string | null;
+}
+
+interface ManifestItem {
+  path: string;
+  mediaType: string;
+  properties: string;
+}
+
+const DC_NAMESPACE = 'http://purl.org/dc/elements/1.1/';
+// Ornaments and separators are not worth a scene
+const MIN_SCENE_IMAGE_BYTES = 8 * 1024;
+
+const parseXml = (source: string) => new DOMParser().parseFromString(source, 'application/xml');
+const byLocalName = (root: Document | Element, name: string) => Array.from(root.getElementsByTagNameNS('*', name));
+const cleanTitle = (title: string) => title.replace(/\s+/g, ' ').trim();
+// "1. Az érkezés" in the TOC and "Az érkezés" as the heading count as the same title
+const sameTitle = (a: string, b: string) => {
+  const [x, y] = [a, b].map(title => cleanTitle(title).toLocaleLowerCase());
+  return x.includes(y) || y.includes(x);
+};
+
+async function readOpfPath(zip: ZipArchive): Promise<string> {
+  if (!zip.has('META-INF/container.xml')) throw new Error('A fájl nem EPUB csomag (hiányzik a META-INF/container.xml).');
+  const container = parseXml(await zip.readText('META-INF/container.xml'));
+  const path = byLocalName(container, 'rootfile')[0]?.getAttribute('full-path');
+  if (!path || !zip.has(path)) throw new Error('Az EPUB csomagleírója (OPF) nem található.');
+  return path;
+}
+
+function readNavToc(nav: Document, navPath: string): TocEntry[] {
+  const tocNav = byLocalName(nav, 'nav').find(element => /\btoc\b/.test(element.getAttribute('epub:type') ?? element.getAttribute('role') ?? ''))
+    ?? byLocalName(nav, 'nav')[0];
+  if (!tocNav) return [];
+  return byLocalName(tocNav, 'a')
+    .filter(link => link.getAttribute('href'))
+    .map(link => {
+      const href = link.getAttribute('href')!;
+      return { title: cleanTitle(link.textContent ?? ''), path: resolveZipPath(navPath, href), fragment: href.split('#')[1] ?? null };
+    });
+}
+
+function readNcxToc(ncx: Document, ncxPath: string): TocEntry[] {
+  // navPoints are nested; document order lists parents before their children
+  return byLocalName(ncx, 'navPoint').flatMap(point => {
+    const label = Array.from(point.children).find(child => child.localName === 'navLabel');
+    const content = Array.from(point.children).find(child => child.localName === 'content');
+    const src = content?.getAttribute('src');
+    if (!src) return [];
+    return [{ title: cleanTitle(label?.textContent ?? ''), path: resolveZipPath(ncxPath, src), fragment: src.split('#')[1] ?? null }];
+  });
+}
+
+function chapterBreakIndex(blocks: TextBlock[], fragment: string | null): number {
+  if (!fragment) return 0;
+  const index = blocks.findIndex(block => block.anchorIds.includes(fragment));
+  return index >= 0 ? index : 0;
+}
+
+/**
+ * Reads an .epub file into chapters. Each TOC entry starts a chapter (at its fragment, if it has
+ * one); spine documents the TOC does not mention continue the previous chapter. Without a TOC,
+ * every spine document becomes a chapter named after its first heading.
+ * The cover and the images of the spine documents are returned too, cover first.
+ */
+export async function importEpub(file: File): Promise<ImportedManuscript> {
+  const zip = openZip(await file.arrayBuffer());
+  const opfPath = await readOpfPath(zip);
+  const opf = parseXml(await zip.readText(opfPath));
+
+  const manifest = new Map<string, ManifestItem>();
+  for (const item of byLocalName(opf, 'item')) {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) {
+      manifest.set(id, {
+        path: resolveZipPath(opfPath, href),
+        mediaType: item.getAttribute('media-type') ?? '',
+        properties: item.getAttribute('properties') ?? '',
+      });
+    }
+  }
+  const spineElement = byLocalName(opf, 'spine')[0];
+  const spine = byLocalName(opf, 'itemref')
+    .filter(ref => ref.getAttribute('linear') !== 'no')
+    .map(ref => manifest.get(ref.getAttribute('idref') ?? ''))
+    .filter((item): item is ManifestItem => !!item && zip.has(item.path));
+  if (spine.length === 0) throw new Error('Az EPUB nem tartalmaz olvasható fejezeteket.');
+
+  // EPUB 3 nav document first, the EPUB 2 NCX as fallback
+  let toc: TocEntry[] = [];
+  const navItem = [...manifest.values()].find(item => /\bnav\b/.test(item.properties));
+  if (navItem && zip.has(navItem.path)) {
+    toc = readNavToc(parseHtmlDocument(await zip.readText(navItem.path)), navItem.path);
+  }
+  const ncxItem = manifest.get(spineElement?.getAttribute('toc') ?? '')
+    ?? [...manifest.values()].find(item => item.mediaType === 'application/x-dtbncx+xml');
+  if (toc.length === 0 && ncxItem && zip.has(ncxItem.path)) {
+    toc = readNcxToc(parseXml(await zip.readText(ncxItem.path)), ncxItem.path);
+  }
+  const spinePaths = new Set(spine.map(item => item.path));
+  toc = toc.filter(entry => spinePaths.has(entry.path));
+
+  const chapters: { title: string; blocks: TextBlock[] }[] = [];
+  const imagePaths: string[] = [];
+  for (const item of spine) {
+    const page = parseHtmlDocument(await zip.readText(item.path));
+    const body = page.getElementsByTagName('body')[0] ?? page.documentElement;
+    const blocks = extractTextBlocks(body);
+
+    for (const image of [...byLocalName(page, 'img'), ...byLocalName(page, 'image')]) {
+      const href = image.getAttribute('src') ?? image.getAttribute('href') ?? image.getAttribute('xlink:href');
+      if (href && !href.startsWith('data:')) imagePaths.push(resolveZipPath(item.path, href));
+    }
+
+    // Where each chapter of this document starts, in block order
+    const breaks = toc.length > 0
+      ? toc.filter(entry => entry.path === item.path).map(entry => ({ title: entry.title, index: chapterBreakIndex(blocks, entry.fragment) }))
+      : [{ title: '', index: 0 }];
+    breaks.sort((a, b) => a.index - b.index);
+    if (chapters.length === 0 && (breaks.length === 0 || breaks[0].index > 0)) {
+      breaks.unshift({ title: '', index: 0 }); // Front matter before the first TOC entry
+    }
+
+    let position = 0;
+    for (let i = 0; i <= breaks.length; i++) {
+      const end = i < breaks.length ? breaks[i].index : blocks.length;
+      if (end > position) chapters[chapters.length - 1].blocks.push(...blocks.slice(position, end));
+      position = Math.max(position, end);
+      if (i < breaks.length) {
+        // Several TOC entries pointing at the same place form one chapter under the first title
+        const previous = chapters[chapters.length - 1];
+        if (previous && previous.blocks.length === 0 && i > 0 && breaks[i].index === breaks[i - 1].index) continue;
+        chapters.push({ title: breaks[i].title, blocks: [] });
+      }
+    }
+  }
+
+  const importedChapters = chapters
+    .map(chapter => {
+      let blocks = chapter.blocks;
+      const firstHeading = blocks[0]?.headingLevel ? blocks[0].text.replace(/\n/g, ' ') : '';
+      const title = chapter.title || firstHeading;
+      // The heading is the chapter title itself; the narration starts after it
+      if (firstHeading && sameTitle(firstHeading, title)) blocks = blocks.slice(1);
+      return { title, text: blocks.map(block => block.text).join('\n\n') };
+    })
+    .filter(chapter => chapter.text.trim())
+    .map((chapter, index) => ({ ...chapter, title: chapter.title || `${index + 1}. fejezet` }));
+
+  // The cover is declared in the EPUB 3 manifest properties or in an EPUB 2 <meta name="cover">
+  const coverId = byLocalName(opf, 'meta').find(meta => meta.getAttribute('name') === 'cover')?.getAttribute('content');
+  const coverPath = [...manifest.values()].find(item => /\bcover-image\b/.test(item.properties))?.path
+    ?? (coverId ? manifest.get(coverId)?.path : undefined);
+  const mediaTypes = new Map([...manifest.values()].map(item => [item.path, item.mediaType]));
+  const images: File[] = [];
+  for (const path of new Set([...(coverPath ? [coverPath] : []), ...imagePaths])) {
+    if (!zip.has(path) || !mediaTypes.get(path)?.startsWith('image/')) continue;
+    const bytes = await zip.readBytes(path);
+    if (path !== coverPath && bytes.byteLength < MIN_SCENE_IMAGE_BYTES) continue;
+    images.push(new File([bytes], path.split('/').pop()!, { type: mediaTypes.get(path) }));
+  }
+
+  return {
+    title: cleanTitle(byLocalName(opf, 'title').find(element => element.namespaceURI === DC_NAMESPACE)?.textContent ?? ''),
+    author: cleanTitle(byLocalName(opf, 'creator').find(element => element.namespaceURI === DC_NAMESPACE)?.textContent ?? ''),
+    chapters: importedChapters,
+    images,
+    skipped: [],
+  };
+}
@@ -0,0 +1,32 @@
+// utils/exportFormats.ts
+// The audiobook export formats offered in the format picker, and the remembered choice.
+import { ExportFormat } from '../types';
+import { AudioExportFormat } from './audioExport';
+import { flacExportFormat } from './flacEncoder';
+import { m4bExportFormat } from './m4bEncoder';
+import { mp3ExportFormat } from './mp3Encoder';
+import { opusExportFormat } from './opusEncoder';
+import { wav16ExportFormat, wav24ExportFormat } from './wavEncoder';
+
+export const EXPORT_FORMATS: AudioExportFormat[] = [
+  mp3ExportFormat,
+  m4bExportFormat,
+  opusExportFormat,
+  flacExportFormat,
+  wav16ExportFormat,
+  wav24ExportFormat,
+];
+
+export const getExportFormat = (id: ExportFormat): AudioExportFormat =>
+  EXPORT_FORMATS.find(format => format.id === id) ?? EXPORT_FORMATS[0];
+
+const EXPORT_FORMAT_STORAGE_KEY = 'exportFormat';
+
+export function loadExportFormatId(): ExportFormat {
+  const saved = globalThis.localStorage.getItem(EXPORT_FORMAT_STORAGE_KEY);
+  return EXPORT_FORMATS.find(format => format.id === saved)?.id ?? 'mp3';
+}
+
+export function saveExportFormatId(id: ExportFormat): void {
+  globalThis.localStorage.setItem(EXPORT_FORMAT_STORAGE_KEY, id);
+}
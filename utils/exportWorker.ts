@@ -0,0 +1,55 @@
+// utils/exportWorker.ts
+// Module worker that runs an export format's encoder off the main thread. Started and fed by
+// `exportAudiobook`; handles its messages strictly in order and streams the encoded bytes back.
+import { ExportSink, ExportWorkerRequest, ExportWorkerResponse, PcmEncoder } from './audioExport';
+import { getExportFormat } from './exportFormats';
+
+const post = (message: ExportWorkerResponse, transfer: Transferable[] = []) => globalThis.postMessage(message, { transfer });
+
+// Encoders may reuse or keep their buffers, so each message carries its own copy
+const sink: ExportSink = {
+  append: async data => {
+    const copy = data.slice();
+    post({ type: 'append', data: copy }, [copy.buffer]);
+  },
+  patch: async (position, data) => {
+    const copy = data.slice();
+    post({ type: 'patch', position, data: copy }, [copy.buffer]);
+  },
+};
+
+let encoder: PcmEncoder | null = null;
+let hasFailed = false;
+let queue = Promise.resolve();
+
+async function handleMessage(message: ExportWorkerRequest): Promise<void> {
+  if (message.type === 'start') {
+    encoder = await getExportFormat(message.formatId).createEncoder(message.settings, sink);
+    return;
+  }
+  if (!encoder) {
+    throw new Error('Az exportálás nem indult el.');
+  }
+  if (message.type === 'pcm') {
+    await encoder.write(message.samples);
+    post({ type: 'written' });
+  } else {
+    await encoder.finish();
+    encoder = null;
+    post({ type: 'done' });
+  }
+}
+
+globalThis.onmessage = (event: MessageEvent<ExportWorkerRequest>) => {
+  queue = queue.then(async () => {
+    if (hasFailed) return;
+    try {
+      await handleMessage(event.data);
+    } catch (err) {
+      hasFailed = true;
+      encoder?.close();
+      encoder = null;
+      post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+  });
+};
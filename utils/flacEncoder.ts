@@ -0,0 +1,260 @@
+// utils/flacEncoder.ts
+// Lossless 16-bit mono FLAC: fixed linear predictors with Rice-coded residuals, Vorbis comment
+// tags (including chapters) and the cover as a PICTURE block.
+import { AudioExportFormat, EncoderSettings, ExportSink, PcmEncoder } from './audioExport';
+import { concatBytes, latin1, u16be, u24be, u32be, u8 } from './byteUtils';
+import { createFlacPicture, createVorbisComments, encodeVorbisComments } from './vorbisComment';
+
+const BLOCK_SIZE = 4096;
+const BITS_PER_SAMPLE = 16;
+const MAX_RICE_PARAMETER = 14; // 15 is the escape code of 4-bit parameters
+
+// Frame header sample rate codes; other rates are read from STREAMINFO (code 0)
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0x1, 176400: 0x2, 192000: 0x3, 8000: 0x4, 16000: 0x5, 22050: 0x6,
+  24000: 0x7, 32000: 0x8, 44100: 0x9, 48000: 0xa, 96000: 0xb,
+};
+
+const CRC8_TABLE = new Uint8Array(256);
+const CRC16_TABLE = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc8 = i;
+  let crc16 = i << 8;
+  for (let bit = 0; bit < 8; bit++) {
+    crc8 = crc8 & 0x80 ? ((crc8 << 1) ^ 0x07) & 0xff : (crc8 << 1) & 0xff;
+    crc16 = crc16 & 0x8000 ? ((crc16 << 1) ^ 0x8005) & 0xffff : (crc16 << 1) & 0xffff;
+  }
+  CRC8_TABLE[i] = crc8;
+  CRC16_TABLE[i] = crc16;
+}
+
+function crc8(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) crc = CRC8_TABLE[crc ^ byte];
+  return crc;
+}
+
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ byte];
+  return crc;
+}
+
+class BitWriter {
+  private bytes = new Uint8Array(BLOCK_SIZE * 3);
+  private length = 0;
+  private accumulator = 0;
+  private pending = 0; // Bits in the accumulator
+
+  // Writes the low `count` bits of `value`, most significant first; count <= 24
+  write(value: number, count: number): void {
+    this.accumulator = (this.accumulator << count) | (value & ((1 << count) - 1));
+    this.pending += count;
+    while (this.pending >= 8) {
+      this.pending -= 8;
+      this.pushByte((this.accumulator >>> this.pending) & 0xff);
+    }
+    this.accumulator &= (1 << this.pending) - 1;
+  }
+
+  writeUnary(zeros: number): void {
+    for (; zeros >= 16; zeros -= 16) this.write(0, 16);
+    this.write(1, zeros + 1);
+  }
+
+  // Pads to a byte boundary and returns the written bytes
+  finish(): Uint8Array {
+    if (this.pending > 0) this.write(0, 8 - this.pending);
+    return this.bytes.subarray(0, this.length);
+  }
+
+  private pushByte(byte: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+}
+
+// Residuals of the fixed predictor of the given order (0-4) for samples from `order` onwards
+function fixedResidual(samples: Int32Array, order: number): Int32Array {
+  const residual = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const x = samples[i];
+    switch (order) {
+      case 0: residual[i] = x; break;
+      case 1: residual[i - 1] = x - samples[i - 1]; break;
+      case 2: residual[i - 2] = x - 2 * samples[i - 1] + samples[i - 2]; break;
+      case 3: residual[i - 3] = x - 3 * samples[i - 1] + 3 * samples[i - 2] - samples[i - 3]; break;
+      default: residual[i - 4] = x - 4 * samples[i - 1] + 6 * samples[i - 2] - 4 * samples[i - 3] + samples[i - 4];
+    }
+  }
+  return residual;
+}
+
+const zigzag = (value: number) => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+function riceBits(residual: Int32Array, parameter: number): number {
+  let bits = 0;
+  for (const value of residual) bits += (zigzag(value) >>> parameter) + 1 + parameter;
+  return bits;
+}
+
+// Picks the parameter around log2 of the mean, which is within one of the optimum
+function bestRiceParameter(residual: Int32Array): { parameter: number; bits: number } {
+  let sum = 0;
+  for (const value of residual) sum += zigzag(value);
+  const mean = residual.length > 0 ? sum / residual.length : 0;
+  const estimate = Math.min(MAX_RICE_PARAMETER, Math.max(0, Math.floor(Math.log2(Math.max(mean, 1)))));
+  let best = { parameter: estimate, bits: riceBits(residual, estimate) };
+  for (const parameter of [estimate - 1, estimate + 1]) {
+    if (parameter < 0 || parameter > MAX_RICE_PARAMETER) continue;
+    const bits = riceBits(residual, parameter);
+    if (bits < best.bits) best = { parameter, bits };
+  }
+  return best;
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array): void {
+  if (samples.every(sample => sample === samples[0])) {
+    writer.write(0x00, 8); // CONSTANT
+    writer.write(samples[0], BITS_PER_SAMPLE);
+    return;
+  }
+
+  let best: { order: number; residual: Int32Array; parameter: number; bits: number } | null = null;
+  for (let order = 0; order <= Math.min(4, samples.length - 1); order++) {
+    const residual = fixedResidual(samples, order);
+    const rice = bestRiceParameter(residual);
+    const bits = order * BITS_PER_SAMPLE + rice.bits;
+    if (!best || bits < best.bits) best = { order, residual, ...rice, bits };
+  }
+
+  if (!best || best.bits >= samples.length * BITS_PER_SAMPLE) {
+    writer.write(0x02, 8); // VERBATIM
+    for (const sample of samples) writer.write(sample, BITS_PER_SAMPLE);
+    return;
+  }
+  writer.write((0x08 | best.order) << 1, 8); // FIXED of the chosen order
+  for (let i = 0; i < best.order; i++) writer.write(samples[i], BITS_PER_SAMPLE);
+  writer.write(0, 2); // Rice coding with 4-bit parameters
+  writer.write(0, 4); // A single partition
+  writer.write(best.parameter, 4);
+  for (const value of best.residual) {
+    const unsigned = zigzag(value);
+    writer.writeUnary(unsigned >>> best.parameter);
+    if (best.parameter > 0) writer.write(unsigned, best.parameter);
+  }
+}
+
+// The frame number in the UTF-8-like variable-length coding of FLAC frame headers
+function codedNumber(value: number): Uint8Array {
+  if (value < 0x80) return Uint8Array.of(value);
+  const bytes: number[] = [];
+  let limit = 0x3f; // Payload that still fits the first byte
+  while (value > limit) {
+    bytes.unshift(0x80 | (value & 0x3f));
+    value = Math.floor(value / 64);
+    limit >>= 1;
+  }
+  const marker = (0xff00 >> (bytes.length + 1)) & 0xff;
+  return Uint8Array.of(marker | value, ...bytes);
+}
+
+function encodeFrame(samples: Int32Array, frameNumber: number, sampleRate: number): Uint8Array {
+  let blockSizeCode: number;
+  let blockSizeBytes = new Uint8Array(0);
+  if (samples.length === BLOCK_SIZE) {
+    blockSizeCode = 0xc;
+  } else if (samples.length <= 256) {
+    blockSizeCode = 0x6;
+    blockSizeBytes = u8(samples.length - 1);
+  } else {
+    blockSizeCode = 0x7;
+    blockSizeBytes = u16be(samples.length - 1);
+  }
+  const header = concatBytes([
+    Uint8Array.of(0xff, 0xf8), // Sync code, fixed block size
+    Uint8Array.of((blockSizeCode << 4) | (SAMPLE_RATE_CODES[sampleRate] ?? 0), 0x08), // Mono, 16 bits
+    codedNumber(frameNumber),
+    blockSizeBytes,
+  ]);
+
+  const writer = new BitWriter();
+  writeSubframe(writer, samples);
+  const frame = concatBytes([header, u8(crc8(header)), writer.finish()]);
+  return concatBytes([frame, u16be(crc16(frame))]);
+}
+
+function metadataBlock(type: number, body: Uint8Array, isLast: boolean): Uint8Array {
+  return concatBytes([u8((isLast ? 0x80 : 0) | type), u24be(body.length), body]);
+}
+
+// STREAMINFO; frame sizes are patched in at the end, the MD5 is left unset (all zeros)
+function streamInfo(sampleRate: number, totalFrames: number, minFrameSize = 0, maxFrameSize = 0): Uint8Array {
+  const packed = new Uint8Array(8); // Sample rate (20), channels - 1 (3), bits - 1 (5), total samples (36)
+  const view = new DataView(packed.buffer);
+  view.setUint32(0, ((sampleRate << 12) | ((BITS_PER_SAMPLE - 1) << 4) | Math.floor(totalFrames / 2 ** 32)) >>> 0);
+  view.setUint32(4, totalFrames >>> 0);
+  return concatBytes([
+    u16be(BLOCK_SIZE), u16be(BLOCK_SIZE), u24be(minFrameSize), u24be(maxFrameSize), packed, new Uint8Array(16),
+  ]);
+}
+
+// Offset of the minimum frame size in STREAMINFO: "fLaC", block header, two block sizes
+const FRAME_SIZES_OFFSET = 4 + 4 + 4;
+
+async function createFlacEncoder(settings: EncoderSettings, sink: ExportSink): Promise<PcmEncoder> {
+  const { sampleRate, totalFrames } = settings;
+  const blocks = [
+    { type: 0, body: streamInfo(sampleRate, totalFrames) },
+    { type: 4, body: encodeVorbisComments(createVorbisComments(settings.metadata, settings.chapters)) },
+    ...(settings.cover ? [{ type: 6, body: createFlacPicture(settings.cover) }] : []),
+  ];
+  await sink.append(concatBytes([
+    latin1('fLaC'),
+    ...blocks.map((block, index) => metadataBlock(block.type, block.body, index === blocks.length - 1)),
+  ]));
+
+  const block = new Int32Array(BLOCK_SIZE);
+  let blockLength = 0;
+  let frameNumber = 0;
+  let minFrameSize = Infinity;
+  let maxFrameSize = 0;
+  const flushBlock = async () => {
+    if (blockLength === 0) return;
+    const frame = encodeFrame(block.subarray(0, blockLength), frameNumber++, sampleRate);
+    minFrameSize = Math.min(minFrameSize, frame.length);
+    maxFrameSize = Math.max(maxFrameSize, frame.length);
+    blockLength = 0;
+    await sink.append(frame);
+  };
+
+  return {
+    write: async samples => {
+      for (const sample of samples) {
+        block[blockLength++] = Math.round(Math.max(-1, Math.min(1, sample)) * 0x7fff);
+        if (blockLength === BLOCK_SIZE) await flushBlock();
+      }
+    },
+    finish: async () => {
+      await flushBlock();
+      if (frameNumber > 0) {
+        await sink.patch(FRAME_SIZES_OFFSET, concatBytes([u24be(minFrameSize), u24be(maxFrameSize)]));
+      }
+    },
+    close: () => {},
+  };
+}
+
+export const flacExportFormat: AudioExportFormat = {
+  id: 'flac',
+  label: 'FLAC (veszteségmentes)',
+  extension: 'flac',
+  mimeType: 'audio/flac',
+  description: 'FLAC hang',
+  resolveSampleRate: async sourceRate => sourceRate,
+  createEncoder: createFlacEncoder,
+};
@@ -0,0 +1,91 @@
+// utils/htmlText.ts
+// Turns (X)HTML documents into narration text: one block per paragraph or heading, with
+// page numbers, note references, scripts and other non-spoken markup left out.
+
+export interface TextBlock {
+  text: string;
+  headingLevel: number; // 1–6 for <h1>–<h6>, 0 for body text
+  anchorIds: string[];  // Ids of the elements that start at this block (fragment targets of a TOC)
+}
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure',
+  'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'ol', 'p', 'pre', 'section', 'table',
+  'td', 'th', 'tr', 'ul',
+]);
+
+const SKIPPED_TAGS = new Set(['head', 'math', 'noscript', 'rp', 'rt', 'script', 'style', 'svg', 'template', 'title']);
+
+// EPUB structural semantics (epub:type) and ARIA roles of content that is not read aloud
+const SKIPPED_SEMANTICS = /\b(?:doc-)?(?:pagebreak|page-list|noteref|footnotes?|endnotes?|rearnotes?|landmarks|toc|backlink)\b/;
+
+/**
+ * Parses an XHTML document, falling back to the lenient HTML parser for malformed markup.
+ */
+export function parseHtmlDocument(source: string, strictXhtml: boolean = true): Document {
+  const parser = new DOMParser();
+  if (strictXhtml) {
+    const xhtml = parser.parseFromString(source, 'application/xhtml+xml');
+    if (xhtml.getElementsByTagName('parsererror').length === 0) return xhtml;
+  }
+  return parser.parseFromString(source, 'text/html');
+}
+
+function isSkipped(element: Element, tag: string): boolean {
+  if (SKIPPED_TAGS.has(tag) || element.hasAttribute('hidden')) return true;
+  const semantics = `${element.getAttribute('epub:type') ?? ''} ${element.getAttribute('role') ?? ''}`;
+  if (SKIPPED_SEMANTICS.test(semantics)) return true;
+  // Bare note markers like <sup><a href="#n1">1</a></sup>
+  return tag === 'sup' && /^[\s\d*†‡§]*$/.test(element.textContent ?? '');
+}
+
+/**
+ * Collects the spoken text of `root` as blocks in document order. Whitespace is collapsed,
+ * <br> becomes a line break, and empty blocks are dropped (their anchors move to the next block).
+ */
+export function extractTextBlocks(root: Node): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  let pendingAnchors: string[] = [];
+  let text = '';
+  let headingLevel = 0;
+
+  const flush = () => {
+    const cleaned = text.replace(/[ \t\r\f\v]*\n[ \t\r\f\v]*/g, '\n').replace(/[ \t\r\f\v]+/g, ' ').trim();
+    if (cleaned) {
+      blocks.push({ text: cleaned, headingLevel, anchorIds: pendingAnchors });
+      pendingAnchors = [];
+    }
+    text = '';
+    headingLevel = 0;
+  };
+
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+      // Source line breaks are plain whitespace; non-breaking spaces are kept for the normalizer
+      text += (node.nodeValue ?? '').replace(/[ \t\r\n\f\v]+/g, ' ');
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE && node.nodeType !== Node.DOCUMENT_NODE) return;
+    const element = node as Element;
+    const tag = node.nodeType === Node.ELEMENT_NODE ? element.localName.toLowerCase() : '';
+    if (tag && isSkipped(element, tag)) return;
+    if (tag === 'br') {
+      text += '\n';
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) flush();
+    const id = tag ? element.getAttribute('id') : null;
+    if (id) pendingAnchors.push(id);
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) headingLevel = Number(heading[1]);
+
+    node.childNodes.forEach(visit);
+    if (isBlock) flush();
+  };
+
+  visit(root);
+  flush();
+  return blocks;
+}
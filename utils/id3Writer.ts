@@ -0,0 +1,80 @@
+// utils/id3Writer.ts
+// ID3v2.4 tag with text frames, cover art and chapter frames (ID3v2 Chapter Frame Addendum),
+// prepended to exported MP3 files.
+import { AudiobookExportMetadata } from '../types';
+import { ChapterMarker, CoverImage } from './audiobookMetadata';
+import { concatBytes, latin1, textEncoder, u32be } from './byteUtils';
+
+const UTF8_ENCODING = 0x03;
+
+// ID3v2.4 sizes are "synchsafe": 7 bits per byte, so a size never looks like an MPEG sync word
+const synchsafe = (value: number) =>
+  Uint8Array.of((value >>> 21) & 0x7f, (value >>> 14) & 0x7f, (value >>> 7) & 0x7f, value & 0x7f);
+
+function frame(id: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = concatBytes(payload);
+  return concatBytes([latin1(id), synchsafe(body.length), Uint8Array.of(0, 0), body]);
+}
+
+const textFrame = (id: string, value: string) => frame(id, Uint8Array.of(UTF8_ENCODING), textEncoder.encode(value));
+
+function pictureFrame(cover: CoverImage): Uint8Array {
+  return frame('APIC',
+    Uint8Array.of(UTF8_ENCODING),
+    latin1(cover.mimeType), Uint8Array.of(0),
+    Uint8Array.of(0x03), // Picture type: front cover
+    Uint8Array.of(0),    // Empty description
+    cover.data,
+  );
+}
+
+function chapterFrame(elementId: string, marker: ChapterMarker): Uint8Array {
+  return frame('CHAP',
+    latin1(elementId), Uint8Array.of(0),
+    u32be(marker.startMs), u32be(marker.endMs),
+    u32be(0xffffffff), u32be(0xffffffff), // Byte offsets unused; players seek by time
+    textFrame('TIT2', marker.title),
+  );
+}
+
+function tableOfContentsFrame(childIds: string[], title: string): Uint8Array {
+  return frame('CTOC',
+    latin1('toc'), Uint8Array.of(0),
+    Uint8Array.of(0x03), // Top-level, ordered
+    Uint8Array.of(childIds.length),
+    ...childIds.map(id => concatBytes([latin1(id), Uint8Array.of(0)])),
+    textFrame('TIT2', title),
+  );
+}
+
+/**
+ * Builds the complete tag. Empty text fields are left out; the table of contents lists at most
+ * 255 chapters, the limit of its entry count.
+ */
+export function createId3v24Tag(
+  metadata: Omit<AudiobookExportMetadata, 'cover'>,
+  chapters: ChapterMarker[],
+  cover: CoverImage | null
+): Uint8Array {
+  const texts: [string, string][] = [
+    ['TIT2', metadata.title],
+    ['TPE1', metadata.author],
+    ['TPE2', metadata.author],
+    // Audiobook players (and iTunes) show the composer as the narrator
+    ['TCOM', metadata.narrator],
+    ['TALB', metadata.album],
+    ['TCON', metadata.genre],
+    ['TRCK', metadata.trackNumber > 0 ? `${metadata.trackNumber}/${metadata.trackTotal}` : ''],
+  ];
+  const chapterIds = chapters.slice(0, 255).map((_chapter, index) => `ch${index}`);
+  const frames = [
+    ...texts.filter(([, value]) => value.trim()).map(([id, value]) => textFrame(id, value.trim())),
+    ...(metadata.narrator.trim() ? [frame('TXXX', Uint8Array.of(UTF8_ENCODING), textEncoder.encode('NARRATOR'), Uint8Array.of(0), textEncoder.encode(metadata.narrator.trim()))] : []),
+    ...(cover ? [pictureFrame(cover)] : []),
+    ...(chapterIds.length > 0 ? [tableOfContentsFrame(chapterIds, metadata.album || metadata.title)] : []),
+    ...chapterIds.map((id, index) => chapterFrame(id, chapters[index])),
+  ];
+
+  const body = concatBytes(frames);
+  return concatBytes([latin1('ID3'), Uint8Array.of(0x04, 0x00, 0x00), synchsafe(body.length), body]);
+}
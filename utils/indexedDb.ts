@@ -0,0 +1,95 @@
+// utils/indexedDb.ts
+// Minimal promise wrappers around IndexedDB for the app's single database.
+
+const DB_NAME = 'audiobookMaker';
+const DB_VERSION = 2;
+
+export const STORE_GENERATION_JOBS = 'generationJobs';
+export const STORE_SEGMENT_AUDIO = 'segmentAudio';
+export const STORE_AUDIO_CACHE = 'audioCache';             // Cached PCM, keyed by content hash
+export const STORE_AUDIO_CACHE_INDEX = 'audioCacheIndex';  // Cache metadata (sizes, LRU timestamps) without PCM
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens (and on first use creates or upgrades) the app database.
+ * Each schema version only adds stores, so upgrades run the steps above the old version.
+ */
+export function openAppDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (!('indexedDB' in globalThis)) {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = globalThis.indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(STORE_GENERATION_JOBS, { keyPath: 'id' });
+        const audioStore = db.createObjectStore(STORE_SEGMENT_AUDIO, { keyPath: 'segmentId' });
+        audioStore.createIndex('jobId', 'jobId', { unique: false });
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(STORE_AUDIO_CACHE, { keyPath: 'key' });
+        const cacheIndexStore = db.createObjectStore(STORE_AUDIO_CACHE_INDEX, { keyPath: 'key' });
+        cacheIndexStore.createIndex('lastUsedAt', 'lastUsedAt', { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('The audiobook database is blocked by another open tab.'));
+  }).catch(err => {
+    dbPromise = null; // Allow a later retry
+    throw err;
+  });
+
+  return dbPromise;
+}
+
+export async function idbGet<T>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openAppDatabase();
+  return requestToPromise<T | undefined>(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+}
+
+export async function idbGetAll<T>(storeName: string): Promise<T[]> {
+  const db = await openAppDatabase();
+  return requestToPromise<T[]>(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+}
+
+export async function idbGetAllKeys(storeName: string): Promise<IDBValidKey[]> {
+  const db = await openAppDatabase();
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAllKeys());
+}
+
+export async function idbPut<T>(storeName: string, value: T): Promise<void> {
+  const db = await openAppDatabase();
+  await requestToPromise(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+}
+
+export async function idbDelete(storeName: string, key: IDBValidKey): Promise<void> {
+  const db = await openAppDatabase();
+  await requestToPromise(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key));
+}
+
+export async function idbDeleteMany(storeName: string, keys: IDBValidKey[]): Promise<void> {
+  if (keys.length === 0) return;
+  const db = await openAppDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  keys.forEach(key => store.delete(key));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
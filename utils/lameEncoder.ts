@@ -0,0 +1,39 @@
+// utils/lameEncoder.ts
+// Streaming MP3 encoding with lamejs. Only the export worker loads this module (the MP3 and M4B
+// encoders import it on demand), so the page itself never carries lamejs or its globals.
+import { Mp3Encoder } from 'lamejs';
+import BitStream from 'lamejs/src/js/BitStream';
+import Lame from 'lamejs/src/js/Lame';
+import MPEGMode from 'lamejs/src/js/MPEGMode';
+
+// lamejs 1.2.1 refers to these modules as undeclared globals, which only exist in its
+// single-file build; bundled from npm they have to be provided
+Object.assign(globalThis, { BitStream, Lame, MPEGMode });
+
+export interface LameEncoder {
+  encodeBuffer(pcm: Int16Array): Uint8Array;
+  flush(): Uint8Array;
+}
+
+// lamejs expects 16-bit PCM, fed in frames of at most this many samples
+export const MP3_FRAME_SAMPLES = 1152;
+
+export function floatToInt16(samples: Float32Array): Int16Array {
+  const pcm16 = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    pcm16[i] = Math.max(-1, Math.min(1, samples[i])) * 0x7FFF;
+  }
+  return pcm16;
+}
+
+// lamejs returns signed bytes; the views are reinterpreted, not copied
+const asBytes = (data: Int8Array) => new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+
+/** Starts a streaming 128 kbps mono MP3 encoder. */
+export function createMp3StreamEncoder(sampleRate: number): LameEncoder {
+  const encoder = new Mp3Encoder(1, sampleRate, 128);
+  return {
+    encodeBuffer: pcm => asBytes(encoder.encodeBuffer(pcm)),
+    flush: () => asBytes(encoder.flush()),
+  };
+}
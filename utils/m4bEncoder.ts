@@ -0,0 +1,260 @@
+// utils/m4bEncoder.ts
+// Audiobook export as M4B: AAC through WebCodecs where the browser can encode it, otherwise the
+// lamejs MP3 stream split into frames and stored in the same MP4 container. Audio samples are
+// written as they are encoded; the tables follow at the end.
+import { AudioExportFormat, EncoderSettings, ExportSink, PcmEncoder } from './audioExport';
+import { concatBytes } from './byteUtils';
+import { createM4bHeader, createM4bTrailer, M4B_MDAT_SIZE_OFFSET, Mp4AudioTrack, Mp4Metadata } from './mp4Writer';
+
+const AAC_BITRATE = 64000; // Plenty for mono speech
+const AAC_FRAME_SAMPLES = 1024;
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// Encodes the audio samples into the sink and describes them for the sample tables
+interface TrackWriter {
+  write(samples: Float32Array): Promise<void>;
+  finish(): Promise<Mp4AudioTrack>;
+  close(): void;
+}
+
+// --- AAC (WebCodecs) ---
+
+// Encoders often only take 44.1 or 48 kHz; the audio is resampled when the source rate is refused
+async function findAacEncoderConfig(sampleRate: number): Promise<AudioEncoderConfig | null> {
+  if (typeof AudioEncoder === 'undefined') return null;
+  for (const rate of [sampleRate, 48000, 44100]) {
+    const config: AudioEncoderConfig = { codec: 'mp4a.40.2', sampleRate: rate, numberOfChannels: 1, bitrate: AAC_BITRATE };
+    try {
+      if ((await AudioEncoder.isConfigSupported(config)).supported) return config;
+    } catch (err) {
+      console.warn(`AAC encoding at ${rate} Hz is not supported:`, err);
+    }
+  }
+  return null;
+}
+
+// AudioSpecificConfig of AAC-LC, for encoders that do not report one
+function aacLcSpecificConfig(sampleRate: number, numberOfChannels: number): Uint8Array {
+  const frequencyIndex = AAC_SAMPLE_RATES.indexOf(sampleRate);
+  return Uint8Array.of((2 << 3) | (frequencyIndex >> 1), ((frequencyIndex & 1) << 7) | (numberOfChannels << 3));
+}
+
+function toBytes(source: AllowSharedBufferSource): Uint8Array {
+  return ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice()
+    : new Uint8Array(source).slice();
+}
+
+async function createAacWriter(config: AudioEncoderConfig, sink: ExportSink): Promise<TrackWriter> {
+  const sampleSizes: number[] = [];
+  let decoderSpecificInfo: Uint8Array | undefined;
+  let encoderError = null as DOMException | null;
+  // Output arrives synchronously; appends to the sink are chained so they stay in order
+  let pendingWrites = Promise.resolve();
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      sampleSizes.push(data.length);
+      pendingWrites = pendingWrites.then(() => sink.append(data));
+      const description = metadata?.decoderConfig?.description;
+      if (description && !decoderSpecificInfo) decoderSpecificInfo = toBytes(description);
+    },
+    error: err => { encoderError = err; },
+  });
+  encoder.configure(config);
+
+  let frameCount = 0;
+  return {
+    write: async samples => {
+      if (encoderError) throw encoderError;
+      const audioData = new AudioData({
+        format: 'f32-planar',
+        sampleRate: config.sampleRate,
+        numberOfFrames: samples.length,
+        numberOfChannels: 1,
+        timestamp: Math.round((frameCount / config.sampleRate) * 1e6),
+        data: samples,
+      });
+      encoder.encode(audioData);
+      audioData.close();
+      frameCount += samples.length;
+      // Keep the queue short so a long book is not held twice in memory
+      while (encoder.encodeQueueSize > 4) await new Promise(resolve => globalThis.setTimeout(resolve, 10));
+      await pendingWrites;
+    },
+    finish: async () => {
+      await encoder.flush();
+      if (encoderError) throw encoderError;
+      await pendingWrites;
+      encoder.close();
+      return {
+        sampleRate: config.sampleRate,
+        numberOfChannels: 1,
+        objectTypeIndication: 0x40,
+        decoderSpecificInfo: decoderSpecificInfo ?? aacLcSpecificConfig(config.sampleRate, 1),
+        bitrate: AAC_BITRATE,
+        sampleSizes,
+        sampleDurations: sampleSizes.map(() => AAC_FRAME_SAMPLES),
+      };
+    },
+    close: () => {
+      if (encoder.state !== 'closed') encoder.close();
+    },
+  };
+}
+
+// --- MP3 fallback ---
+
+interface Mp3Frame {
+  data: Uint8Array;
+  sampleRate: number;
+  samplesPerFrame: number;
+  isMpeg1: boolean;
+  bitrateKbps: number;
+}
+
+const MP3_BITRATES_MPEG1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MP3_BITRATES_MPEG2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000],  // MPEG-2.5
+};
+
+/**
+ * Reads the complete Layer III frames at the start of `bytes`, skipping anything between them
+ * that is not a frame header. `consumed` is where the first incomplete frame begins.
+ */
+function readMp3Frames(bytes: Uint8Array): { frames: Mp3Frame[]; consumed: number } {
+  const frames: Mp3Frame[] = [];
+  let offset = 0;
+  while (offset + 4 <= bytes.length) {
+    const isSync = bytes[offset] === 0xff && (bytes[offset + 1] & 0xe0) === 0xe0;
+    const version = (bytes[offset + 1] >> 3) & 0x3;
+    const layer = (bytes[offset + 1] >> 1) & 0x3;
+    const bitrateIndex = bytes[offset + 2] >> 4;
+    const rateIndex = (bytes[offset + 2] >> 2) & 0x3;
+    if (!isSync || version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) {
+      offset++; // Not a Layer III frame header; resynchronize
+      continue;
+    }
+    const isMpeg1 = version === 3;
+    const bitrateKbps = (isMpeg1 ? MP3_BITRATES_MPEG1 : MP3_BITRATES_MPEG2)[bitrateIndex];
+    const sampleRate = MP3_SAMPLE_RATES[version][rateIndex];
+    const padding = (bytes[offset + 2] >> 1) & 0x1;
+    const length = Math.floor(((isMpeg1 ? 144 : 72) * bitrateKbps * 1000) / sampleRate) + padding;
+    if (offset + length > bytes.length) break;
+    frames.push({
+      data: bytes.subarray(offset, offset + length),
+      sampleRate,
+      samplesPerFrame: isMpeg1 ? 1152 : 576,
+      isMpeg1,
+      bitrateKbps,
+    });
+    offset += length;
+  }
+  return { frames, consumed: offset };
+}
+
+const isXingFrame = (frame: Mp3Frame) => {
+  const marker = new TextDecoder('latin1').decode(frame.data.subarray(0, 48));
+  return marker.includes('Xing') || marker.includes('Info');
+};
+
+// Frames go to the sink as soon as they are complete; only their sizes are kept for the tables
+async function createMp3Writer(sampleRate: number, sink: ExportSink): Promise<TrackWriter> {
+  // Loaded on demand so lamejs stays out of the page's bundle
+  const { createMp3StreamEncoder, floatToInt16, MP3_FRAME_SAMPLES } = await import('./lameEncoder');
+  const lame = createMp3StreamEncoder(sampleRate);
+  let pending = new Uint8Array(0); // Encoded bytes of a frame that is not complete yet
+  let firstFrame: Mp3Frame | null = null;
+  let bitrateKbpsSum = 0;
+  const sampleSizes: number[] = [];
+  const sampleDurations: number[] = [];
+
+  const writeEncoded = async (data: Uint8Array) => {
+    if (data.length === 0) return;
+    const bytes = concatBytes([pending, data]);
+    const { frames, consumed } = readMp3Frames(bytes);
+    pending = bytes.slice(consumed);
+    // A leading Xing/Info frame describes the stream; MP4 sample tables do that instead
+    if (!firstFrame && frames[0] && isXingFrame(frames[0])) frames.shift();
+    if (frames.length === 0) return;
+    firstFrame ??= frames[0];
+    for (const frame of frames) {
+      sampleSizes.push(frame.data.length);
+      sampleDurations.push(frame.samplesPerFrame);
+      bitrateKbpsSum += frame.bitrateKbps;
+    }
+    await sink.append(concatBytes(frames.map(frame => frame.data)));
+  };
+
+  return {
+    write: async samples => {
+      const pcm16 = floatToInt16(samples);
+      for (let i = 0; i < pcm16.length; i += MP3_FRAME_SAMPLES) {
+        await writeEncoded(lame.encodeBuffer(pcm16.subarray(i, i + MP3_FRAME_SAMPLES)));
+      }
+    },
+    finish: async () => {
+      await writeEncoded(lame.flush());
+      if (!firstFrame) {
+        throw new Error('Az MP3 kódolás nem adott lejátszható kereteket.');
+      }
+      return {
+        sampleRate: firstFrame.sampleRate,
+        numberOfChannels: 1,
+        objectTypeIndication: firstFrame.isMpeg1 ? 0x6b : 0x69,
+        bitrate: Math.round((bitrateKbpsSum / sampleSizes.length) * 1000),
+        sampleSizes,
+        sampleDurations,
+      };
+    },
+    close: () => {},
+  };
+}
+
+// --- Format ---
+
+async function createM4bEncoder(settings: EncoderSettings, sink: ExportSink): Promise<PcmEncoder> {
+  const aacConfig = await findAacEncoderConfig(settings.sampleRate);
+  await sink.append(createM4bHeader());
+  const writer = aacConfig
+    ? await createAacWriter(aacConfig, sink)
+    : await createMp3Writer(settings.sampleRate, sink);
+
+  const { metadata } = settings;
+  const mp4Metadata: Mp4Metadata = {
+    title: metadata.title,
+    artist: metadata.author,
+    composer: metadata.narrator,
+    album: metadata.album,
+    genre: metadata.genre,
+    track: { number: metadata.trackNumber, total: metadata.trackTotal },
+  };
+  return {
+    write: samples => writer.write(samples),
+    finish: async () => {
+      const track = await writer.finish();
+      const { trailer, mdatSize } = createM4bTrailer(track, settings.chapters, mp4Metadata, settings.cover ?? undefined);
+      await sink.append(trailer);
+      await sink.patch(M4B_MDAT_SIZE_OFFSET, mdatSize);
+    },
+    close: () => writer.close(),
+  };
+}
+
+export const m4bExportFormat: AudioExportFormat = {
+  id: 'm4b',
+  label: 'M4B (hangoskönyv)',
+  extension: 'm4b',
+  mimeType: 'audio/mp4',
+  description: 'M4B hangoskönyv',
+  // Falls back to MP3 at the source rate where AAC is not available
+  resolveSampleRate: async sourceRate => (await findAacEncoderConfig(sourceRate))?.sampleRate ?? sourceRate,
+  getNotice: async sourceRate => (await findAacEncoderConfig(sourceRate)
+    ? null
+    : 'A böngésző nem tud AAC-t kódolni, ezért a fájl MP3 hangot fog tartalmazni. Ezt az Apple Books és az iOS nem játssza le.'),
+  createEncoder: createM4bEncoder,
+};
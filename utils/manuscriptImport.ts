@@ -0,0 +1,29 @@
+// utils/manuscriptImport.ts
+// Entry point for importing manuscripts from document files; picks the reader by file type.
+import { ImportedManuscript } from '../types';
+import { importEpub } from './epubImport';
+import { importDocx, importOdt } from './officeImport';
+import { importHtml, importMarkdown, MarkupImportOptions } from './markupImport';
+
+// Value for the file input's accept attribute
+export const MANUSCRIPT_IMPORT_ACCEPT = [
+  '.epub', 'application/epub+zip',
+  '.docx', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.odt', 'application/vnd.oasis.opendocument.text',
+  '.md', '.markdown', 'text/markdown',
+  '.html', '.htm', '.xhtml', 'text/html',
+].join(',');
+
+/**
+ * @param markupOptions Cleanup settings for Markdown and HTML; other formats ignore them.
+ */
+export async function importManuscriptFile(file: File, markupOptions: MarkupImportOptions): Promise<ImportedManuscript> {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (extension === 'epub' || file.type === 'application/epub+zip') return importEpub(file);
+  if (extension === 'docx' || file.type.includes('wordprocessingml')) return importDocx(file);
+  if (extension === 'odt' || file.type === 'application/vnd.oasis.opendocument.text') return importOdt(file);
+  if (['md', 'markdown'].includes(extension) || file.type === 'text/markdown') return importMarkdown(file, markupOptions);
+  if (['html', 'htm', 'xhtml'].includes(extension) || file.type === 'text/html') return importHtml(file, markupOptions);
+  if (extension === 'doc') throw new Error('A régi Word (.doc) formátum nem támogatott. Kérjük, mentse DOCX formátumban.');
+  throw new Error(`Nem támogatott fájltípus: ${file.name}`);
+}
@@ -0,0 +1,374 @@
+// utils/markupImport.ts
+// Reads Markdown and HTML manuscripts. Headings become chapters; link targets, images and markup
+// punctuation are removed, lists are read as sentences, and code blocks and tables are either
+// left out or announced/read through user-editable templates.
+import { ImportedManuscript, NormalizationLanguage, SkippedPassage } from '../types';
+import { blocksToChapters, ManuscriptBlock, SECTION_BREAK } from './documentOutline';
+import { extractTextBlocks, parseHtmlDocument } from './htmlText';
+import { spellOrdinal } from './textNormalizer';
+
+// How non-prose content is handled, kept per browser
+export interface MarkupImportSettings {
+  codeBlocks: 'skip' | 'template';
+  codeBlockTemplate: string; // Placeholders: {language}, {lines}
+  tables: 'skip' | 'template';
+  tableCellTemplate: string; // Placeholders: {header}, {value}; a row is read as one sentence
+}
+
+export const DEFAULT_MARKUP_IMPORT_SETTINGS: MarkupImportSettings = {
+  codeBlocks: 'skip',
+  codeBlockTemplate: 'Itt egy {language} kódrészlet található.',
+  tables: 'skip',
+  tableCellTemplate: '{header}: {value}',
+};
+
+const MARKUP_IMPORT_SETTINGS_STORAGE_KEY = 'markupImportSettings';
+
+export function loadMarkupImportSettings(): MarkupImportSettings {
+  try {
+    const saved = JSON.parse(globalThis.localStorage.getItem(MARKUP_IMPORT_SETTINGS_STORAGE_KEY) ?? 'null');
+    return { ...DEFAULT_MARKUP_IMPORT_SETTINGS, ...saved };
+  } catch (err) {
+    console.warn('Could not read markup import settings, using defaults:', err);
+    return DEFAULT_MARKUP_IMPORT_SETTINGS;
+  }
+}
+
+export function saveMarkupImportSettings(settings: MarkupImportSettings): void {
+  globalThis.localStorage.setItem(MARKUP_IMPORT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+export interface MarkupImportOptions {
+  settings: MarkupImportSettings;
+  language: NormalizationLanguage; // For the ordinals of numbered lists
+}
+
+type SkippedNote = Omit<SkippedPassage, 'chapterIndex'>;
+
+// --- Speakable text ---
+
+const URL_REGEX = /<?\b(?:(?:https?|ftp):\/\/|www\.)[^\s<>()]*[^\s<>().,;:!?'"]>?|<mailto:[^>]+>/gi;
+// The project's own narration markup survives the cleanup
+const NARRATION_TAG = /^<\/?(?:pause|break|style|emphasis)\b/i;
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00A0', ndash: '–', mdash: '—', hellip: '…' };
+
+const removeUrls = (text: string) => text.replace(URL_REGEX, '').replace(/\(\s*\)/g, '').replace(/[ \t]{2,}/g, ' ').trim();
+
+const fillTemplate = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, key: string) => (key in values ? String(values[key]) : placeholder)).replace(/\s{2,}/g, ' ').trim();
+
+const capitalize = (text: string) => text.charAt(0).toLocaleUpperCase() + text.slice(1);
+
+// A list item or table row as a sentence of its own
+function toSentence(text: string): string {
+  const trimmed = text.trim().replace(/[,;:]$/, '');
+  if (!trimmed) return '';
+  return capitalize(/[.!?…"”»)]$/.test(trimmed) ? trimmed : `${trimmed}.`);
+}
+
+function listToText(items: { text: string; ordinal: number | null }[], language: NormalizationLanguage): string {
+  return items
+    .map(item => toSentence(item.ordinal ? `${spellOrdinal(item.ordinal, language)}: ${item.text}` : item.text))
+    .filter(Boolean)
+    .join(' ');
+}
+
+function tableToText(header: string[], rows: string[][], settings: MarkupImportSettings): string {
+  return rows
+    .map(row => toSentence(row
+      .map((value, index) => (value && header[index] ? fillTemplate(settings.tableCellTemplate, { header: header[index], value }) : value))
+      .filter(Boolean)
+      .join(', ')))
+    .filter(Boolean)
+    .join(' ');
+}
+
+const codeBlockText = (language: string, lineCount: number, settings: MarkupImportSettings) =>
+  settings.codeBlocks === 'template' ? fillTemplate(settings.codeBlockTemplate, { language, lines: lineCount }) : '';
+
+// --- Markdown ---
+
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const ATX_HEADING_REGEX = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE_REGEX = /^ {0,3}(=+|-+)\s*$/;
+const THEMATIC_BREAK_REGEX = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+// "1848. március 15-én …" opens a paragraph with a year, not a numbered list
+const YEAR_MARKER_REGEX = /^[12]\d{3}[.)]$/;
+
+// A list item line, unless its number is a year
+function matchListItem(line: string): RegExpExecArray | null {
+  const item = LIST_ITEM_REGEX.exec(line);
+  return item && !YEAR_MARKER_REGEX.test(item[2]) ? item : null;
+}
+const TABLE_SEPARATOR_REGEX = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const FOOTNOTE_DEFINITION_REGEX = /^ {0,3}\[\^([^\]]+)\]:\s*(.*)$/;
+// Only URL-like targets count, so a speaker line such as "[Anna]: Igen." is not taken for a definition
+const LINK_DEFINITION_REGEX = /^ {0,3}\[[^\]]+\]:\s*(?:<[^>]*>|(?:[a-z][a-z\d+.-]*:|\/|\.{1,2}\/|#|www\.)\S*)(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*$/i;
+
+const splitTableRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/).map(cell => cell.replace(/\\\|/g, '|').trim());
+
+/**
+ * Removes inline Markdown: images, link targets, emphasis, inline code and raw HTML tags.
+ * Footnote references are collected through `onFootnote`.
+ */
+function cleanMarkdownInline(text: string, onFootnote: (id: string) => void): string {
+  // Escaped characters are hidden from the rules below and restored at the end
+  const escaped: string[] = [];
+  let result = text.replace(/\\([\\`*_{}[\]()#+\-.!|>~<])/g, (_match, char: string) => `\uE000${escaped.push(char) - 1}\uE001`);
+  result = result
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/!\[[^\]]*\](?:\([^)]*\)|\[[^\]]*\])/g, '')
+    .replace(/\[\^([^\]]+)\]/g, (_match, id: string) => {
+      onFootnote(id);
+      return '';
+    })
+    .replace(/\[([^\]]+)\]\((?:[^()]|\([^)]*\))*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/(`+)\s?([\s\S]*?)\s?\1/g, '$2')
+    .replace(/<\/?[a-zA-Z][^<>]*>/g, tag => (NARRATION_TAG.test(tag) ? tag : ''))
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '$1')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '$1')
+    .replace(/(?<![\p{L}\d])_(?=\S)([\s\S]*?\S)_(?![\p{L}\d])/gu, '$1')
+    .replace(/&(#x?[\da-f]+|[a-z]+);/gi, (entity, name: string) => {
+      if (name.startsWith('#')) {
+        const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+        return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+      }
+      return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+    });
+  result = removeUrls(result);
+  return result.replace(/\uE000(\d+)\uE001/g, (_match, index: string) => escaped[Number(index)]);
+}
+
+function readFrontMatter(source: string): { body: string; title: string; author: string } {
+  const match = /^---\n([\s\S]*?)\n(?:---|\.\.\.)\n/.exec(source);
+  if (!match) return { body: source, title: '', author: '' };
+  const field = (name: string) => new RegExp(`^${name}:\\s*(.*)$`, 'mi').exec(match[1])?.[1].trim().replace(/^(["'])(.*)\1$/, '$2') ?? '';
+  return { body: source.slice(match[0].length), title: field('title'), author: field('author') };
+}
+
+function markdownToManuscript(source: string, options: MarkupImportOptions): ImportedManuscript {
+  const { settings, language } = options;
+  const frontMatter = readFrontMatter(source.replace(/\r\n?/g, '\n'));
+  const lines = frontMatter.body.replace(/<!--[\s\S]*?-->/g, '').split('\n');
+
+  // Footnote definitions (with their indented continuation lines) leave the text for the skip list
+  const footnotes = new Map<string, string>();
+  const contentLines: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const definition = FOOTNOTE_DEFINITION_REGEX.exec(lines[i]);
+    if (definition) {
+      let text = definition[2];
+      while (i + 1 < lines.length && /^(?: {2,}|\t)\S/.test(lines[i + 1])) text += ` ${lines[++i].trim()}`;
+      footnotes.set(definition[1], text);
+    } else if (!LINK_DEFINITION_REGEX.test(lines[i])) {
+      contentLines.push(lines[i]);
+    }
+  }
+
+  const blocks: ManuscriptBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { text: string; ordinal: number | null; indent: number; marker: string }[] = [];
+  let skipped: SkippedNote[] = [];
+  const inline = (text: string) => cleanMarkdownInline(text, id => {
+    const note = footnotes.get(id);
+    if (note) skipped.push({ kind: 'footnote', text: cleanMarkdownInline(note, () => undefined) });
+  });
+  const pushBlock = (text: string, headingLevel: number = 0) => {
+    if (text.trim() || skipped.length > 0) blocks.push({ text: text.trim(), headingLevel, skipped });
+    skipped = [];
+  };
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    // Soft line breaks join; a hard break (two trailing spaces or a backslash) stays a line break
+    const text = paragraph.map((line, index) => {
+      const isLast = index === paragraph.length - 1;
+      return isLast ? line.trim() : line.trim().replace(/\\$/, '') + (/( {2,}|\\)$/.test(line) ? '\n' : ' ');
+    }).join('');
+    paragraph = [];
+    pushBlock(inline(text));
+  };
+  const flushList = () => {
+    if (list.length === 0) return;
+    const items = list.map(item => ({ text: inline(item.text), ordinal: item.ordinal }));
+    list = [];
+    pushBlock(listToText(items, language));
+  };
+
+  for (let i = 0; i < contentLines.length; i++) {
+    const line = contentLines[i];
+
+    const fence = FENCE_REGEX.exec(line);
+    if (fence) {
+      flushParagraph();
+      flushList();
+      const closing = new RegExp(`^ {0,3}${fence[1][0] === '`' ? '`' : '~'}{${fence[1].length},}\\s*$`);
+      let lineCount = 0;
+      while (i + 1 < contentLines.length && !closing.test(contentLines[i + 1])) {
+        i++;
+        lineCount++;
+      }
+      i++; // The closing fence
+      pushBlock(codeBlockText(fence[2], lineCount, settings));
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      // A blank line ends a list unless the list goes on after it
+      const next = contentLines.slice(i + 1).find(candidate => candidate.trim());
+      const nextItem = next ? matchListItem(next) : null;
+      // A marker of the other kind (bullet vs. number) starts a new list
+      const continuesList = nextItem
+        ? list.length === 0 || /\d/.test(nextItem[2]) === /\d/.test(list[0].marker) || nextItem[1].length > 0
+        : !!next && /^\s{2,}\S/.test(next);
+      if (!continuesList) flushList();
+      continue;
+    }
+
+    const heading = ATX_HEADING_REGEX.exec(line);
+    if (heading) {
+      flushParagraph();
+      flushList();
+      pushBlock(inline(heading[2] ?? ''), heading[1].length);
+      continue;
+    }
+
+    if (paragraph.length > 0 && SETEXT_UNDERLINE_REGEX.test(line)) {
+      const text = paragraph.join(' ');
+      paragraph = [];
+      pushBlock(inline(text), line.trim().startsWith('=') ? 1 : 2);
+      continue;
+    }
+
+    if (THEMATIC_BREAK_REGEX.test(line)) {
+      flushParagraph();
+      flushList();
+      pushBlock(SECTION_BREAK);
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < contentLines.length && TABLE_SEPARATOR_REGEX.test(contentLines[i + 1]) && contentLines[i + 1].includes('-')) {
+      flushParagraph();
+      flushList();
+      const header = splitTableRow(line).map(cell => inline(cell));
+      const rows: string[][] = [];
+      i++; // The separator row
+      while (i + 1 < contentLines.length && contentLines[i + 1].includes('|') && contentLines[i + 1].trim()) {
+        rows.push(splitTableRow(contentLines[++i]).map(cell => inline(cell)));
+      }
+      if (settings.tables === 'template') pushBlock(tableToText(header, rows, settings));
+      continue;
+    }
+
+    const item = matchListItem(line);
+    // As in CommonMark, only a list numbered from 1 may interrupt a paragraph
+    if (item && (paragraph.length === 0 || list.length > 0 || /^[-*+]$/.test(item[2]) || /^1[.)]$/.test(item[2]))) {
+      flushParagraph();
+      const indent = item[1].replace(/\t/g, '    ').length;
+      // Only the outermost level of a numbered list is read with ordinals
+      const topIndent = list[0]?.indent ?? indent;
+      const isNumbered = /\d/.test(item[2]) && indent <= topIndent;
+      const previousOrdinal = [...list].reverse().find(entry => entry.indent <= topIndent)?.ordinal ?? null;
+      // The first item's number is the start; later numbers count on from it, whatever is written
+      const ordinal = previousOrdinal === null ? parseInt(item[2], 10) : previousOrdinal + 1;
+      list.push({ text: item[3], ordinal: isNumbered ? ordinal : null, indent, marker: item[2] });
+      continue;
+    }
+
+    if (list.length > 0 && /^\s+\S/.test(line)) {
+      list[list.length - 1].text += ` ${line.trim()}`;
+      continue;
+    }
+
+    flushList();
+    // Block quotes are read as ordinary paragraphs
+    paragraph.push(line.replace(/^ {0,3}>\s?/, ''));
+  }
+  flushParagraph();
+  flushList();
+
+  return { title: frontMatter.title, author: frontMatter.author, ...blocksToChapters(blocks), images: [] };
+}
+
+// --- HTML ---
+
+function replaceWithParagraph(element: Element, text: string): void {
+  if (!text) {
+    element.remove();
+    return;
+  }
+  const paragraph = element.ownerDocument.createElement('p');
+  paragraph.textContent = text;
+  element.replaceWith(paragraph);
+}
+
+const elementText = (element: Element) => extractTextBlocks(element).map(block => block.text).join(' ');
+
+function readHtmlList(list: Element, items: { text: string; ordinal: number | null }[], numbered: boolean): void {
+  let ordinal = Number(list.getAttribute('start')) || 1;
+  for (const item of Array.from(list.children).filter(child => child.localName === 'li')) {
+    const own = item.cloneNode(true) as Element;
+    own.querySelectorAll('ul, ol').forEach(nested => nested.remove());
+    items.push({ text: removeUrls(elementText(own)), ordinal: numbered ? ordinal++ : null });
+    // Nested lists are read after their parent item, without ordinals
+    item.querySelectorAll(':scope > ul, :scope > ol').forEach(nested => readHtmlList(nested, items, false));
+  }
+}
+
+function htmlToManuscript(source: string, options: MarkupImportOptions): ImportedManuscript {
+  const { settings, language } = options;
+  const page = parseHtmlDocument(source, false);
+  page.querySelectorAll('img, picture, video, audio, iframe, object, embed, nav, form, button').forEach(element => element.remove());
+
+  page.querySelectorAll('pre').forEach(pre => {
+    const code = pre.querySelector('code');
+    const codeLanguage = /\blanguage-([\w+#-]+)/.exec(code?.className ?? '')?.[1] ?? '';
+    const lineCount = (pre.textContent ?? '').replace(/\n$/, '').split('\n').length;
+    replaceWithParagraph(pre, codeBlockText(codeLanguage, lineCount, settings));
+  });
+
+  page.querySelectorAll('table').forEach(table => {
+    if (settings.tables !== 'template') {
+      table.remove();
+      return;
+    }
+    const rows = Array.from(table.querySelectorAll('tr')).map(row => Array.from(row.children).filter(cell => cell.localName === 'td' || cell.localName === 'th'));
+    const hasHeader = rows[0]?.length > 0 && rows[0].every(cell => cell.localName === 'th');
+    const header = hasHeader ? rows[0].map(elementText) : [];
+    const bodyRows = (hasHeader ? rows.slice(1) : rows).map(row => row.map(cell => removeUrls(elementText(cell))));
+    replaceWithParagraph(table, tableToText(header, bodyRows, settings));
+  });
+
+  // Outermost lists first; nested ones are read along with them
+  Array.from(page.querySelectorAll('ul, ol'))
+    .filter(list => !list.parentElement?.closest('ul, ol'))
+    .forEach(list => {
+      const items: { text: string; ordinal: number | null }[] = [];
+      readHtmlList(list, items, list.localName === 'ol');
+      replaceWithParagraph(list, listToText(items, language));
+    });
+
+  const blocks = extractTextBlocks(page.body ?? page.documentElement).map(block => ({
+    text: removeUrls(block.text),
+    headingLevel: block.headingLevel,
+  }));
+  const meta = (name: string) => page.querySelector(`meta[name="${name}"]`)?.getAttribute('content')?.trim() ?? '';
+  return {
+    title: page.title.trim() || meta('title'),
+    author: meta('author'),
+    ...blocksToChapters(blocks),
+    images: [],
+  };
+}
+
+export async function importMarkdown(file: File, options: MarkupImportOptions): Promise<ImportedManuscript> {
+  return markdownToManuscript(await file.text(), options);
+}
+
+export async function importHtml(file: File, options: MarkupImportOptions): Promise<ImportedManuscript> {
+  return htmlToManuscript(await file.text(), options);
+}
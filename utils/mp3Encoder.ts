@@ -0,0 +1,43 @@
+// utils/mp3Encoder.ts
+// Audiobook export as a tagged MP3: the lamejs stream behind an ID3v2.4 tag with chapters.
+import { AudioExportFormat, EncoderSettings, ExportSink, PcmEncoder } from './audioExport';
+import { createId3v24Tag } from './id3Writer';
+
+async function createMp3Encoder(settings: EncoderSettings, sink: ExportSink): Promise<PcmEncoder> {
+  // Loaded on demand so lamejs stays out of the page's bundle
+  const { createMp3StreamEncoder, floatToInt16, MP3_FRAME_SAMPLES } = await import('./lameEncoder');
+  const lame = createMp3StreamEncoder(settings.sampleRate);
+  await sink.append(createId3v24Tag(settings.metadata, settings.chapters, settings.cover));
+
+  let encodedByteCount = 0;
+  const append = async (data: Uint8Array) => {
+    if (data.length === 0) return;
+    encodedByteCount += data.length;
+    await sink.append(data);
+  };
+  return {
+    write: async samples => {
+      const pcm16 = floatToInt16(samples);
+      for (let i = 0; i < pcm16.length; i += MP3_FRAME_SAMPLES) {
+        await append(lame.encodeBuffer(pcm16.subarray(i, i + MP3_FRAME_SAMPLES)));
+      }
+    },
+    finish: async () => {
+      await append(lame.flush());
+      if (encodedByteCount === 0) {
+        throw new Error('A generált MP3 fájl üres. A kódolás sikertelen lehet.');
+      }
+    },
+    close: () => {},
+  };
+}
+
+export const mp3ExportFormat: AudioExportFormat = {
+  id: 'mp3',
+  label: 'MP3',
+  extension: 'mp3',
+  mimeType: 'audio/mpeg',
+  description: 'MP3 hang',
+  resolveSampleRate: async sourceRate => sourceRate,
+  createEncoder: createMp3Encoder,
+};
@@ -0,0 +1,264 @@
+// utils/mp4Writer.ts
+// Minimal MP4 (M4B) muxer for a single compressed audio track, a QuickTime chapter track,
+// Nero chapter markers and iTunes-style metadata. The sample data comes before `moov`, so the
+// audio can be written out as it is encoded and the tables appended at the end.
+import { concatBytes, latin1, textEncoder, u16be, u24be, u32be, u64be, u8 } from './byteUtils';
+
+export interface Mp4AudioTrack {
+  sampleRate: number;            // Also the track's timescale
+  numberOfChannels: number;
+  objectTypeIndication: number;  // MPEG-4 systems code: 0x40 AAC, 0x6B MPEG-1 audio, 0x69 MPEG-2 audio
+  decoderSpecificInfo?: Uint8Array; // AudioSpecificConfig for AAC
+  bitrate: number;               // Average, bits per second
+  sampleSizes: number[];         // Byte size of each encoded frame, in decoding order
+  sampleDurations: number[];     // Per frame, in samples
+}
+
+export interface Mp4Chapter {
+  title: string;
+  startMs: number;
+}
+
+export interface Mp4Metadata {
+  title: string;
+  artist: string;     // The author
+  composer?: string;  // Audiobook players show the narrator from here
+  album: string;
+  genre?: string;
+  track?: { number: number; total: number };
+  comment?: string;
+  encoder?: string;
+}
+
+export interface Mp4Cover {
+  data: Uint8Array;
+  mimeType: 'image/jpeg' | 'image/png';
+}
+
+// --- Box primitives ---
+
+// Box types are four bytes of Latin-1, e.g. the © of '©nam' is 0xA9
+const fourCc = latin1;
+const zeros = (length: number) => new Uint8Array(length);
+
+function box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = concatBytes(payload);
+  return concatBytes([u32be(body.length + 8), fourCc(type), body]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...payload: Uint8Array[]): Uint8Array {
+  return box(type, u8(version), u24be(flags), ...payload);
+}
+
+// MPEG-4 descriptor with the expandable size field
+function descriptor(tag: number, ...payload: Uint8Array[]): Uint8Array {
+  const body = concatBytes(payload);
+  const sizeBytes: number[] = [];
+  let size = body.length;
+  do {
+    sizeBytes.unshift(size & 0x7f);
+    size >>>= 7;
+  } while (size > 0);
+  for (let i = 0; i < sizeBytes.length - 1; i++) sizeBytes[i] |= 0x80;
+  return concatBytes([u8(tag), Uint8Array.from(sizeBytes), body]);
+}
+
+const UNITY_MATRIX = concatBytes([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(u32be));
+
+// ISO 639-2/T code packed into 15 bits
+const packLanguage = (code: string) =>
+  u16be([...code].reduce((acc, char) => (acc << 5) | ((char.charCodeAt(0) - 0x60) & 0x1f), 0));
+
+// --- Sample tables ---
+
+function sampleTable(sampleEntry: Uint8Array, sizes: number[], durations: number[], chunkOffset: number): Uint8Array {
+  const timeToSample: [number, number][] = [];
+  for (const duration of durations) {
+    const last = timeToSample[timeToSample.length - 1];
+    if (last && last[1] === duration) last[0]++;
+    else timeToSample.push([1, duration]);
+  }
+  return box('stbl',
+    fullBox('stsd', 0, 0, u32be(1), sampleEntry),
+    fullBox('stts', 0, 0, u32be(timeToSample.length), ...timeToSample.flatMap(([count, delta]) => [u32be(count), u32be(delta)])),
+    // All samples of a track form a single chunk
+    fullBox('stsc', 0, 0, u32be(1), u32be(1), u32be(sizes.length), u32be(1)),
+    fullBox('stsz', 0, 0, u32be(0), u32be(sizes.length), ...sizes.map(u32be)),
+    fullBox('stco', 0, 0, u32be(1), u32be(chunkOffset)),
+  );
+}
+
+function trackHeader(trackId: number, durationMs: number, enabled: boolean, isAudio: boolean): Uint8Array {
+  return fullBox('tkhd', 0, enabled ? 0x3 : 0x0,
+    u32be(0), u32be(0), u32be(trackId), u32be(0), u32be(durationMs),
+    zeros(8), u16be(0), u16be(0), u16be(isAudio ? 0x0100 : 0), u16be(0),
+    UNITY_MATRIX, u32be(0), u32be(0),
+  );
+}
+
+function mediaHeader(timescale: number, duration: number, language: string): Uint8Array {
+  return fullBox('mdhd', 0, 0, u32be(0), u32be(0), u32be(timescale), u32be(duration), packLanguage(language), u16be(0));
+}
+
+function handler(type: string, name: string): Uint8Array {
+  return fullBox('hdlr', 0, 0, u32be(0), fourCc(type), zeros(12), textEncoder.encode(name), u8(0));
+}
+
+const dataInformation = () => box('dinf', fullBox('dref', 0, 0, u32be(1), fullBox('url ', 0, 1)));
+
+function audioSampleEntry(track: Mp4AudioTrack): Uint8Array {
+  const bufferSize = track.sampleSizes.reduce((acc, size) => Math.max(acc, size), 0);
+  const esds = fullBox('esds', 0, 0, descriptor(0x03,
+    u16be(1), u8(0),
+    descriptor(0x04,
+      u8(track.objectTypeIndication), u8(0x15), u24be(bufferSize), u32be(track.bitrate), u32be(track.bitrate),
+      ...(track.decoderSpecificInfo ? [descriptor(0x05, track.decoderSpecificInfo)] : []),
+    ),
+    descriptor(0x06, u8(0x02)),
+  ));
+  return box('mp4a',
+    zeros(6), u16be(1), zeros(8),
+    u16be(track.numberOfChannels), u16be(16), u16be(0), u16be(0), u32be(track.sampleRate * 0x10000),
+    esds,
+  );
+}
+
+// QuickTime text sample description as written for chapter tracks (justification 1, default colors)
+function textSampleEntry(): Uint8Array {
+  const properties = zeros(43);
+  properties[7] = 1;
+  return box('text', zeros(6), u16be(1), properties);
+}
+
+// --- Metadata ---
+
+function metadataItem(type: string, dataType: number, value: Uint8Array): Uint8Array {
+  return box(type, box('data', u32be(dataType), u32be(0), value));
+}
+
+const textItem = (type: string, value: string) => metadataItem(type, 1, textEncoder.encode(value));
+
+function userData(metadata: Mp4Metadata, chapters: Mp4Chapter[], cover?: Mp4Cover): Uint8Array {
+  const items = [
+    textItem('©nam', metadata.title),
+    textItem('©ART', metadata.artist),
+    textItem('aART', metadata.artist),
+    ...(metadata.composer ? [textItem('©wrt', metadata.composer)] : []),
+    textItem('©alb', metadata.album),
+    ...(metadata.genre ? [textItem('©gen', metadata.genre)] : []),
+    ...(metadata.track ? [metadataItem('trkn', 0, concatBytes([u16be(0), u16be(metadata.track.number), u16be(metadata.track.total), u16be(0)]))] : []),
+    ...(metadata.comment ? [textItem('©cmt', metadata.comment)] : []),
+    ...(metadata.encoder ? [textItem('©too', metadata.encoder)] : []),
+    metadataItem('stik', 21, u8(2)), // Media kind: audiobook
+    ...(cover ? [metadataItem('covr', cover.mimeType === 'image/png' ? 14 : 13, cover.data)] : []),
+  ];
+  const meta = fullBox('meta', 0, 0,
+    fullBox('hdlr', 0, 0, u32be(0), fourCc('mdir'), fourCc('appl'), zeros(8), u8(0)),
+    box('ilst', ...items),
+  );
+
+  // Nero chapter list: read by players that ignore the chapter track; limited to 255 entries
+  const neroChapters = chapters.slice(0, 255);
+  const chpl = fullBox('chpl', 1, 0, u32be(0), u8(neroChapters.length), ...neroChapters.flatMap(chapter => {
+    const title = truncateUtf8(chapter.title, 255);
+    return [u64be(chapter.startMs * 10000), u8(title.length), title];
+  }));
+  return box('udta', chpl, meta);
+}
+
+function truncateUtf8(text: string, maxBytes: number): Uint8Array {
+  let bytes = textEncoder.encode(text);
+  while (bytes.length > maxBytes) {
+    text = text.slice(0, -1);
+    bytes = textEncoder.encode(text);
+  }
+  return bytes;
+}
+
+// --- File ---
+
+const FTYP = box('ftyp', fourCc('M4B '), u32be(0), fourCc('M4B '), fourCc('M4A '), fourCc('mp42'), fourCc('isom'));
+
+// Position of the mdat size field, which is only known once all samples are written
+export const M4B_MDAT_SIZE_OFFSET = FTYP.length;
+
+/**
+ * Start of an .m4b file: `ftyp` and the header of `mdat`. The audio samples follow directly.
+ */
+export function createM4bHeader(): Uint8Array {
+  return concatBytes([FTYP, u32be(0), fourCc('mdat')]);
+}
+
+/**
+ * Everything after the audio samples: the chapter track's samples and `moov`, plus the value of
+ * the mdat size field. `chapters` must be sorted and start at 0; the last chapter runs to the end
+ * of the audio. Files above 4 GB are not supported (32-bit chunk offsets).
+ */
+export function createM4bTrailer(
+  track: Mp4AudioTrack,
+  chapters: Mp4Chapter[],
+  metadata: Mp4Metadata,
+  cover?: Mp4Cover
+): { trailer: Uint8Array; mdatSize: Uint8Array } {
+  const totalSamples = track.sampleDurations.reduce((acc, duration) => acc + duration, 0);
+  const durationMs = Math.round((totalSamples / track.sampleRate) * 1000);
+
+  // Chapter track samples: 16-bit length, UTF-8 title, and an encoding box marking it as UTF-8
+  const chapterSamples = chapters.map(chapter => {
+    const title = truncateUtf8(chapter.title, 0xffff);
+    return concatBytes([u16be(title.length), title, box('encd', u32be(0x00000100))]);
+  });
+  const chapterDurations = chapters.map((chapter, index) =>
+    Math.max(1, Math.round((index + 1 < chapters.length ? chapters[index + 1].startMs : durationMs) - chapter.startMs)));
+
+  const audioSize = track.sampleSizes.reduce((acc, size) => acc + size, 0);
+  const chapterSize = chapterSamples.reduce((acc, sample) => acc + sample.length, 0);
+  const mdatSize = 8 + audioSize + chapterSize;
+  if (FTYP.length + mdatSize > 0xffffffff) {
+    throw new Error('Az M4B fájl túl nagy (4 GB felett).');
+  }
+  const audioOffset = FTYP.length + 8;
+  const chapterOffset = audioOffset + audioSize;
+
+  const audioTrak = box('trak',
+    trackHeader(1, durationMs, true, true),
+    box('tref', box('chap', u32be(2))),
+    box('mdia',
+      mediaHeader(track.sampleRate, totalSamples, 'und'),
+      handler('soun', 'SoundHandler'),
+      box('minf',
+        fullBox('smhd', 0, 0, u16be(0), u16be(0)),
+        dataInformation(),
+        sampleTable(audioSampleEntry(track), track.sampleSizes, track.sampleDurations, audioOffset),
+      ),
+    ),
+  );
+
+  const chapterTrak = box('trak',
+    trackHeader(2, durationMs, false, false),
+    box('mdia',
+      mediaHeader(1000, chapterDurations.reduce((acc, duration) => acc + duration, 0), 'und'),
+      handler('text', 'ChapterHandler'),
+      box('minf',
+        box('gmhd',
+          fullBox('gmin', 0, 0, u16be(0x40), u16be(0x8000), u16be(0x8000), u16be(0x8000), u16be(0), u16be(0)),
+          box('text', UNITY_MATRIX),
+        ),
+        dataInformation(),
+        sampleTable(textSampleEntry(), chapterSamples.map(sample => sample.length), chapterDurations, chapterOffset),
+      ),
+    ),
+  );
+
+  const moov = box('moov',
+    fullBox('mvhd', 0, 0,
+      u32be(0), u32be(0), u32be(1000), u32be(durationMs),
+      u32be(0x00010000), u16be(0x0100), zeros(10), UNITY_MATRIX, zeros(24), u32be(3),
+    ),
+    audioTrak,
+    chapterTrak,
+    userData(metadata, chapters, cover),
+  );
+
+  return { trailer: concatBytes([...chapterSamples, moov]), mdatSize: u32be(mdatSize) };
+}
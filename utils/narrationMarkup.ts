@@ -0,0 +1,100 @@
+// utils/narrationMarkup.ts
+// Inline narration markup. SSML-like tags are used because bracketed lines already mark speakers:
+//   <pause 2s/>  <pause 500ms/>  <pause/>          silence of the given length (default 1 s)
+//   <break time="2s"/>                              SSML spelling of the same
+//   <style suttogva, lassan>…</style>               style direction for the enclosed text
+//   <emphasis>…</emphasis>                          words to stress
+// Unknown tags are left in the text untouched.
+
+export const DEFAULT_PAUSE_SECONDS = 1;
+const MAX_PAUSE_SECONDS = 30;
+
+const MARKUP_TOKEN_REGEX = /<pause(?:\s+(\d+(?:[.,]\d+)?)\s*(ms|s)?)?\s*\/?>|<break\s+time\s*=\s*["']?(\d+(?:[.,]\d+)?)\s*(ms|s)?["']?\s*\/?>|<style\s+([^<>]+?)\s*>|<\/style\s*>|<emphasis\s*>|<\/emphasis\s*>/gi;
+
+export type NarrationPiece =
+  | { kind: 'text'; text: string; style: string; emphasis: string[] }
+  | { kind: 'pause'; seconds: number };
+
+const parseSeconds = (value: string | undefined, unit: string | undefined) => {
+  if (!value) return DEFAULT_PAUSE_SECONDS;
+  const amount = Number(value.replace(',', '.'));
+  const seconds = unit?.toLowerCase() === 'ms' ? amount / 1000 : amount;
+  return Math.min(Math.max(seconds, 0), MAX_PAUSE_SECONDS);
+};
+
+/**
+ * Splits text into spoken pieces and pauses.
+ * Consecutive text with the same style forms one piece; emphasized phrases stay part of the text
+ * and are listed in `emphasis`. An unclosed style lasts until the end of the text.
+ */
+export function parseNarrationMarkup(text: string): NarrationPiece[] {
+  const pieces: NarrationPiece[] = [];
+  const styleStack: string[] = [];
+  let emphasisStart: number | null = null;
+  let current = { text: '', emphasis: [] as string[] };
+  let position = 0;
+
+  const currentStyle = () => styleStack.join(', ');
+  const flushText = () => {
+    if (current.text.trim()) {
+      pieces.push({ kind: 'text', text: current.text, style: currentStyle(), emphasis: current.emphasis });
+    }
+    current = { text: '', emphasis: [] };
+    emphasisStart = null;
+  };
+
+  for (const match of text.matchAll(MARKUP_TOKEN_REGEX)) {
+    current.text += text.slice(position, match.index);
+    position = match.index! + match[0].length;
+    const tag = match[0].toLowerCase();
+
+    if (tag.startsWith('<pause') || tag.startsWith('<break')) {
+      flushText();
+      pieces.push({ kind: 'pause', seconds: parseSeconds(match[1] ?? match[3], match[2] ?? match[4]) });
+    } else if (tag.startsWith('<style')) {
+      flushText();
+      styleStack.push(match[5].replace(/^["']|["']$/g, '').trim());
+    } else if (tag.startsWith('</style')) {
+      flushText();
+      styleStack.pop();
+    } else if (tag.startsWith('<emphasis')) {
+      emphasisStart = current.text.length;
+    } else if (emphasisStart !== null) {
+      const phrase = current.text.slice(emphasisStart).trim();
+      if (phrase) current.emphasis.push(phrase);
+      emphasisStart = null;
+    }
+  }
+  current.text += text.slice(position);
+  flushText();
+
+  // Adjacent pauses add up
+  return pieces.reduce<NarrationPiece[]>((merged, piece) => {
+    const previous = merged[merged.length - 1];
+    if (piece.kind === 'pause' && previous?.kind === 'pause') {
+      previous.seconds = Math.min(previous.seconds + piece.seconds, MAX_PAUSE_SECONDS);
+    } else {
+      merged.push(piece);
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Removes all narration markup, leaving only the words that are spoken (e.g. for karaoke captions).
+ */
+export function stripNarrationMarkup(text: string): string {
+  return text.replace(MARKUP_TOKEN_REGEX, '').replace(/[ \t]{2,}/g, ' ');
+}
+
+/**
+ * Builds the style direction of one synthesized segment from the piece's style and the
+ * emphasized phrases that ended up in this segment.
+ */
+export function buildStyleDirection(style: string, emphasis: string[], segmentText: string): string {
+  const emphasized = emphasis.filter(phrase => segmentText.includes(phrase));
+  return [
+    style,
+    emphasized.length > 0 ? `stress the words ${emphasized.map(phrase => `"${phrase}"`).join(', ')}` : '',
+  ].filter(Boolean).join('; ');
+}
@@ -0,0 +1,270 @@
+// utils/officeImport.ts
+// Reads word processor manuscripts (.docx, .odt) in the browser. Paragraph text is extracted in
+// reading order; Heading 1/2 styles mark chapters and sections, while footnotes, endnotes and
+// comments are left out of the narration and returned as a skip list.
+import { ImportedManuscript } from '../types';
+import { blocksToChapters, ManuscriptBlock } from './documentOutline';
+import { openZip, ZipArchive } from './zipReader';
+
+type SkippedNote = NonNullable<ManuscriptBlock['skipped']>[number];
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const ODF_TEXT_NAMESPACE = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+const ODF_STYLE_NAMESPACE = 'urn:oasis:names:tc:opendocument:xmlns:style:1.0';
+const ODF_OFFICE_NAMESPACE = 'urn:oasis:names:tc:opendocument:xmlns:office:1.0';
+const DC_NAMESPACE = 'http://purl.org/dc/elements/1.1/';
+
+const parseXml = (source: string) => new DOMParser().parseFromString(source, 'application/xml');
+const childElements = (node: Node) => Array.from(node.childNodes).filter((child): child is Element => child.nodeType === Node.ELEMENT_NODE);
+const cleanText = (text: string) => text.replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').trim();
+
+async function readOptionalXml(zip: ZipArchive, path: string): Promise<Document | null> {
+  return zip.has(path) ? parseXml(await zip.readText(path)) : null;
+}
+
+function readCoreMetadata(core: Document | null, creatorNamespace: string, creatorName: string) {
+  const first = (namespace: string, name: string) => core?.getElementsByTagNameNS(namespace, name)[0]?.textContent?.trim() ?? '';
+  return { title: first(DC_NAMESPACE, 'title'), author: first(creatorNamespace, creatorName) || first(DC_NAMESPACE, 'creator') };
+}
+
+// --- DOCX ---
+
+const wordAttribute = (element: Element | undefined | null, name: string) => element?.getAttributeNS(WORD_NAMESPACE, name) ?? null;
+const wordChild = (element: Element | undefined | null, name: string) =>
+  element ? childElements(element).find(child => child.namespaceURI === WORD_NAMESPACE && child.localName === name) : undefined;
+
+/**
+ * Heading level of every paragraph style: built-in styles keep their English name ("heading 1")
+ * in every Word language, custom ones may set an outline level or inherit one via basedOn.
+ */
+function readWordHeadingStyles(styles: Document | null): Map<string, number> {
+  const definitions = new Map<string, { level: number; basedOn: string | null }>();
+  for (const style of Array.from(styles?.getElementsByTagNameNS(WORD_NAMESPACE, 'style') ?? [])) {
+    const id = wordAttribute(style, 'styleId');
+    if (!id) continue;
+    const name = wordAttribute(wordChild(style, 'name'), 'val') ?? '';
+    const outline = wordAttribute(wordChild(wordChild(style, 'pPr'), 'outlineLvl'), 'val');
+    const named = /^heading\s*(\d)$/i.exec(name);
+    definitions.set(id, {
+      level: named ? Number(named[1]) : outline !== null && Number(outline) < 9 ? Number(outline) + 1 : 0,
+      basedOn: wordAttribute(wordChild(style, 'basedOn'), 'val'),
+    });
+  }
+  const levels = new Map<string, number>();
+  const resolve = (id: string, depth: number): number => {
+    const definition = definitions.get(id);
+    if (!definition || depth > 10) return 0;
+    return definition.level || (definition.basedOn ? resolve(definition.basedOn, depth + 1) : 0);
+  };
+  definitions.forEach((_definition, id) => levels.set(id, resolve(id, 0)));
+  return levels;
+}
+
+// Elements whose text is never narrated: deleted revisions, field codes, drawings and text boxes
+const WORD_SKIPPED_ELEMENTS = new Set(['del', 'moveFrom', 'instrText', 'delInstrText', 'drawing', 'pict', 'object', 'AlternateContent', 'rPr', 'pPr']);
+
+function readWordParagraphText(paragraph: Element, onReference?: (kind: SkippedNote['kind'], id: string) => void): string {
+  let text = '';
+  const visit = (element: Element) => {
+    if (element.namespaceURI !== WORD_NAMESPACE) {
+      if (element.localName !== 'AlternateContent') childElements(element).forEach(visit);
+      return;
+    }
+    if (WORD_SKIPPED_ELEMENTS.has(element.localName)) return;
+    switch (element.localName) {
+      case 't':
+        text += element.textContent ?? '';
+        return;
+      case 'tab':
+      case 'ptab':
+        text += ' ';
+        return;
+      case 'br':
+      case 'cr':
+        // A page break is layout, not a pause in the text
+        if (wordAttribute(element, 'type') !== 'page') text += '\n';
+        return;
+      case 'noBreakHyphen':
+        text += '-';
+        return;
+      case 'footnoteReference':
+      case 'endnoteReference':
+      case 'commentReference': {
+        const id = wordAttribute(element, 'id');
+        const kind = element.localName === 'footnoteReference' ? 'footnote' : element.localName === 'endnoteReference' ? 'endnote' : 'comment';
+        if (id !== null) onReference?.(kind, id);
+        return;
+      }
+      default:
+        childElements(element).forEach(visit);
+    }
+  };
+  visit(paragraph);
+  return cleanText(text);
+}
+
+// Footnotes, endnotes or comments by id; the separator pseudo-notes have a w:type and are left out
+function readWordNotes(notes: Document | null, elementName: string): Map<string, string> {
+  const texts = new Map<string, string>();
+  for (const note of Array.from(notes?.getElementsByTagNameNS(WORD_NAMESPACE, elementName) ?? [])) {
+    const id = wordAttribute(note, 'id');
+    if (id === null || wordAttribute(note, 'type')) continue;
+    const paragraphs = Array.from(note.getElementsByTagNameNS(WORD_NAMESPACE, 'p'));
+    texts.set(id, paragraphs.map(paragraph => readWordParagraphText(paragraph)).filter(Boolean).join(' '));
+  }
+  return texts;
+}
+
+export async function importDocx(file: File): Promise<ImportedManuscript> {
+  const zip = openZip(await file.arrayBuffer());
+  if (!zip.has('word/document.xml')) throw new Error('A fájl nem Word (DOCX) dokumentum.');
+  const documentXml = parseXml(await zip.readText('word/document.xml'));
+  const headingStyles = readWordHeadingStyles(await readOptionalXml(zip, 'word/styles.xml'));
+  const notes = {
+    footnote: readWordNotes(await readOptionalXml(zip, 'word/footnotes.xml'), 'footnote'),
+    endnote: readWordNotes(await readOptionalXml(zip, 'word/endnotes.xml'), 'endnote'),
+    comment: readWordNotes(await readOptionalXml(zip, 'word/comments.xml'), 'comment'),
+  };
+
+  const blocks: ManuscriptBlock[] = [];
+  const body = documentXml.getElementsByTagNameNS(WORD_NAMESPACE, 'body')[0];
+  const visit = (element: Element) => {
+    if (element.namespaceURI === WORD_NAMESPACE && element.localName === 'p') {
+      const skipped: SkippedNote[] = [];
+      const text = readWordParagraphText(element, (kind, id) => {
+        const noteText = notes[kind].get(id);
+        if (noteText) skipped.push({ kind, text: noteText });
+      });
+      const properties = wordChild(element, 'pPr');
+      const styleId = wordAttribute(wordChild(properties, 'pStyle'), 'val');
+      const outline = wordAttribute(wordChild(properties, 'outlineLvl'), 'val');
+      const headingLevel = outline !== null && Number(outline) < 9 ? Number(outline) + 1 : (styleId && headingStyles.get(styleId)) || 0;
+      blocks.push({ text, headingLevel, skipped });
+    } else if (!WORD_SKIPPED_ELEMENTS.has(element.localName)) {
+      // Tables, content controls and revisions hold paragraphs of their own
+      childElements(element).forEach(visit);
+    }
+  };
+  if (body) childElements(body).forEach(visit);
+
+  return {
+    ...readCoreMetadata(await readOptionalXml(zip, 'docProps/core.xml'), DC_NAMESPACE, 'creator'),
+    ...blocksToChapters(blocks),
+    images: [],
+  };
+}
+
+// --- ODT ---
+
+const odfAttribute = (element: Element | undefined | null, namespace: string, name: string) => element?.getAttributeNS(namespace, name) ?? null;
+
+/**
+ * Outline level of every paragraph style: LibreOffice's "Heading 1" has the internal name
+ * Heading_20_1, automatic styles (P1, P2…) inherit the level of their parent style.
+ */
+function readOdfHeadingStyles(...documents: (Document | null)[]): (styleName: string | null) => number {
+  const definitions = new Map<string, { level: number; parent: string | null }>();
+  for (const source of documents) {
+    for (const style of Array.from(source?.getElementsByTagNameNS(ODF_STYLE_NAMESPACE, 'style') ?? [])) {
+      const name = odfAttribute(style, ODF_STYLE_NAMESPACE, 'name');
+      if (!name) continue;
+      const outline = Number(odfAttribute(style, ODF_STYLE_NAMESPACE, 'default-outline-level'));
+      const named = /^Heading(?:_20_|\s)(\d)$/.exec(name);
+      definitions.set(name, {
+        level: outline > 0 ? outline : named ? Number(named[1]) : 0,
+        parent: odfAttribute(style, ODF_STYLE_NAMESPACE, 'parent-style-name'),
+      });
+    }
+  }
+  const resolve = (name: string | null, depth: number = 0): number => {
+    const definition = name ? definitions.get(name) : undefined;
+    if (!definition || depth > 10) return 0;
+    return definition.level || resolve(definition.parent, depth + 1);
+  };
+  return resolve;
+}
+
+// Frames (images, text boxes), change tracking and form data are not part of the narration
+const ODF_SKIPPED_ELEMENTS = new Set(['tracked-changes', 'sequence-decls', 'variable-decls', 'user-field-decls', 'frame', 'forms', 'note-citation', 'bookmark-ref', 'annotation-end']);
+
+function readOdfParagraphText(paragraph: Element, onNote?: (note: SkippedNote) => void): string {
+  let text = '';
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      // ODF collapses whitespace in text content; explicit spaces use <text:s/>
+      text += (node.nodeValue ?? '').replace(/[ \t\r\n]+/g, ' ');
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const element = node as Element;
+    if (ODF_SKIPPED_ELEMENTS.has(element.localName)) return;
+    if (element.namespaceURI === ODF_TEXT_NAMESPACE) {
+      if (element.localName === 's') {
+        text += ' '.repeat(Math.max(1, Number(odfAttribute(element, ODF_TEXT_NAMESPACE, 'c')) || 1));
+        return;
+      }
+      if (element.localName === 'tab') {
+        text += ' ';
+        return;
+      }
+      if (element.localName === 'line-break') {
+        text += '\n';
+        return;
+      }
+      if (element.localName === 'note') {
+        const body = element.getElementsByTagNameNS(ODF_TEXT_NAMESPACE, 'note-body')[0];
+        const kind = odfAttribute(element, ODF_TEXT_NAMESPACE, 'note-class') === 'endnote' ? 'endnote' : 'footnote';
+        if (body) onNote?.({ kind, text: readOdfNoteText(body) });
+        return;
+      }
+    }
+    if (element.namespaceURI === ODF_OFFICE_NAMESPACE && element.localName === 'annotation') {
+      onNote?.({ kind: 'comment', text: readOdfNoteText(element) });
+      return;
+    }
+    node.childNodes.forEach(visit);
+  };
+  visit(paragraph);
+  return cleanText(text);
+}
+
+// Note bodies and annotations hold paragraphs; an annotation's author and date are left out
+function readOdfNoteText(container: Element): string {
+  return Array.from(container.getElementsByTagNameNS(ODF_TEXT_NAMESPACE, 'p'))
+    .map(paragraph => readOdfParagraphText(paragraph))
+    .filter(Boolean)
+    .join(' ');
+}
+
+export async function importOdt(file: File): Promise<ImportedManuscript> {
+  const zip = openZip(await file.arrayBuffer());
+  if (!zip.has('content.xml')) throw new Error('A fájl nem OpenDocument szöveg (ODT).');
+  const content = parseXml(await zip.readText('content.xml'));
+  const headingLevelOf = readOdfHeadingStyles(await readOptionalXml(zip, 'styles.xml'), content);
+
+  const blocks: ManuscriptBlock[] = [];
+  const visit = (element: Element) => {
+    if (ODF_SKIPPED_ELEMENTS.has(element.localName)) return;
+    if (element.namespaceURI === ODF_TEXT_NAMESPACE && (element.localName === 'h' || element.localName === 'p')) {
+      const skipped: SkippedNote[] = [];
+      const text = readOdfParagraphText(element, note => {
+        if (note.text) skipped.push(note);
+      });
+      const headingLevel = element.localName === 'h'
+        ? Number(odfAttribute(element, ODF_TEXT_NAMESPACE, 'outline-level')) || 1
+        : headingLevelOf(odfAttribute(element, ODF_TEXT_NAMESPACE, 'style-name'));
+      blocks.push({ text, headingLevel, skipped });
+    } else {
+      // Lists, sections and tables hold paragraphs of their own
+      childElements(element).forEach(visit);
+    }
+  };
+  const body = content.getElementsByTagNameNS(ODF_OFFICE_NAMESPACE, 'text')[0];
+  if (body) childElements(body).forEach(visit);
+
+  return {
+    ...readCoreMetadata(await readOptionalXml(zip, 'meta.xml'), 'urn:oasis:names:tc:opendocument:xmlns:meta:1.0', 'initial-creator'),
+    ...blocksToChapters(blocks),
+    images: [],
+  };
+}
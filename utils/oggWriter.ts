@@ -0,0 +1,68 @@
+// utils/oggWriter.ts
+// Ogg page framing for a single logical stream (RFC 3533).
+import { concatBytes, latin1, u32le, u64le, u8 } from './byteUtils';
+
+const MAX_PAGE_DATA = 8192; // Pages are closed once they carry this much; keeps seeking granular
+
+const CRC_TABLE = new Uint32Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc = i << 24;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  CRC_TABLE[i] = crc >>> 0;
+}
+
+function oggCrc(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  return crc;
+}
+
+export class OggStreamWriter {
+  private readonly serialNumber = Math.floor(Math.random() * 0x100000000);
+  private sequenceNumber = 0;
+  private lacing: number[] = [];
+  private data: Uint8Array[] = [];
+  private dataLength = 0;
+  private granulePosition = -1; // Of the last packet completed on the current page; -1 if none
+  private continuesPacket = false;
+
+  constructor(private readonly emit: (page: Uint8Array) => Promise<void>) {}
+
+  /**
+   * Adds a packet ending at `granulePosition`. `endPage` closes the page after it, as required
+   * for the header packets; `endOfStream` marks the final packet.
+   */
+  async writePacket(packet: Uint8Array, granulePosition: number, endPage = false, endOfStream = false): Promise<void> {
+    let offset = 0;
+    for (;;) {
+      if (this.lacing.length === 255) await this.flushPage(false);
+      const size = Math.min(255, packet.length - offset);
+      this.lacing.push(size);
+      this.data.push(packet.subarray(offset, offset + size));
+      this.dataLength += size;
+      offset += size;
+      if (size < 255) break; // A lacing value below 255 ends the packet
+    }
+    this.granulePosition = granulePosition;
+    if (endPage || endOfStream || this.dataLength >= MAX_PAGE_DATA) await this.flushPage(endOfStream);
+  }
+
+  private async flushPage(endOfStream: boolean): Promise<void> {
+    const packetOpen = this.lacing[this.lacing.length - 1] === 255;
+    const flags = (this.continuesPacket ? 0x01 : 0) | (this.sequenceNumber === 0 ? 0x02 : 0) | (endOfStream ? 0x04 : 0);
+    const page = concatBytes([
+      latin1('OggS'), u8(0), u8(flags),
+      u64le(this.granulePosition), u32le(this.serialNumber), u32le(this.sequenceNumber++), u32le(0),
+      u8(this.lacing.length), Uint8Array.from(this.lacing),
+      ...this.data,
+    ]);
+    new DataView(page.buffer).setUint32(22, oggCrc(page), true);
+
+    this.continuesPacket = packetOpen;
+    this.lacing = [];
+    this.data = [];
+    this.dataLength = 0;
+    this.granulePosition = -1;
+    await this.emit(page);
+  }
+}
@@ -0,0 +1,134 @@
+// utils/opusEncoder.ts
+// Audiobook export as Ogg Opus (RFC 7845) through WebCodecs: small files for distribution, with
+// the tags, chapters and cover in the OpusTags header.
+import { AudioExportFormat, EncoderSettings, ExportSink, PcmEncoder } from './audioExport';
+import { base64FromBytes, concatBytes, latin1, u16le, u32le, u8 } from './byteUtils';
+import { OggStreamWriter } from './oggWriter';
+import { createFlacPicture, createVorbisComments, encodeVorbisComments } from './vorbisComment';
+
+const OPUS_BITRATE = 32000; // Transparent for mono speech
+const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+const GRANULE_RATE = 48000; // Ogg Opus granule positions always count 48 kHz samples
+const DEFAULT_PRE_SKIP = 312; // libopus encoder delay at 48 kHz
+
+async function findOpusEncoderConfig(sampleRate: number): Promise<AudioEncoderConfig | null> {
+  if (typeof AudioEncoder === 'undefined') return null;
+  const rates = OPUS_SAMPLE_RATES.includes(sampleRate) ? [sampleRate, 48000] : [48000];
+  for (const rate of rates) {
+    const config: AudioEncoderConfig = { codec: 'opus', sampleRate: rate, numberOfChannels: 1, bitrate: OPUS_BITRATE };
+    try {
+      if ((await AudioEncoder.isConfigSupported(config)).supported) return config;
+    } catch (err) {
+      console.warn(`Opus encoding at ${rate} Hz is not supported:`, err);
+    }
+  }
+  return null;
+}
+
+function toBytes(source: AllowSharedBufferSource): Uint8Array {
+  return ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice()
+    : new Uint8Array(source).slice();
+}
+
+// Identification header; encoders that report one (as the decoder description) know their pre-skip
+function opusHead(description: Uint8Array | undefined, inputSampleRate: number): Uint8Array {
+  if (description && new TextDecoder('latin1').decode(description.subarray(0, 8)) === 'OpusHead') {
+    return description;
+  }
+  return concatBytes([
+    latin1('OpusHead'), u8(1), u8(1), u16le(DEFAULT_PRE_SKIP), u32le(inputSampleRate),
+    u16le(0), // Output gain
+    u8(0),    // Channel mapping family: mono/stereo
+  ]);
+}
+
+function opusTags(settings: EncoderSettings): Uint8Array {
+  const comments = createVorbisComments(settings.metadata, settings.chapters);
+  if (settings.cover) comments.push(`METADATA_BLOCK_PICTURE=${base64FromBytes(createFlacPicture(settings.cover))}`);
+  return concatBytes([latin1('OpusTags'), encodeVorbisComments(comments)]);
+}
+
+async function createOpusEncoder(settings: EncoderSettings, sink: ExportSink): Promise<PcmEncoder> {
+  const config = await findOpusEncoderConfig(settings.sampleRate);
+  if (!config) {
+    throw new Error('A böngésző nem tud Opus hangot kódolni.');
+  }
+  const ogg = new OggStreamWriter(page => sink.append(page));
+
+  let preSkip = DEFAULT_PRE_SKIP;
+  let headersWritten = false;
+  // The newest packet is held back so the last one can be flagged as the end of the stream
+  let heldPacket: { data: Uint8Array; granule: number } | null = null;
+  let encodedSamples = 0; // At 48 kHz
+  let encoderError = null as DOMException | null;
+  let pendingWrites = Promise.resolve();
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      const description = metadata?.decoderConfig?.description;
+      pendingWrites = pendingWrites.then(async () => {
+        if (!headersWritten) {
+          const head = opusHead(description ? toBytes(description) : undefined, settings.sampleRate);
+          preSkip = new DataView(head.buffer, head.byteOffset).getUint16(10, true);
+          await ogg.writePacket(head, 0, true);
+          await ogg.writePacket(opusTags(settings), 0, true);
+          headersWritten = true;
+        }
+        if (heldPacket) await ogg.writePacket(heldPacket.data, heldPacket.granule);
+        encodedSamples += Math.round(((chunk.duration ?? 20000) / 1e6) * GRANULE_RATE);
+        heldPacket = { data, granule: preSkip + encodedSamples };
+      });
+    },
+    error: err => { encoderError = err; },
+  });
+  encoder.configure(config);
+
+  let frameCount = 0;
+  return {
+    write: async samples => {
+      if (encoderError) throw encoderError;
+      const audioData = new AudioData({
+        format: 'f32-planar',
+        sampleRate: config.sampleRate,
+        numberOfFrames: samples.length,
+        numberOfChannels: 1,
+        timestamp: Math.round((frameCount / config.sampleRate) * 1e6),
+        data: samples,
+      });
+      encoder.encode(audioData);
+      audioData.close();
+      frameCount += samples.length;
+      while (encoder.encodeQueueSize > 4) await new Promise(resolve => globalThis.setTimeout(resolve, 10));
+      await pendingWrites;
+    },
+    finish: async () => {
+      await encoder.flush();
+      if (encoderError) throw encoderError;
+      await pendingWrites;
+      encoder.close();
+      const last = heldPacket as { data: Uint8Array; granule: number } | null;
+      if (!last) {
+        throw new Error('Az Opus kódolás nem adott hangot.');
+      }
+      // The final granule position trims the padding of the last packet
+      const endGranule = preSkip + Math.round((frameCount / config.sampleRate) * GRANULE_RATE);
+      await ogg.writePacket(last.data, Math.min(last.granule, endGranule), false, true);
+    },
+    close: () => {
+      if (encoder.state !== 'closed') encoder.close();
+    },
+  };
+}
+
+export const opusExportFormat: AudioExportFormat = {
+  id: 'opus',
+  label: 'Opus (kis méret)',
+  extension: 'opus',
+  mimeType: 'audio/ogg',
+  description: 'Ogg Opus hang',
+  resolveSampleRate: async sourceRate => (await findOpusEncoderConfig(sourceRate))?.sampleRate ?? null,
+  createEncoder: createOpusEncoder,
+};
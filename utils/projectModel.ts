@@ -0,0 +1,351 @@
+// utils/projectModel.ts
+import { Book, CastMember, Chapter, Segment } from '../types';
+import { splitScriptIntoVoicedSegments, stripSpeakerMarkup } from './casting';
+import { stripNarrationMarkup } from './narrationMarkup';
+import { DEFAULT_NORMALIZATION_SETTINGS } from './textNormalizer';
+
+const PROJECT_STORAGE_KEY = 'audiobookProject';
+
+// Lines that start a new chapter when splitting a pasted manuscript:
+// Markdown headings, "1. fejezet", "Fejezet 1", "Chapter 1", "Prológus", "Epilógus"...
+const CHAPTER_HEADING_REGEX = /^\s*(#{1,3}\s+.+|\d+\.\s*fejezet\b.*|(fejezet|chapter)\s+[\divxlc]+\b.*|prológus|epilógus|prologue|epilogue)\s*$/i;
+
+export function createId(prefix: string): string {
+  if (globalThis.crypto && typeof globalThis.crypto.randomUUID === 'function') {
+    return `${prefix}-${globalThis.crypto.randomUUID()}`;
+  }
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Splits a chapter text into pending segments.
+ * @param previous Segments of an earlier version of the text; their boundaries are kept where the text is unchanged.
+ */
+export function createSegments(text: string, narratorVoice: string, cast: CastMember[] = [], previous: Segment[] = []): Segment[] {
+  const previousTexts = previous.map(segment => segment.text);
+  return splitScriptIntoVoicedSegments(text, cast, narratorVoice, previousTexts).map(run => ({
+    id: createId('seg'),
+    text: run.text,
+    voice: run.voice,
+    ...(run.speaker ? { speaker: run.speaker } : {}),
+    ...(run.style ? { style: run.style } : {}),
+    ...(run.pauseSeconds !== undefined ? { pauseSeconds: run.pauseSeconds } : {}),
+    status: 'pending',
+  }));
+}
+
+// What a segment's audio was produced from, apart from the voice (resolved separately from the cast)
+const segmentContentKey = (segment: Segment) =>
+  JSON.stringify([segment.text, segment.speaker ?? '', segment.style ?? '', segment.pauseSeconds ?? null]);
+
+/**
+ * Carries the audio of unchanged segments over to a freshly segmented text.
+ * The two segment lists are diffed (longest common subsequence of their content); matched segments
+ * keep their id, audio and timing, every other segment is new and pending.
+ */
+export function reconcileSegments(previous: Segment[], next: Segment[]): Segment[] {
+  const previousKeys = previous.map(segmentContentKey);
+  const nextKeys = next.map(segmentContentKey);
+
+  // Unchanged head and tail are matched directly; only the edited middle goes through the LCS table
+  let head = 0;
+  while (head < previous.length && head < next.length && previousKeys[head] === nextKeys[head]) head++;
+  let tail = 0;
+  while (
+    tail < previous.length - head && tail < next.length - head
+    && previousKeys[previous.length - 1 - tail] === nextKeys[next.length - 1 - tail]
+  ) tail++;
+
+  const rows = previous.length - head - tail;
+  const cols = next.length - head - tail;
+  const lcs = new Uint32Array((rows + 1) * (cols + 1));
+  const at = (i: number, j: number) => i * (cols + 1) + j;
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[at(i, j)] = previousKeys[head + i] === nextKeys[head + j]
+        ? lcs[at(i + 1, j + 1)] + 1
+        : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)]);
+    }
+  }
+
+  const result: Segment[] = previous.slice(0, head);
+  let i = 0;
+  let j = 0;
+  while (j < cols) {
+    if (i < rows && previousKeys[head + i] === nextKeys[head + j]) {
+      result.push(previous[head + i]);
+      i++;
+      j++;
+    } else if (i < rows && lcs[at(i + 1, j)] >= lcs[at(i, j + 1)]) {
+      i++; // Segment removed or changed
+    } else {
+      result.push(next[head + j]);
+      j++;
+    }
+  }
+  return result.concat(previous.slice(previous.length - tail));
+}
+
+/**
+ * Replaces the text of a chapter. Chapters that were already segmented are re-segmented and diffed
+ * against the text that produced their audio, so only edited segments become stale.
+ */
+export function updateChapterText(book: Book, chapterId: string, text: string, narratorVoice: string): Book {
+  return {
+    ...book,
+    chapters: book.chapters.map(chapter => {
+      if (chapter.id !== chapterId) return chapter;
+      const segments = chapter.segments.length > 0 && text.trim()
+        ? reconcileSegments(chapter.segments, createSegments(text, narratorVoice, book.cast, chapter.segments))
+        : [];
+      return { ...chapter, text, segments };
+    }),
+  };
+}
+
+export function createChapter(title: string, text: string = ''): Chapter {
+  return { id: createId('ch'), title, text, segments: [] };
+}
+
+export function createBook(title: string = 'Névtelen hangoskönyv', chapters?: Chapter[]): Book {
+  return {
+    id: createId('book'),
+    title,
+    author: '',
+    chapters: chapters && chapters.length > 0 ? chapters : [createChapter('1. fejezet')],
+    cast: [],
+    lexicon: [],
+    normalization: DEFAULT_NORMALIZATION_SETTINGS,
+  };
+}
+
+/**
+ * Splits a pasted manuscript into chapters at heading-like lines.
+ * Text before the first heading becomes an untitled opening chapter.
+ * If no heading is found, the whole text is returned as a single chapter.
+ */
+export function splitManuscriptIntoChapters(text: string, fallbackTitle: string = '1. fejezet'): Chapter[] {
+  const chapters: Chapter[] = [];
+  let currentTitle: string | null = null;
+  let currentLines: string[] = [];
+
+  const flush = () => {
+    const body = currentLines.join('\n').trim();
+    if (currentTitle !== null || body) {
+      chapters.push(createChapter(currentTitle ?? (chapters.length === 0 ? fallbackTitle : `${chapters.length + 1}. fejezet`), body));
+    }
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (CHAPTER_HEADING_REGEX.test(line)) {
+      flush();
+      currentTitle = line.replace(/^\s*#{1,3}\s+/, '').trim();
+      currentLines = [];
+    } else {
+      currentLines.push(line);
+    }
+  }
+  flush();
+
+  return chapters.length > 0 ? chapters : [createChapter(fallbackTitle, text)];
+}
+
+/**
+ * Makes sure every chapter in `chapterIds` has segments to synthesize.
+ * Chapters that already have segments keep them (and their audio).
+ */
+export function prepareChapterSegments(book: Book, chapterIds: string[], voice: string): Book {
+  return {
+    ...book,
+    chapters: book.chapters.map(chapter =>
+      chapterIds.includes(chapter.id) && chapter.segments.length === 0 && chapter.text.trim()
+        ? { ...chapter, segments: createSegments(chapter.text, voice, book.cast) }
+        : chapter
+    ),
+  };
+}
+
+export function updateChapter(book: Book, chapterId: string, patch: Partial<Chapter>): Book {
+  return {
+    ...book,
+    chapters: book.chapters.map(chapter => (chapter.id === chapterId ? { ...chapter, ...patch } : chapter)),
+  };
+}
+
+export function updateSegment(book: Book, segmentId: string, patch: Partial<Segment>): Book {
+  return {
+    ...book,
+    chapters: book.chapters.map(chapter =>
+      chapter.segments.some(segment => segment.id === segmentId)
+        ? { ...chapter, segments: chapter.segments.map(segment => (segment.id === segmentId ? { ...segment, ...patch } : segment)) }
+        : chapter
+    ),
+  };
+}
+
+const toWords = (text: string) => text.toLocaleLowerCase('hu-HU').match(/[\p{L}\p{N}]+/gu) ?? [];
+
+/**
+ * Where each segment starts in the chapter text. Segments do not keep manuscript offsets, so their
+ * words are matched against the text in order; a segment whose words are not found (the text was
+ * edited since) gets no start.
+ */
+function locateSegmentStarts(chapter: Chapter): { segment: Segment; start: number }[] {
+  const textWords = [...chapter.text.matchAll(/[\p{L}\p{N}]+/gu)].map(match => ({
+    word: match[0].toLocaleLowerCase('hu-HU'),
+    start: match.index!,
+  }));
+  const located: { segment: Segment; start: number }[] = [];
+  let position = 0;
+  for (const segment of chapter.segments) {
+    const words = toWords(segment.text);
+    if (words.length === 0) continue;
+    // Markup words (speaker names, tags) in the text are skipped over
+    let matched = 0;
+    let start = -1;
+    let i = position;
+    for (; i < textWords.length && matched < words.length; i++) {
+      if (textWords[i].word !== words[matched]) continue;
+      if (matched === 0) start = textWords[i].start;
+      matched++;
+    }
+    if (matched < words.length) continue;
+    located.push({ segment, start });
+    position = i;
+  }
+  return located;
+}
+
+/**
+ * Finds the segment that speaks the sentence at the given offset of the chapter text (e.g. the editor cursor).
+ * The segment whose located text contains the offset wins, so repeated sentences resolve to the right
+ * paragraph; otherwise the sentence around the offset is matched by its words.
+ */
+export function findSegmentAtOffset(chapter: Chapter, offset: number, cast: CastMember[]): Segment | null {
+  const located = locateSegmentStarts(chapter);
+  const containing = located.filter(entry => entry.start <= offset).pop();
+  if (containing && located.length === chapter.segments.filter(segment => toWords(segment.text).length > 0).length) {
+    return containing.segment;
+  }
+
+  const lineStart = chapter.text.lastIndexOf('\n', offset - 1) + 1;
+  const lineEndIndex = chapter.text.indexOf('\n', offset);
+  const line = chapter.text.slice(lineStart, lineEndIndex === -1 ? undefined : lineEndIndex);
+  const cursor = offset - lineStart;
+  // Narrow the line down to the sentence around the cursor
+  const sentenceEnds = [...line.matchAll(/[.!?…]+["”»]?\s+/g)].map(match => match.index! + match[0].length);
+  const sentenceStart = sentenceEnds.filter(end => end <= cursor).pop() ?? 0;
+  const sentenceEnd = sentenceEnds.find(end => end > cursor) ?? line.length;
+  const words = toWords(stripNarrationMarkup(stripSpeakerMarkup(line.slice(sentenceStart, sentenceEnd), cast)));
+  if (words.length === 0) return null;
+
+  let best: Segment | null = null;
+  let bestScore = 0;
+  for (const segment of chapter.segments) {
+    const segmentWords = new Set(toWords(segment.text));
+    const score = words.filter(word => segmentWords.has(word)).length / words.length;
+    if (score > bestScore) {
+      best = segment;
+      bestScore = score;
+    }
+  }
+  return bestScore >= 0.5 ? best : null;
+}
+
+/**
+ * Discards the audio of every segment, e.g. after switching the TTS provider.
+ * Segments get new ids, so persisted audio of the old ids is not restored either.
+ */
+export function resetSegmentAudio(book: Book): Book {
+  return {
+    ...book,
+    chapters: book.chapters.map(chapter => ({
+      ...chapter,
+      segments: chapter.segments.map(segment => ({
+        ...segment,
+        id: createId('seg'),
+        status: 'pending',
+        audioRef: undefined,
+        duration: undefined,
+        error: undefined,
+      })),
+    })),
+  };
+}
+
+export function moveChapter(book: Book, chapterId: string, direction: -1 | 1): Book {
+  const index = book.chapters.findIndex(chapter => chapter.id === chapterId);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= book.chapters.length) return book;
+  const chapters = [...book.chapters];
+  [chapters[index], chapters[target]] = [chapters[target], chapters[index]];
+  return { ...book, chapters };
+}
+
+export function getChapterDuration(chapter: Chapter): number {
+  return chapter.segments.reduce((acc, segment) => acc + (segment.duration ?? 0), 0);
+}
+
+/**
+ * Persists the project structure (texts, titles, voices, cast, lexicon, normalization settings) to localStorage.
+ * Audio references point into memory only; generated audio is persisted separately in IndexedDB
+ * (see services/generationQueue) and restored by segment id.
+ */
+export function saveBookToStorage(book: Book): void {
+  try {
+    globalThis.localStorage.setItem(PROJECT_STORAGE_KEY, JSON.stringify(book));
+  } catch (e) {
+    console.error('Nem sikerült menteni a hangoskönyv projektet a localStorage-ba', e);
+  }
+}
+
+export function loadBookFromStorage(): Book | null {
+  try {
+    const saved = globalThis.localStorage.getItem(PROJECT_STORAGE_KEY);
+    if (!saved) return null;
+    const book = JSON.parse(saved) as Book;
+    if (!book || !Array.isArray(book.chapters) || book.chapters.length === 0) return null;
+    // In-memory audio from a previous session is gone; persisted audio is restored after load.
+    return {
+      ...book,
+      cast: Array.isArray(book.cast) ? book.cast : [],
+      lexicon: Array.isArray(book.lexicon) ? book.lexicon : [],
+      // Projects saved before a rule existed get its default
+      normalization: {
+        ...DEFAULT_NORMALIZATION_SETTINGS,
+        ...book.normalization,
+        rules: { ...DEFAULT_NORMALIZATION_SETTINGS.rules, ...book.normalization?.rules },
+      },
+      chapters: book.chapters.map(chapter => ({
+        ...chapter,
+        segments: (chapter.segments ?? []).map(segment => ({
+          ...segment,
+          status: 'pending',
+          audioRef: undefined,
+          duration: undefined,
+          error: undefined,
+        })),
+      })),
+    };
+  } catch (e) {
+    console.error('Nem sikerült betölteni a hangoskönyv projektet a localStorage-ból', e);
+    return null;
+  }
+}
+
+/**
+ * Builds a file name for exported audio, e.g. "a_kis_herceg-2_fejezet.mp3".
+ */
+export function getExportFileName(book: Book, chapter: Chapter | null, extension: string): string {
+  const slugify = (value: string) =>
+    value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^\w-]+/g, '_')
+      .replace(/_+/g, '_')
+      .replace(/^_|_$/g, '')
+      .toLowerCase();
+  const parts = [slugify(book.title) || 'audiobook'];
+  if (chapter) parts.push(slugify(chapter.title) || 'fejezet');
+  return `${parts.join('-')}.${extension}`;
+}
@@ -0,0 +1,179 @@
+// utils/pronunciationLexicon.ts
+// Project pronunciation dictionary: replaces names and jargon with respellings before synthesis.
+import { Book, PronunciationEntry } from '../types';
+import { createId } from './projectModel';
+
+const CSV_HEADER = ['term', 'replacement', 'caseSensitive', 'wholeWord'];
+
+interface LexiconMatch {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function buildEntryRegex(entry: PronunciationEntry): RegExp {
+  const term = escapeRegExp(entry.term.trim());
+  // \b only knows ASCII letters; Hungarian words need Unicode-aware boundaries
+  const pattern = entry.wholeWord ? `(?<![\\p{L}\\p{N}_])${term}(?![\\p{L}\\p{N}_])` : term;
+  return new RegExp(pattern, entry.caseSensitive ? 'gu' : 'giu');
+}
+
+/**
+ * Applies the lexicon to a text in a single pass.
+ * Overlapping matches are resolved in favour of the earliest, then the longest term, and
+ * replacements are never matched again, so entries cannot cascade into each other.
+ */
+export function applyPronunciationLexicon(text: string, lexicon: PronunciationEntry[]): string {
+  const matches: LexiconMatch[] = [];
+  for (const entry of lexicon) {
+    if (!entry.term.trim()) continue;
+    for (const match of text.matchAll(buildEntryRegex(entry))) {
+      matches.push({ start: match.index!, end: match.index! + match[0].length, replacement: entry.replacement });
+    }
+  }
+  if (matches.length === 0) return text;
+
+  matches.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  let result = '';
+  let position = 0;
+  for (const match of matches) {
+    if (match.start < position) continue; // Overlaps an earlier, longer match
+    result += text.slice(position, match.start) + match.replacement;
+    position = match.end;
+  }
+  return result + text.slice(position);
+}
+
+export function createPronunciationEntry(term: string = '', replacement: string = ''): PronunciationEntry {
+  return { id: createId('lex'), term, replacement, caseSensitive: false, wholeWord: true };
+}
+
+export function lexiconToJson(lexicon: PronunciationEntry[]): string {
+  return JSON.stringify(
+    lexicon.map(({ term, replacement, caseSensitive, wholeWord }) => ({ term, replacement, caseSensitive, wholeWord })),
+    null,
+    2,
+  );
+}
+
+export function lexiconToCsv(lexicon: PronunciationEntry[]): string {
+  const quote = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const rows = lexicon.map(entry =>
+    [entry.term, entry.replacement, String(entry.caseSensitive), String(entry.wholeWord)].map(quote).join(',')
+  );
+  return [CSV_HEADER.join(','), ...rows].join('\n');
+}
+
+// Minimal CSV reader: quoted fields, doubled quotes, CRLF or LF line endings.
+// Semicolons separate fields too, as Excel writes them in Hungarian locales.
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',' || char === ';') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+const parseFlag = (value: unknown, fallback: boolean) => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value !== 'string' || !value.trim()) return fallback;
+  return ['true', '1', 'igen', 'yes', 'x'].includes(value.trim().toLowerCase());
+};
+
+/**
+ * Parses an exported lexicon. JSON must be an array of entries; CSV needs a
+ * "term,replacement[,caseSensitive,wholeWord]" layout, the header row is optional.
+ * @throws Error if the file cannot be read as a lexicon.
+ */
+export function parseLexiconFile(fileName: string, content: string): PronunciationEntry[] {
+  const fromFields = (term: unknown, replacement: unknown, caseSensitive: unknown, wholeWord: unknown) => {
+    if (typeof term !== 'string' || typeof replacement !== 'string' || !term.trim()) return null;
+    return {
+      ...createPronunciationEntry(term.trim(), replacement.trim()),
+      caseSensitive: parseFlag(caseSensitive, false),
+      wholeWord: parseFlag(wholeWord, true),
+    };
+  };
+
+  let entries: (PronunciationEntry | null)[];
+  if (fileName.toLowerCase().endsWith('.json')) {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) {
+      throw new Error('A JSON kiejtési szótárnak egy bejegyzéseket tartalmazó tömbnek kell lennie.');
+    }
+    entries = parsed.map(item => fromFields(item?.term, item?.replacement, item?.caseSensitive, item?.wholeWord));
+  } else {
+    const rows = parseCsvRows(content.replace(/^\uFEFF/, ''));
+    const hasHeader = rows[0]?.[0]?.trim().toLowerCase() === CSV_HEADER[0];
+    entries = rows.slice(hasHeader ? 1 : 0).map(cells => fromFields(cells[0], cells[1] ?? '', cells[2], cells[3]));
+  }
+
+  const valid = entries.filter((entry): entry is PronunciationEntry => entry !== null);
+  if (valid.length === 0) {
+    throw new Error('A fájl nem tartalmaz érvényes kiejtési bejegyzést.');
+  }
+  return valid;
+}
+
+/**
+ * Adds imported entries to a lexicon; an imported term replaces an existing entry with the same term.
+ */
+export function mergeLexicons(lexicon: PronunciationEntry[], imported: PronunciationEntry[]): PronunciationEntry[] {
+  const importedTerms = new Set(imported.map(entry => entry.term.toLocaleLowerCase('hu')));
+  return [
+    ...lexicon.filter(entry => !importedTerms.has(entry.term.toLocaleLowerCase('hu'))),
+    ...imported,
+  ];
+}
+
+/**
+ * Replaces the lexicon of a book. Segments whose spoken text changes get a new id and lose their
+ * audio, so neither the in-memory nor the persisted audio with the old pronunciation is reused.
+ */
+export function applyLexiconToBook(book: Book, lexicon: PronunciationEntry[]): Book {
+  return {
+    ...book,
+    lexicon,
+    chapters: book.chapters.map(chapter => ({
+      ...chapter,
+      segments: chapter.segments.map(segment =>
+        applyPronunciationLexicon(segment.text, book.lexicon) === applyPronunciationLexicon(segment.text, lexicon)
+          ? segment
+          : { ...segment, id: createId('seg'), status: 'pending', audioRef: undefined, duration: undefined, error: undefined }
+      ),
+    })),
+  };
+}
@@ -0,0 +1,51 @@
+// utils/rateLimiter.ts
+import { abortableDelay, throwIfAborted } from './abort';
+
+export interface RateLimiter {
+  /**
+   * Resolves when the next request may be sent. Callers are served in the order they asked;
+   * an aborted caller rejects and gives up its place.
+   */
+  acquire(signal?: AbortSignal): Promise<void>;
+  /** Holds back every caller for the given time, e.g. after a 429 with a retry delay. */
+  pauseFor(delayMs: number): void;
+}
+
+/**
+ * Creates a limiter that spaces requests evenly to stay within a requests-per-minute budget.
+ * Even spacing (instead of a burst at the start of every minute) keeps parallel workers from
+ * tripping the API's short-term quota.
+ * @param requestsPerMinute The budget; null or 0 means unlimited (pauses still apply).
+ */
+export function createRateLimiter(requestsPerMinute: number | null): RateLimiter {
+  const intervalMs = requestsPerMinute && requestsPerMinute > 0 ? 60000 / requestsPerMinute : 0;
+  let nextSlotAt = 0;
+  let pausedUntil = 0;
+  let queue: Promise<void> = Promise.resolve();
+
+  const waitForSlot = async (signal?: AbortSignal) => {
+    for (;;) {
+      throwIfAborted(signal);
+      const now = Date.now();
+      const readyAt = Math.max(nextSlotAt, pausedUntil);
+      if (readyAt <= now) {
+        nextSlotAt = now + intervalMs;
+        return;
+      }
+      // A pause may be extended while we wait, so check again afterwards
+      await abortableDelay(readyAt - now, signal);
+    }
+  };
+
+  return {
+    acquire: (signal?: AbortSignal) => {
+      const slot = queue.then(() => waitForSlot(signal));
+      // A rejected slot must not block the callers queued behind it
+      queue = slot.catch(() => undefined);
+      return slot;
+    },
+    pauseFor: (delayMs: number) => {
+      pausedUntil = Math.max(pausedUntil, Date.now() + delayMs);
+    },
+  };
+}
@@ -0,0 +1,497 @@
+// utils/textNormalizer.ts
+// Rewrites digits, dates, times, currency, units and abbreviations into words before synthesis,
+// so the TTS model reads them the same way every time. Hungarian and English are supported.
+import { Book, NormalizationLanguage, NormalizationRuleId, TextNormalizationSettings } from '../types';
+import { createId } from './projectModel';
+import { applyPronunciationLexicon } from './pronunciationLexicon';
+
+export const NORMALIZATION_RULES: { id: NormalizationRuleId; label: string; example: string }[] = [
+  { id: 'abbreviations', label: 'Rövidítések', example: 'pl. → például' },
+  { id: 'dates', label: 'Dátumok', example: '2024. március 15. → kétezer-huszonnégy március tizenötödike' },
+  { id: 'times', label: 'Időpontok', example: '14:30 → tizennégy óra harminc perc' },
+  { id: 'currency', label: 'Pénznemek', example: '1 500 Ft → ezerötszáz forint' },
+  { id: 'units', label: 'Mértékegységek', example: '3,5 kg → három egész öt tized kilogramm' },
+  { id: 'ordinals', label: 'Sorszámnevek', example: '3. fejezet → harmadik fejezet' },
+  { id: 'numbers', label: 'Számok', example: '42 → negyvenkettő' },
+];
+
+export const DEFAULT_NORMALIZATION_SETTINGS: TextNormalizationSettings = {
+  enabled: true,
+  language: 'hu',
+  rules: {
+    abbreviations: true,
+    dates: true,
+    times: true,
+    currency: true,
+    units: true,
+    ordinals: true,
+    numbers: true,
+  },
+};
+
+// --- Hungarian number words ---
+
+const HU_ONES = ['', 'egy', 'kettő', 'három', 'négy', 'öt', 'hat', 'hét', 'nyolc', 'kilenc'];
+const HU_TENS = ['', 'tíz', 'húsz', 'harminc', 'negyven', 'ötven', 'hatvan', 'hetven', 'nyolcvan', 'kilencven'];
+const HU_TENS_COMPOUND = ['', 'tizen', 'huszon', 'harminc', 'negyven', 'ötven', 'hatvan', 'hetven', 'nyolcvan', 'kilencven'];
+const HU_SCALES: [number, string][] = [[1e9, 'milliárd'], [1e6, 'millió'], [1e3, 'ezer']];
+
+// Before a noun Hungarian says "két alma", standing alone "kettő"
+const huDigit = (digit: number, attributive: boolean) => (digit === 2 && attributive ? 'két' : HU_ONES[digit]);
+
+function huBelowThousand(n: number, attributive: boolean): string {
+  const hundreds = Math.floor(n / 100);
+  const tens = Math.floor((n % 100) / 10);
+  const ones = n % 10;
+  let words = hundreds === 0 ? '' : `${hundreds === 1 ? '' : huDigit(hundreds, true)}száz`;
+  if (ones === 0) return words + HU_TENS[tens];
+  return words + HU_TENS_COMPOUND[tens] + huDigit(ones, attributive);
+}
+
+function huCardinal(n: number, attributive: boolean = false): string {
+  if (n === 0) return 'nulla';
+  const groups: string[] = [];
+  let rest = n;
+  for (const [scale, name] of HU_SCALES) {
+    const count = Math.floor(rest / scale);
+    rest %= scale;
+    if (count > 0) groups.push(`${scale === 1e3 && count === 1 ? '' : huCardinal(count, true)}${name}`);
+  }
+  if (rest > 0) groups.push(huBelowThousand(rest, attributive));
+  // Above two thousand the groups are written with hyphens: kétezer-huszonnégy
+  return groups.join(n > 2000 ? '-' : '');
+}
+
+const HU_ORDINAL_ENDINGS: [string, string][] = [
+  ['kilencven', 'kilencvenedik'], ['nyolcvan', 'nyolcvanadik'], ['hetven', 'hetvenedik'], ['hatvan', 'hatvanadik'],
+  ['ötven', 'ötvenedik'], ['negyven', 'negyvenedik'], ['harminc', 'harmincadik'], ['milliárd', 'milliárdodik'],
+  ['millió', 'milliomodik'], ['kilenc', 'kilencedik'], ['kettő', 'kettedik'], ['három', 'harmadik'],
+  ['nyolc', 'nyolcadik'], ['négy', 'negyedik'], ['húsz', 'huszadik'], ['ezer', 'ezredik'], ['száz', 'századik'],
+  ['egy', 'egyedik'], ['hat', 'hatodik'], ['hét', 'hetedik'], ['tíz', 'tizedik'], ['öt', 'ötödik'],
+];
+
+function huOrdinal(n: number): string {
+  if (n === 1) return 'első';
+  if (n === 2) return 'második';
+  const cardinal = huCardinal(n);
+  const ending = HU_ORDINAL_ENDINGS.find(([from]) => cardinal.endsWith(from));
+  return ending ? cardinal.slice(0, cardinal.length - ending[0].length) + ending[1] : `${cardinal}-adik`;
+}
+
+// Day of the month: "tizenötödike", "elseje"
+function huDayOfMonth(n: number): string {
+  if (n === 1) return 'elseje';
+  const ordinal = huOrdinal(n);
+  return ordinal + (/[ao]dik$/.test(ordinal) ? 'a' : 'e');
+}
+
+// Stems that change before a vowel-initial suffix: 3-at → hármat, 7-et → hetet
+const HU_VOWEL_STEMS: [string, string][] = [['három', 'hárm'], ['hét', 'het'], ['tíz', 'tiz'], ['húsz', 'husz'], ['ezer', 'ezr']];
+
+function huAttachSuffix(word: string, suffix: string): string {
+  if (/^[aáeéiíoóöőuúüű]/i.test(suffix)) {
+    const stem = HU_VOWEL_STEMS.find(([from]) => word.endsWith(from));
+    if (stem) return word.slice(0, word.length - stem[0].length) + stem[1] + suffix;
+  }
+  return word + suffix;
+}
+
+// "15-én" → "tizenötödikén": the day form takes the suffix with a lengthened final vowel
+function huDayWithSuffix(n: number, suffix: string): string {
+  const day = huDayOfMonth(n);
+  const rest = suffix.replace(/^j?[aáeé]/, '');
+  if (!rest) return day;
+  return day.slice(0, -1) + (day.endsWith('a') ? 'á' : 'é') + rest;
+}
+
+// --- English number words ---
+
+const EN_SMALL = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const EN_TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const EN_SCALES: [number, string][] = [[1e9, 'billion'], [1e6, 'million'], [1e3, 'thousand']];
+
+function enBelowHundred(n: number): string {
+  if (n < 20) return EN_SMALL[n];
+  return EN_TENS[Math.floor(n / 10)] + (n % 10 ? `-${EN_SMALL[n % 10]}` : '');
+}
+
+function enBelowThousand(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const parts = hundreds ? [`${EN_SMALL[hundreds]} hundred`] : [];
+  if (rest) parts.push(enBelowHundred(rest));
+  return parts.join(' ');
+}
+
+function enCardinal(n: number): string {
+  if (n === 0) return 'zero';
+  const parts: string[] = [];
+  let rest = n;
+  for (const [scale, name] of EN_SCALES) {
+    const count = Math.floor(rest / scale);
+    rest %= scale;
+    if (count > 0) parts.push(`${enCardinal(count)} ${name}`);
+  }
+  if (rest > 0) parts.push(enBelowThousand(rest));
+  return parts.join(' ');
+}
+
+const EN_IRREGULAR_ORDINALS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth',
+};
+
+function enOrdinal(n: number): string {
+  const cardinal = enCardinal(n);
+  const match = cardinal.match(/([a-z]+)$/)!;
+  const last = match[1];
+  const ordinal = EN_IRREGULAR_ORDINALS[last] ?? (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`);
+  return cardinal.slice(0, cardinal.length - last.length) + ordinal;
+}
+
+// Years are read in pairs: "nineteen ninety-nine", "twenty twenty-four", but "two thousand five"
+function enYear(n: number): string {
+  if (n < 1100 || n >= 10000 || (n >= 2000 && n < 2010) || n % 1000 === 0) return enCardinal(n);
+  const high = Math.floor(n / 100);
+  const low = n % 100;
+  if (low === 0) return `${enCardinal(high)} hundred`;
+  return `${enCardinal(high)} ${low < 10 ? `oh ${EN_SMALL[low]}` : enBelowHundred(low)}`;
+}
+
+// --- Shared helpers ---
+
+const cardinal = (n: number, language: NormalizationLanguage, attributive = false) =>
+  language === 'hu' ? huCardinal(n, attributive) : enCardinal(n);
+
+/**
+ * Spells out an ordinal, e.g. 3 → "harmadik" / "third" (used for numbered list items on import).
+ */
+export const spellOrdinal = (n: number, language: NormalizationLanguage) => (language === 'hu' ? huOrdinal(n) : enOrdinal(n));
+
+// Numbers beyond this are read digit by digit; nobody says them as words anyway
+const MAX_SPOKEN_NUMBER = 999_999_999_999;
+
+const HU_NUMBER = String.raw`\d{1,3}(?:[ .\u00A0\u202F]\d{3})+(?:,\d+)?|\d+(?:,\d+)?`;
+const EN_NUMBER = String.raw`\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?`;
+const numberPattern = (language: NormalizationLanguage) => (language === 'hu' ? HU_NUMBER : EN_NUMBER);
+
+interface ParsedNumber {
+  integer: number;
+  fraction: string; // Digits after the decimal separator, '' if none
+}
+
+function parseNumber(raw: string, language: NormalizationLanguage): ParsedNumber {
+  const [integerPart, fraction = ''] = raw.split(language === 'hu' ? ',' : '.');
+  return { integer: Number(integerPart.replace(/[^\d]/g, '')), fraction };
+}
+
+function digitsToWords(digits: string, language: NormalizationLanguage): string {
+  return [...digits].map(digit => cardinal(Number(digit), language)).join(' ');
+}
+
+function numberToWords(value: ParsedNumber, language: NormalizationLanguage, attributive = false): string {
+  const integerWords = value.integer > MAX_SPOKEN_NUMBER
+    ? digitsToWords(String(value.integer), language)
+    : cardinal(value.integer, language, attributive && !value.fraction);
+  if (!value.fraction) return integerWords;
+  if (language === 'en') return `${integerWords} point ${digitsToWords(value.fraction, language)}`;
+  // 3,5 → három egész öt tized; 3,25 → három egész huszonöt század
+  const unit = ['tized', 'század', 'ezred'][value.fraction.length - 1];
+  return unit
+    ? `${integerWords} egész ${huCardinal(Number(value.fraction), true)} ${unit}`
+    : `${integerWords} egész ${digitsToWords(value.fraction, language)}`;
+}
+
+// Keeps the capital letter of a sentence-initial abbreviation or number
+const matchCase = (source: string, words: string) =>
+  /^\p{Lu}/u.test(source) ? words.charAt(0).toLocaleUpperCase() + words.slice(1) : words;
+
+// An expanded "stb." or "15." whose period also closed the sentence keeps the period
+const sentenceEnd = (match: string, offset: number, whole: string) =>
+  match.endsWith('.') && /^(\s+\p{Lu}|\s*$)/u.test(whole.slice(offset + match.length)) ? '.' : '';
+
+const signWord = (language: NormalizationLanguage) => (language === 'hu' ? 'mínusz ' : 'minus ');
+
+// A minus sign counts only at the start of a word, so ranges like 2-3 stay positive
+const SIGN = String.raw`(?:(?<=^|[\s(])([-−]))?`;
+
+// --- Rules ---
+
+type Rule = (text: string, language: NormalizationLanguage) => string;
+
+const HU_ABBREVIATIONS: [string, string][] = [
+  ['i. e.', 'időszámításunk előtt'], ['i. sz.', 'időszámításunk szerint'], ['Kr. e.', 'Krisztus előtt'],
+  ['Kr. u.', 'Krisztus után'], ['pl.', 'például'], ['stb.', 'és így tovább'], ['kb.', 'körülbelül'],
+  ['ill.', 'illetve'], ['ún.', 'úgynevezett'], ['dr.', 'doktor'], ['ld.', 'lásd'], ['vö.', 'vesd össze'],
+  ['ti.', 'tudniillik'], ['tkp.', 'tulajdonképpen'], ['id.', 'idősebb'], ['ifj.', 'ifjabb'], ['özv.', 'özvegy'],
+  ['ford.', 'fordította'], ['szerk.', 'szerkesztette'], ['évf.', 'évfolyam'], ['max.', 'maximum'], ['db', 'darab'],
+];
+
+const EN_ABBREVIATIONS: [string, string][] = [
+  ['e.g.', 'for example'], ['i.e.', 'that is'], ['etc.', 'et cetera'], ['vs.', 'versus'],
+  ['approx.', 'approximately'], ['Dr.', 'Doctor'], ['Mr.', 'Mister'], ['Mrs.', 'Missus'], ['Prof.', 'Professor'],
+  ['Jr.', 'Junior'], ['Sr.', 'Senior'],
+];
+
+// Abbreviations that may close a sentence; the period of any other (pl. Anna) is only the
+// abbreviation's and is dropped with it
+const SENTENCE_FINAL_ABBREVIATIONS = new Set(['stb.', 'i. e.', 'i. sz.', 'Kr. e.', 'Kr. u.', 'etc.', 'Jr.', 'Sr.']);
+
+// Also ordinary words ("ti." ends "Menjetek ti."): expanded only mid-sentence, before a comma or a
+// lower-case word, and never case-insensitively
+const MID_SENTENCE_ABBREVIATIONS = new Set(['ti.']);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const expandAbbreviations: Rule = (text, language) => {
+  const list = language === 'hu' ? HU_ABBREVIATIONS : EN_ABBREVIATIONS;
+  let result = text;
+  for (const [abbreviation, expansion] of list) {
+    const isMidSentence = MID_SENTENCE_ABBREVIATIONS.has(abbreviation);
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])${escapeRegExp(abbreviation).replace(/ /g, '\\s?')}${abbreviation.endsWith('.') ? '' : '(?![\\p{L}\\p{N}])'}${isMidSentence ? '(?=,|\\s+\\p{Ll})' : ''}`,
+      // Hungarian abbreviations are written in lower case, but a sentence may start with them
+      language === 'hu' && !isMidSentence ? 'giu' : 'gu',
+    );
+    const mayEndSentence = SENTENCE_FINAL_ABBREVIATIONS.has(abbreviation);
+    result = result.replace(pattern, (match, offset: number, whole: string) =>
+      matchCase(match, expansion) + (mayEndSentence ? sentenceEnd(match, offset, whole) : ''));
+  }
+  // "No. 5" → "number 5"
+  if (language === 'en') result = result.replace(/\bNo\.\s?(?=\d)/g, 'number ');
+  return result;
+};
+
+const HU_MONTHS = ['január', 'február', 'március', 'április', 'május', 'június', 'július', 'augusztus', 'szeptember', 'október', 'november', 'december'];
+const EN_MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const isValidDay = (month: number, day: number) => month >= 1 && month <= 12 && day >= 1 && day <= 31;
+
+function spokenDate(year: number | null, month: number, day: number, language: NormalizationLanguage, huSuffix = ''): string {
+  if (language === 'hu') {
+    const dayWords = huSuffix ? huDayWithSuffix(day, huSuffix) : huDayOfMonth(day);
+    return `${year !== null ? `${huCardinal(year)} ` : ''}${HU_MONTHS[month - 1]} ${dayWords}`;
+  }
+  return `${EN_MONTHS[month - 1]} ${enOrdinal(day)}${year !== null ? `, ${enYear(year)}` : ''}`;
+}
+
+const expandDates: Rule = (text, language) => {
+  // ISO and Hungarian numeric dates: 2024-03-15, 2024. 03. 15.
+  let result = text.replace(
+    /(?<!\d)(\d{4})(?:-(\d{1,2})-(\d{1,2})(?!\d)|\.\s?(\d{1,2})\.\s?(\d{1,2})\.(?:-(j?[aáeé]n|j?[aáeé]?ig))?)/g,
+    (match, year: string, isoMonth: string | undefined, isoDay: string | undefined, huMonth: string | undefined,
+      huDay: string | undefined, suffix: string | undefined, offset: number, whole: string) => {
+      const month = Number(isoMonth ?? huMonth);
+      const day = Number(isoDay ?? huDay);
+      if (!isValidDay(month, day)) return match;
+      return spokenDate(Number(year), month, day, language, suffix ?? '') + sentenceEnd(match, offset, whole);
+    },
+  );
+
+  if (language === 'hu') {
+    // 2024. március 15., március 15-én
+    const months = HU_MONTHS.join('|');
+    result = result.replace(
+      new RegExp(`(?:(?<!\\d)(\\d{4})\\.?\\s+)?(${months})\\s+(\\d{1,2})(?:\\.|-(j?[aáeé]n|j?[aáeé]?ig|j?[ae]))(?!\\d)`, 'giu'),
+      (match, year: string | undefined, monthName: string, day: string, suffix: string | undefined, offset: number, whole: string) => {
+        const month = HU_MONTHS.indexOf(monthName.toLocaleLowerCase('hu-HU')) + 1;
+        if (!isValidDay(month, Number(day))) return match;
+        const words = spokenDate(year ? Number(year) : null, month, Number(day), language, suffix ?? '');
+        return matchCase(year ? '' : monthName, words) + sentenceEnd(match, offset, whole);
+      },
+    );
+  } else {
+    // March 15, 2024 / 15 March 2024
+    const months = EN_MONTHS.join('|');
+    result = result
+      .replace(new RegExp(`\\b(${months})\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, 'g'),
+        (match, monthName: string, day: string, year?: string) => {
+          const month = EN_MONTHS.indexOf(monthName) + 1;
+          return isValidDay(month, Number(day)) ? spokenDate(year ? Number(year) : null, month, Number(day), language) : match;
+        })
+      .replace(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(${months})(?:,?\\s+(\\d{4}))?\\b`, 'g'),
+        (match, day: string, monthName: string, year?: string) => {
+          const month = EN_MONTHS.indexOf(monthName) + 1;
+          if (!isValidDay(month, Number(day))) return match;
+          return `the ${enOrdinal(Number(day))} of ${monthName}${year ? `, ${enYear(Number(year))}` : ''}`;
+        });
+  }
+  return result;
+};
+
+const expandTimes: Rule = (text, language) =>
+  text.replace(/(?<![\d:])([01]?\d|2[0-3]):([0-5]\d)(?![\d:])(?:-(\p{L}+))?/gu, (_match, h: string, m: string, suffix?: string) => {
+    const hours = Number(h);
+    const minutes = Number(m);
+    if (language === 'hu') {
+      const words = minutes === 0
+        ? `${huCardinal(hours, true)} óra`
+        : `${huCardinal(hours, true)} óra ${huCardinal(minutes, true)} perc`;
+      return suffix ? words + suffix : words;
+    }
+    const hourWords = enCardinal(hours);
+    const words = minutes === 0
+      ? (hours <= 12 ? `${hourWords} o'clock` : `${hourWords} hundred`)
+      : `${hourWords} ${minutes < 10 ? `oh ${EN_SMALL[minutes]}` : enBelowHundred(minutes)}`;
+    return suffix ? `${words}-${suffix}` : words;
+  });
+
+interface CurrencyWords {
+  hu: [string, string];          // Main unit, minor unit
+  en: [string, string, string, string]; // Singular, plural, minor singular, minor plural
+}
+
+const CURRENCIES: { symbols: string[]; words: CurrencyWords }[] = [
+  { symbols: ['Ft', 'HUF', 'forint'], words: { hu: ['forint', 'fillér'], en: ['forint', 'forints', 'fillér', 'fillérs'] } },
+  { symbols: ['€', 'EUR', 'euró'], words: { hu: ['euró', 'cent'], en: ['euro', 'euros', 'cent', 'cents'] } },
+  { symbols: ['$', 'USD', 'dollár'], words: { hu: ['dollár', 'cent'], en: ['dollar', 'dollars', 'cent', 'cents'] } },
+  { symbols: ['£', 'GBP', 'font'], words: { hu: ['font', 'penny'], en: ['pound', 'pounds', 'penny', 'pence'] } },
+];
+
+function spokenAmount(raw: string, words: CurrencyWords, language: NormalizationLanguage, suffix = ''): string {
+  const { integer, fraction } = parseNumber(raw, language);
+  const minor = fraction ? Number(fraction.padEnd(2, '0').slice(0, 2)) : 0;
+  if (language === 'hu') {
+    const main = huAttachSuffix(`${huCardinal(integer, true)} ${words.hu[0]}`, minor ? '' : suffix);
+    return minor ? `${main} ${huCardinal(minor, true)} ${huAttachSuffix(words.hu[1], suffix)}` : main;
+  }
+  const main = `${enCardinal(integer)} ${integer === 1 ? words.en[0] : words.en[1]}`;
+  return minor ? `${main} and ${enCardinal(minor)} ${minor === 1 ? words.en[2] : words.en[3]}` : main;
+}
+
+const expandCurrency: Rule = (text, language) => {
+  const number = numberPattern(language);
+  let result = text;
+  for (const { symbols, words } of CURRENCIES) {
+    const symbolPattern = symbols.map(escapeRegExp).join('|');
+    // Amount before the symbol (1 500 Ft-ot, 10 €) or after it ($5, € 10)
+    result = result
+      .replace(new RegExp(`(?<![\\p{L}\\d])(${number})\\s?(?:${symbolPattern})(?:-(\\p{L}+))?(?![\\p{L}])`, 'gu'),
+        (_match, amount: string, suffix?: string) => spokenAmount(amount, words, language, suffix ?? ''))
+      .replace(new RegExp(`(?:${symbols.filter(symbol => !/\p{L}/u.test(symbol)).map(escapeRegExp).join('|') || '(?!)'})\\s?(${number})(?![\\d])`, 'gu'),
+        (_match, amount: string) => spokenAmount(amount, words, language));
+  }
+  return result;
+};
+
+// Symbol, Hungarian word, English singular, English plural. Longer symbols come first.
+const UNITS: [string, string, string, string][] = [
+  ['km/h', 'kilométer per óra', 'kilometer per hour', 'kilometers per hour'],
+  ['m²', 'négyzetméter', 'square meter', 'square meters'],
+  ['m2', 'négyzetméter', 'square meter', 'square meters'],
+  ['°C', 'Celsius-fok', 'degree Celsius', 'degrees Celsius'],
+  ['km', 'kilométer', 'kilometer', 'kilometers'],
+  ['cm', 'centiméter', 'centimeter', 'centimeters'],
+  ['mm', 'milliméter', 'millimeter', 'millimeters'],
+  ['kg', 'kilogramm', 'kilogram', 'kilograms'],
+  ['mg', 'milligramm', 'milligram', 'milligrams'],
+  ['ml', 'milliliter', 'milliliter', 'milliliters'],
+  ['dl', 'deciliter', 'deciliter', 'deciliters'],
+  ['%', 'százalék', 'percent', 'percent'],
+  ['m', 'méter', 'meter', 'meters'],
+  ['g', 'gramm', 'gram', 'grams'],
+  ['l', 'liter', 'liter', 'liters'],
+];
+
+const expandUnits: Rule = (text, language) => {
+  const number = numberPattern(language);
+  const symbols = UNITS.map(([symbol]) => escapeRegExp(symbol)).join('|');
+  return text.replace(
+    new RegExp(`${SIGN}(?<![\\p{L}\\d])(${number})\\s?(${symbols})(?:-(\\p{L}+))?(?![\\p{L}\\d])`, 'gu'),
+    (_match, sign: string | undefined, amount: string, symbol: string, suffix?: string) => {
+      const [, hu, singular, plural] = UNITS.find(([candidate]) => candidate === symbol)!;
+      const value = parseNumber(amount, language);
+      const signPrefix = sign ? signWord(language) : '';
+      if (language === 'hu') return signPrefix + huAttachSuffix(`${numberToWords(value, language, true)} ${hu}`, suffix ?? '');
+      const isOne = value.integer === 1 && !value.fraction;
+      return `${signPrefix}${numberToWords(value, language)} ${isOne ? singular : plural}`;
+    },
+  );
+};
+
+const expandOrdinals: Rule = (text, language) => {
+  if (language === 'en') {
+    return text.replace(/\b(\d+)(st|nd|rd|th)\b/g, (match, digits: string) =>
+      Number(digits) > MAX_SPOKEN_NUMBER ? match : enOrdinal(Number(digits)));
+  }
+  // "3. fejezet": a number with a period followed by a lower-case word is an ordinal in Hungarian,
+  // and so is one before a comma ("a 2., a 3. és") or after an article at the end of a clause ("a 3.")
+  return text.replace(
+    /(?<![\p{L}\d.,])(?:(?<=(?<!\p{L})[Aa]z?\s)(\d+)\.(?=\s*$|\s+\p{Lu}|[;:)])|(\d+)\.(?=\s+\p{Ll}|,))/gu,
+    (match, afterArticle: string | undefined, digits: string | undefined, offset: number, whole: string) => {
+      const n = Number(afterArticle ?? digits);
+      if (n > MAX_SPOKEN_NUMBER) return match;
+      return huOrdinal(n) + (afterArticle ? sentenceEnd(match, offset, whole) : '');
+    },
+  );
+};
+
+// Any other whole number closing a clause with a period ("… 3. Aztán") may be an ordinal or a
+// cardinal; the number rule leaves it as written
+const HU_CARDINAL_NUMBER = String.raw`\d{1,3}(?:[ .\u00A0\u202F]\d{3})+(?:,\d+)?|\d+,\d+|\d+(?!\.(?:\s*$|\s+\p{Lu}|[;:)]))`;
+// A bare four-digit number in English text is most likely a year ("in 1999")
+const EN_YEAR_REGEX = /^(1[1-9]|20)\d\d$/;
+
+const expandNumbers: Rule = (text, language) =>
+  text.replace(
+    new RegExp(`(?:(?<=^|[\\s(])[-−])?(?<![\\p{L}\\d])(?:${language === 'hu' ? HU_CARDINAL_NUMBER : EN_NUMBER})(?:-(\\p{L}+))?(?![\\p{L}\\d])`, 'gu'),
+    (match: string, suffix: string | undefined, offset: number, whole: string) => {
+      const negative = /^[-−]/.test(match);
+      const raw = match.replace(/^[-−]/, '').replace(/-\p{L}+$/u, '');
+      // Before a word Hungarian uses the attributive form (két alma); the first number of a range
+      // takes the form of the second (két-három napos)
+      const following = whole.slice(offset + match.length).replace(/^[-–]\d+/, '');
+      const attributive = language === 'hu' && /^\s+(?!(?:és|vagy|meg|is|pedig)\s)\p{L}/u.test(following);
+      let words = language === 'en' && !negative && EN_YEAR_REGEX.test(raw)
+        ? enYear(Number(raw))
+        : numberToWords(parseNumber(raw, language), language, attributive);
+      if (suffix) words = language === 'hu' ? huAttachSuffix(words, suffix) : `${words}-${suffix}`;
+      const sign = negative ? (language === 'hu' ? 'mínusz ' : 'minus ') : '';
+      return sign + words;
+    },
+  );
+
+const RULES: Record<NormalizationRuleId, Rule> = {
+  abbreviations: expandAbbreviations,
+  dates: expandDates,
+  times: expandTimes,
+  currency: expandCurrency,
+  units: expandUnits,
+  ordinals: expandOrdinals,
+  numbers: expandNumbers,
+};
+
+/**
+ * Applies the enabled rules in NORMALIZATION_RULES order: the specific patterns (dates, currency…)
+ * run before the generic number rule so their digits are read in context.
+ */
+export function normalizeText(text: string, settings: TextNormalizationSettings): string {
+  if (!settings.enabled) return text;
+  return NORMALIZATION_RULES.reduce(
+    (result, rule) => (settings.rules[rule.id] ? RULES[rule.id](result, settings.language) : result),
+    text,
+  );
+}
+
+/**
+ * Replaces the normalization settings of a book. Like a lexicon change, segments whose spoken text
+ * changes get a new id and lose their audio.
+ */
+export function applyNormalizationToBook(book: Book, normalization: TextNormalizationSettings): Book {
+  return {
+    ...book,
+    normalization,
+    chapters: book.chapters.map(chapter => ({
+      ...chapter,
+      segments: chapter.segments.map(segment => {
+        // Normalization runs on the text the lexicon already rewrote
+        const respelled = applyPronunciationLexicon(segment.text, book.lexicon);
+        return normalizeText(respelled, book.normalization) === normalizeText(respelled, normalization)
+          ? segment
+          : { ...segment, id: createId('seg'), status: 'pending' as const, audioRef: undefined, duration: undefined, error: undefined };
+      }),
+    })),
+  };
+}
@@ -0,0 +1,141 @@
+// utils/textSegmenter.ts
+import { TTS_SEGMENT_MAX_CHARS } from '../constants';
+
+// Sentence terminators, optionally followed by closing quotes/brackets, then whitespace.
+// Covers the Hungarian quotation marks („…”, »…«) as well as the usual ASCII ones.
+const SENTENCE_BOUNDARY_REGEX = /(?<=[.!?…]+["'”’»)\]]*)\s+/;
+const CLAUSE_BOUNDARY_REGEX = /(?<=[,;:–—])\s+/;
+
+/**
+ * Splits a single piece of text at the given boundary and greedily packs the
+ * resulting pieces into chunks that do not exceed `maxChars`.
+ * Pieces that are still too long are handed to `splitOversized`.
+ */
+function packPieces(
+  pieces: string[],
+  maxChars: number,
+  splitOversized: (piece: string) => string[],
+): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const rawPiece of pieces) {
+    const piece = rawPiece.trim();
+    if (!piece) continue;
+
+    if (piece.length > maxChars) {
+      if (current) {
+        chunks.push(current);
+        current = '';
+      }
+      chunks.push(...splitOversized(piece));
+      continue;
+    }
+
+    const candidate = current ? `${current} ${piece}` : piece;
+    if (candidate.length > maxChars) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+// Last resort for run-on text without punctuation: cut at the last whitespace before the limit.
+function hardSplit(text: string, maxChars: number): string[] {
+  const chunks: string[] = [];
+  let remaining = text.trim();
+  while (remaining.length > maxChars) {
+    let cut = remaining.lastIndexOf(' ', maxChars);
+    if (cut <= 0) cut = maxChars;
+    chunks.push(remaining.slice(0, cut).trim());
+    remaining = remaining.slice(cut).trim();
+  }
+  if (remaining) chunks.push(remaining);
+  return chunks;
+}
+
+function splitSentence(sentence: string, maxChars: number): string[] {
+  return packPieces(sentence.split(CLAUSE_BOUNDARY_REGEX), maxChars, piece => hardSplit(piece, maxChars));
+}
+
+function splitParagraph(paragraph: string, maxChars: number): string[] {
+  return packPieces(paragraph.split(SENTENCE_BOUNDARY_REGEX), maxChars, sentence => splitSentence(sentence, maxChars));
+}
+
+/**
+ * Splits a manuscript into API-sized segments for text-to-speech.
+ * Paragraphs are kept together whenever they fit; longer paragraphs are split at
+ * sentence boundaries, then at clause boundaries, and only as a last resort at whitespace.
+ * Consecutive short paragraphs are merged so the number of API calls stays low,
+ * joined by a blank line so the model still hears the paragraph break.
+ * @param text The full manuscript text.
+ * @param maxChars The maximum length of a single segment in characters.
+ * @param previousSegments Segments of an earlier version of the text. Paragraph runs that still form one
+ *   of them are kept as that segment, so an edit does not shift the boundaries of the segments after it.
+ * @returns The ordered list of segment texts. Never contains empty strings.
+ */
+export function splitTextIntoSegments(
+  text: string,
+  maxChars: number = TTS_SEGMENT_MAX_CHARS,
+  previousSegments: string[] = [],
+): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n|\r?\n/)
+    .map(p => p.replace(/\s+/g, ' ').trim())
+    .filter(p => p.length > 0);
+  const anchors = new Set(previousSegments);
+
+  // Number of paragraphs starting at `start` that together reproduce a previous segment (longest match), or 0
+  const anchoredParagraphCount = (start: number): number => {
+    let candidate = '';
+    let count = 0;
+    for (let i = start; i < paragraphs.length; i++) {
+      candidate = candidate ? `${candidate}\n\n${paragraphs[i]}` : paragraphs[i];
+      if (candidate.length > maxChars) break;
+      if (anchors.has(candidate)) count = i - start + 1;
+    }
+    return count;
+  };
+
+  const segments: string[] = [];
+  let current = '';
+
+  for (let index = 0; index < paragraphs.length; index++) {
+    const paragraph = paragraphs[index];
+    const anchored = anchors.size > 0 ? anchoredParagraphCount(index) : 0;
+    if (anchored > 0) {
+      if (current) {
+        segments.push(current);
+        current = '';
+      }
+      segments.push(paragraphs.slice(index, index + anchored).join('\n\n'));
+      index += anchored - 1;
+      continue;
+    }
+
+    if (paragraph.length > maxChars) {
+      if (current) {
+        segments.push(current);
+        current = '';
+      }
+      segments.push(...splitParagraph(paragraph, maxChars));
+      continue;
+    }
+
+    const candidate = current ? `${current}\n\n${paragraph}` : paragraph;
+    if (candidate.length > maxChars) {
+      segments.push(current);
+      current = paragraph;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) segments.push(current);
+  return segments;
+}
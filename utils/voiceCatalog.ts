@@ -0,0 +1,88 @@
+// utils/voiceCatalog.ts
+// Searching and filtering the TTS voice catalog, and the user's favorite voices.
+import { TtsVoice } from '../services/ttsProvider';
+import { VoiceGender, VoiceGenre, VoicePitch } from '../types';
+
+export interface VoiceCatalogFilters {
+  query: string;
+  genders: VoiceGender[]; // Empty = any
+  pitches: VoicePitch[];
+  genres: VoiceGenre[];
+  language: string;       // '' = any
+  favoritesOnly: boolean;
+}
+
+export const EMPTY_VOICE_CATALOG_FILTERS: VoiceCatalogFilters = {
+  query: '',
+  genders: [],
+  pitches: [],
+  genres: [],
+  language: '',
+  favoritesOnly: false,
+};
+
+export const VOICE_GENDER_LABELS: Record<VoiceGender, string> = {
+  female: 'Női',
+  male: 'Férfi',
+};
+
+export const VOICE_PITCH_LABELS: Record<VoicePitch, string> = {
+  low: 'Mély',
+  medium: 'Közepes',
+  high: 'Magas',
+};
+
+export const VOICE_GENRE_LABELS: Record<VoiceGenre, string> = {
+  fiction: 'Szépirodalom',
+  thriller: 'Krimi, thriller',
+  romance: 'Romantikus',
+  fantasy: 'Fantasy, sci-fi',
+  children: 'Gyerekkönyv',
+  nonfiction: 'Ismeretterjesztő',
+  poetry: 'Vers',
+};
+
+const normalizeForSearch = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Voices matching every active filter. The query matches the name, the descriptors and the genre
+ * labels, accent-insensitively. Voices without a profile only pass when no profile filter is set.
+ */
+export function filterVoiceCatalog(voices: TtsVoice[], filters: VoiceCatalogFilters, favorites: string[]): TtsVoice[] {
+  const terms = normalizeForSearch(filters.query).split(/\s+/).filter(Boolean);
+  return voices.filter(voice => {
+    if (filters.favoritesOnly && !favorites.includes(voice.value)) return false;
+    const profile = voice.profile;
+    if (!profile) {
+      const hasProfileFilter = filters.genders.length + filters.pitches.length + filters.genres.length > 0 || filters.language !== '';
+      return !hasProfileFilter && terms.every(term => normalizeForSearch(voice.name).includes(term));
+    }
+    if (filters.genders.length > 0 && !filters.genders.includes(profile.gender)) return false;
+    if (filters.pitches.length > 0 && !filters.pitches.includes(profile.pitch)) return false;
+    if (filters.genres.length > 0 && !filters.genres.some(genre => profile.genres.includes(genre))) return false;
+    if (filters.language && !profile.languages.includes(filters.language)) return false;
+
+    const haystack = normalizeForSearch([
+      voice.name,
+      ...profile.descriptors,
+      ...profile.genres.map(genre => VOICE_GENRE_LABELS[genre]),
+    ].join(' '));
+    return terms.every(term => haystack.includes(term));
+  });
+}
+
+const FAVORITE_VOICES_STORAGE_KEY = 'favoriteVoices';
+
+export function loadFavoriteVoices(): string[] {
+  try {
+    const saved = JSON.parse(globalThis.localStorage.getItem(FAVORITE_VOICES_STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved.filter((value): value is string => typeof value === 'string') : [];
+  } catch (err) {
+    console.warn('Could not read favorite voices:', err);
+    return [];
+  }
+}
+
+export function saveFavoriteVoices(favorites: string[]): void {
+  globalThis.localStorage.setItem(FAVORITE_VOICES_STORAGE_KEY, JSON.stringify(favorites));
+}
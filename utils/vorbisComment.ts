@@ -0,0 +1,61 @@
+// utils/vorbisComment.ts
+// Vorbis comments (the tag format of FLAC and Ogg Opus) and the FLAC picture structure.
+import { AudiobookExportMetadata } from '../types';
+import { ChapterMarker, CoverImage } from './audiobookMetadata';
+import { concatBytes, latin1, textEncoder, u32be, u32le } from './byteUtils';
+
+export const EXPORT_VENDOR = 'Hangoskönyv Készítő';
+
+const formatTimestamp = (ms: number) => {
+  const pad = (value: number, length = 2) => String(Math.floor(value)).padStart(length, '0');
+  return `${pad(ms / 3600000)}:${pad((ms / 60000) % 60)}:${pad((ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+/**
+ * Tags as NAME=value pairs. Chapters follow the CHAPTERxxx / CHAPTERxxxNAME convention.
+ */
+export function createVorbisComments(metadata: Omit<AudiobookExportMetadata, 'cover'>, chapters: ChapterMarker[]): string[] {
+  const comments: [string, string][] = [
+    ['TITLE', metadata.title],
+    ['ARTIST', metadata.author],
+    ['ALBUMARTIST', metadata.author],
+    ['PERFORMER', metadata.narrator],
+    ['ALBUM', metadata.album],
+    ['GENRE', metadata.genre],
+    ['TRACKNUMBER', metadata.trackNumber > 0 ? String(metadata.trackNumber) : ''],
+    ['TRACKTOTAL', metadata.trackTotal > 0 ? String(metadata.trackTotal) : ''],
+  ];
+  chapters.forEach((chapter, index) => {
+    const key = `CHAPTER${String(index + 1).padStart(3, '0')}`;
+    comments.push([key, formatTimestamp(chapter.startMs)], [`${key}NAME`, chapter.title]);
+  });
+  return comments.filter(([, value]) => value.trim()).map(([name, value]) => `${name}=${value.trim()}`);
+}
+
+/**
+ * The comment header body: vendor string and comments, with little-endian lengths.
+ */
+export function encodeVorbisComments(comments: string[]): Uint8Array {
+  const vendor = textEncoder.encode(EXPORT_VENDOR);
+  const encoded = comments.map(comment => textEncoder.encode(comment));
+  return concatBytes([
+    u32le(vendor.length), vendor,
+    u32le(encoded.length),
+    ...encoded.flatMap(comment => [u32le(comment.length), comment]),
+  ]);
+}
+
+/**
+ * FLAC PICTURE block body for a front cover; also embedded base64-encoded in Ogg comments.
+ * Dimensions are left 0 (unknown), which readers accept.
+ */
+export function createFlacPicture(cover: CoverImage): Uint8Array {
+  const mimeType = latin1(cover.mimeType);
+  return concatBytes([
+    u32be(3), // Picture type: front cover
+    u32be(mimeType.length), mimeType,
+    u32be(0), // Empty description
+    u32be(0), u32be(0), u32be(0), u32be(0), // Width, height, color depth, palette size
+    u32be(cover.data.length), cover.data,
+  ]);
+}
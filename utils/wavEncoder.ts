@@ -0,0 +1,100 @@
+// utils/wavEncoder.ts
+// Uncompressed PCM WAV at 16 or 24 bits, with INFO tags and chapter cue points that audio editors
+// show as markers.
+import { AudioExportFormat, EncoderSettings, ExportSink, PcmEncoder } from './audioExport';
+import { concatBytes, latin1, textEncoder, u16le, u32le } from './byteUtils';
+
+// RIFF chunk, padded to an even length
+function chunk(id: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = concatBytes(payload);
+  return concatBytes([latin1(id), u32le(body.length), body, body.length % 2 ? Uint8Array.of(0) : new Uint8Array(0)]);
+}
+
+const zeroTerminated = (text: string) => concatBytes([textEncoder.encode(text), Uint8Array.of(0)]);
+
+function infoList(settings: EncoderSettings): Uint8Array {
+  const { metadata } = settings;
+  const entries: [string, string][] = [
+    ['INAM', metadata.title],
+    ['IART', metadata.author],
+    ['IPRD', metadata.album],
+    ['IGNR', metadata.genre],
+    ['ITRK', metadata.trackNumber > 0 ? `${metadata.trackNumber}/${metadata.trackTotal}` : ''],
+    ['ICMT', metadata.narrator ? `Felolvasó: ${metadata.narrator}` : ''],
+  ];
+  const present = entries.filter(([, value]) => value.trim());
+  return present.length > 0
+    ? chunk('LIST', latin1('INFO'), ...present.map(([id, value]) => chunk(id, zeroTerminated(value.trim()))))
+    : new Uint8Array(0);
+}
+
+function chapterCues(settings: EncoderSettings): Uint8Array {
+  if (settings.chapters.length === 0) return new Uint8Array(0);
+  const positions = settings.chapters.map(chapter => Math.round((chapter.startMs / 1000) * settings.sampleRate));
+  const cue = chunk('cue ', u32le(positions.length), ...positions.flatMap((position, index) => [
+    u32le(index + 1), u32le(position), latin1('data'), u32le(0), u32le(0), u32le(position),
+  ]));
+  const labels = chunk('LIST', latin1('adtl'), ...settings.chapters.map((chapter, index) =>
+    chunk('labl', u32le(index + 1), zeroTerminated(chapter.title))));
+  return concatBytes([cue, labels]);
+}
+
+async function createWavEncoder(bitDepth: 16 | 24, settings: EncoderSettings, sink: ExportSink): Promise<PcmEncoder> {
+  const bytesPerSample = bitDepth / 8;
+  const dataSize = settings.totalFrames * bytesPerSample;
+  const fmt = chunk('fmt ',
+    u16le(1), u16le(1), u32le(settings.sampleRate), u32le(settings.sampleRate * bytesPerSample),
+    u16le(bytesPerSample), u16le(bitDepth),
+  );
+  const tags = concatBytes([infoList(settings), chapterCues(settings)]);
+  const riffSize = 4 + fmt.length + tags.length + 8 + dataSize + (dataSize % 2);
+  if (riffSize > 0xffffffff) {
+    throw new Error('A WAV fájl túl nagy (4 GB felett). Válasszon FLAC formátumot.');
+  }
+  await sink.append(concatBytes([latin1('RIFF'), u32le(riffSize), latin1('WAVE'), fmt, tags, latin1('data'), u32le(dataSize)]));
+
+  return {
+    write: async samples => {
+      const bytes = new Uint8Array(samples.length * bytesPerSample);
+      const view = new DataView(bytes.buffer);
+      const scale = bitDepth === 16 ? 0x7fff : 0x7fffff;
+      for (let i = 0; i < samples.length; i++) {
+        const value = Math.round(Math.max(-1, Math.min(1, samples[i])) * scale);
+        if (bitDepth === 16) {
+          view.setInt16(i * 2, value, true);
+        } else {
+          bytes[i * 3] = value & 0xff;
+          bytes[i * 3 + 1] = (value >> 8) & 0xff;
+          bytes[i * 3 + 2] = (value >> 16) & 0xff;
+        }
+      }
+      await sink.append(bytes);
+    },
+    finish: async () => {
+      if (dataSize % 2) await sink.append(Uint8Array.of(0));
+    },
+    close: () => {},
+  };
+}
+
+const sourceRate = async (rate: number) => rate;
+
+export const wav16ExportFormat: AudioExportFormat = {
+  id: 'wav16',
+  label: 'WAV (16 bit)',
+  extension: 'wav',
+  mimeType: 'audio/wav',
+  description: 'WAV hang',
+  resolveSampleRate: sourceRate,
+  createEncoder: (settings, sink) => createWavEncoder(16, settings, sink),
+};
+
+export const wav24ExportFormat: AudioExportFormat = {
+  id: 'wav24',
+  label: 'WAV (24 bit)',
+  extension: 'wav',
+  mimeType: 'audio/wav',
+  description: 'WAV hang',
+  resolveSampleRate: sourceRate,
+  createEncoder: (settings, sink) => createWavEncoder(24, settings, sink),
+};
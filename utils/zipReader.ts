@@ -0,0 +1,110 @@
+// utils/zipReader.ts
+// Minimal ZIP reader for document packages (EPUB, DOCX, ODT). Only stored and deflated entries
+// are supported; deflate is decoded with the browser's DecompressionStream.
+
+export interface ZipArchive {
+  paths: string[];
+  has: (path: string) => boolean;
+  readBytes: (path: string) => Promise<Uint8Array>;
+  readText: (path: string) => Promise<string>;
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes plus a comment of at most 65535 bytes at the end of the file
+  const lowest = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) return offset;
+  }
+  throw new Error('A fájl nem érvényes ZIP csomag.');
+}
+
+/**
+ * Indexes a ZIP archive from its central directory. Entries are decompressed only when read.
+ * Paths are returned as stored in the archive (forward slashes, no leading slash).
+ */
+export function openZip(buffer: ArrayBuffer): ZipArchive {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) throw new Error('A ZIP64 formátumú csomagok nem támogatottak.');
+
+  const utf8 = new TextDecoder('utf-8');
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Sérült ZIP tartalomjegyzék.');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const path = utf8.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    if (!path.endsWith('/')) {
+      if (flags & 0x1) throw new Error(`Titkosított ZIP bejegyzés: ${path}`);
+      entries.set(path, {
+        method: view.getUint16(offset + 10, true),
+        compressedSize: view.getUint32(offset + 20, true),
+        localHeaderOffset: view.getUint32(offset + 42, true),
+      });
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const readBytes = async (path: string): Promise<Uint8Array> => {
+    const entry = entries.get(path);
+    if (!entry) throw new Error(`Hiányzó fájl a csomagban: ${path}`);
+    const header = entry.localHeaderOffset;
+    if (view.getUint32(header, true) !== LOCAL_HEADER_SIGNATURE) throw new Error(`Sérült ZIP bejegyzés: ${path}`);
+    // The local header's name and extra field may differ in length from the central directory's
+    const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+    if (entry.method === METHOD_STORED) return data;
+    if (entry.method === METHOD_DEFLATE) return inflateRaw(data);
+    throw new Error(`Nem támogatott tömörítési mód (${entry.method}): ${path}`);
+  };
+
+  return {
+    paths: [...entries.keys()],
+    has: (path) => entries.has(path),
+    readBytes,
+    readText: async (path) => utf8.decode(await readBytes(path)),
+  };
+}
+
+/**
+ * Resolves a relative reference (e.g. an href in an OPF or XHTML file) against the directory of
+ * the referencing file. The fragment and query are dropped; percent-escapes are decoded.
+ */
+export function resolveZipPath(fromPath: string, href: string): string {
+  let target = href.replace(/[#?].*$/, '');
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // A stray % is kept as written
+  }
+  const parts = target.startsWith('/') ? [] : fromPath.split('/').slice(0, -1);
+  for (const part of target.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}